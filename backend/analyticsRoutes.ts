@@ -0,0 +1,41 @@
+import express, { Request, Response } from 'express';
+import { getRevenueSummary, getRevenueBreakdown } from './database';
+import { validate } from './validation';
+import { describeRoute } from './openapi';
+import {
+  timeRangeQuerySchema, revenueDimensionParamsSchema, revenueSummarySchema, revenueBreakdownSchema, TimeRangeQuery,
+  RevenueDimensionParams
+} from './schemas';
+
+export const analyticsRouter = express.Router();
+
+analyticsRouter.get('/revenue', describeRoute({
+  operationId: 'getRevenue',
+  summary: 'Booked revenue, rates and margin over a time range',
+  description: 'Totals over the range and per bucket in tz. Only successful calls with a load count as bookings.',
+  tag: 'Analytics',
+  responses: { 200: { description: 'Revenue metrics and their timeline', schema: revenueSummarySchema } }
+}), validate({ query: timeRangeQuerySchema }), async (req: Request, res: Response) => {
+  try {
+    res.json(await getRevenueSummary(res.locals.query as TimeRangeQuery));
+  } catch (error) {
+    console.error('Error fetching revenue analytics:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+analyticsRouter.get('/revenue/:dimension', describeRoute({
+  operationId: 'getRevenueBreakdown',
+  summary: 'Booked revenue by lane, equipment type or commodity',
+  description: 'The 20 groups with the most booked revenue in the range; bucket is not used.',
+  tag: 'Analytics',
+  responses: { 200: { description: 'Revenue metrics per group', schema: revenueBreakdownSchema } }
+}), validate({ params: revenueDimensionParamsSchema, query: timeRangeQuerySchema }), async (req: Request, res: Response) => {
+  try {
+    const { dimension } = res.locals.params as RevenueDimensionParams;
+    res.json(await getRevenueBreakdown(dimension, res.locals.query as TimeRangeQuery));
+  } catch (error) {
+    console.error('Error fetching revenue breakdown:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
@@ -0,0 +1,144 @@
+import express, { Request, Response, NextFunction, RequestHandler } from 'express';
+import {
+  listApiKeys, getApiKey, createApiKey, revokeApiKey, rotateApiKey, hasScope, ApiKey, ApiKeyScope
+} from './apiKeys';
+import { hasRole, User } from './users';
+import { describeRoute, RouteAccess } from './openapi';
+import { validate } from './validation';
+import {
+  apiKeyIdParamsSchema, apiKeyInputSchema, apiKeyRotationSchema, ApiKeyIdParams, ApiKeyInput, ApiKeyRotationInput
+} from './schemas';
+
+export const apiKeyRouter = express.Router();
+
+const DEFAULT_ROTATION_GRACE_SECONDS = Number(process.env.API_KEY_ROTATION_GRACE_SECONDS) || 24 * 60 * 60;
+
+/**
+ * Rejects requests whose key (set on res.locals.apiKey by the authentication
+ * middleware) lacks the scope. With two scopes, GET and HEAD requests need
+ * the first and every other method the second. Dashboard users signed in
+ * with a session only pass when they are admins.
+ */
+export function requireScope(scope: ApiKeyScope, writeScope?: ApiKeyScope): RequestHandler & { access: RouteAccess } {
+  const handler = (req: Request, res: Response, next: NextFunction): void => {
+    const needed = writeScope && req.method !== 'GET' && req.method !== 'HEAD' ? writeScope : scope;
+    const apiKey = res.locals.apiKey as ApiKey | undefined;
+    const user = res.locals.user as User | undefined;
+    if (user && hasRole(user, 'admin')) {
+      next();
+      return;
+    }
+    if (!apiKey || !hasScope(apiKey, needed)) {
+      res.status(403).json({ error: user ? 'Forbidden: requires the admin role' : `Forbidden: this API key lacks the ${needed} scope` });
+      return;
+    }
+    next();
+  };
+  return Object.assign(handler, { access: { scope, writeScope, role: 'admin' as const } });
+}
+
+apiKeyRouter.get('/', describeRoute({
+  operationId: 'listApiKeys',
+  summary: 'List API keys',
+  tag: 'API keys',
+  responses: { 200: 'All keys, without their secrets' }
+}), async (req: Request, res: Response) => {
+  try {
+    res.json(await listApiKeys());
+  } catch (error) {
+    console.error('Error fetching API keys:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// The plain key is only part of this response
+apiKeyRouter.post('/', describeRoute({
+  operationId: 'createApiKey',
+  summary: 'Issue an API key',
+  description: 'The plain key is only returned in this response.',
+  tag: 'API keys',
+  responses: { 201: 'The key, including the plain key' }
+}), validate({ body: apiKeyInputSchema }), async (req: Request, res: Response) => {
+  try {
+    const created = await createApiKey(res.locals.body as ApiKeyInput);
+    res.status(201).json({ ...created.apiKey, key: created.key });
+  } catch (error) {
+    console.error('Error creating API key:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+apiKeyRouter.get('/:id', describeRoute({
+  operationId: 'getApiKey',
+  summary: 'Fetch an API key',
+  tag: 'API keys',
+  responses: { 200: 'The key, without its secret', 404: 'API key not found' }
+}), validate({ params: apiKeyIdParamsSchema }), async (req: Request, res: Response) => {
+  try {
+    const { id } = res.locals.params as ApiKeyIdParams;
+    const apiKey = await getApiKey(id);
+    if (!apiKey) {
+      res.status(404).json({ error: 'API key not found' });
+      return;
+    }
+    res.json(apiKey);
+  } catch (error) {
+    console.error('Error fetching API key:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Issues a replacement key; the old one keeps working for
+// grace_period_seconds (0 revokes it right away)
+apiKeyRouter.post('/:id/rotate', describeRoute({
+  operationId: 'rotateApiKey',
+  summary: 'Replace an API key',
+  description: 'The old key keeps working for grace_period_seconds; 0 revokes it right away.',
+  tag: 'API keys',
+  responses: {
+    201: 'The new key, including the plain key, and the old one',
+    404: 'API key not found',
+    409: 'API key is revoked or expired'
+  }
+}), validate({ params: apiKeyIdParamsSchema, body: apiKeyRotationSchema }), async (req: Request, res: Response) => {
+  try {
+    const { id } = res.locals.params as ApiKeyIdParams;
+    const { grace_period_seconds = DEFAULT_ROTATION_GRACE_SECONDS } = res.locals.body as ApiKeyRotationInput;
+
+    const existing = await getApiKey(id);
+    if (!existing) {
+      res.status(404).json({ error: 'API key not found' });
+      return;
+    }
+
+    const rotated = await rotateApiKey(id, grace_period_seconds);
+    if (!rotated) {
+      res.status(409).json({ error: 'API key is revoked or expired and cannot be rotated' });
+      return;
+    }
+
+    res.status(201).json({ ...rotated.apiKey, key: rotated.key, previous: rotated.previous });
+  } catch (error) {
+    console.error('Error rotating API key:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+apiKeyRouter.delete('/:id', describeRoute({
+  operationId: 'revokeApiKey',
+  summary: 'Revoke an API key',
+  tag: 'API keys',
+  responses: { 200: 'API key revoked', 404: 'API key not found or already revoked' }
+}), validate({ params: apiKeyIdParamsSchema }), async (req: Request, res: Response) => {
+  try {
+    const { id } = res.locals.params as ApiKeyIdParams;
+    if (!await revokeApiKey(id)) {
+      res.status(404).json({ error: 'API key not found or already revoked' });
+      return;
+    }
+    res.json({ message: 'API key revoked successfully', id });
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
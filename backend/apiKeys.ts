@@ -0,0 +1,170 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { runQuery, getQuery, allQuery, withTransaction } from './database';
+import { toSqlTimestamp } from './timeBuckets';
+import type { ApiKeyInput } from './schemas';
+
+// admin grants every other scope
+export const API_KEY_SCOPES = [
+  'loads:read', 'loads:write', 'negotiate', 'calls:read', 'calls:write', 'carriers:read', 'carriers:write', 'analytics:read', 'admin'
+] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export interface ApiKey {
+  // null for the bootstrap key taken from the API_KEY environment variable
+  id: number | null;
+  name: string;
+  // First characters of the key, enough to tell keys apart in listings
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  created_at: string | null;
+  expires_at: string | null;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  // The key this one replaced through rotation
+  rotated_from: number | null;
+}
+
+interface ApiKeyRow extends Omit<ApiKey, 'scopes'> {
+  scopes: string;
+}
+
+const KEY_PREFIX_LENGTH = 10;
+
+// last_used_at is only written when it is older than this, so busy keys do
+// not cause a write on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const BOOTSTRAP_KEY: ApiKey = {
+  id: null,
+  name: 'bootstrap (API_KEY)',
+  key_prefix: '',
+  scopes: ['admin'],
+  created_at: null,
+  expires_at: null,
+  last_used_at: null,
+  revoked_at: null,
+  rotated_from: null
+};
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function toApiKey(row: ApiKeyRow): ApiKey {
+  return { ...row, scopes: row.scopes.split(' ').filter(Boolean) as ApiKeyScope[] };
+}
+
+export function hasScope(apiKey: ApiKey, scope: ApiKeyScope): boolean {
+  return apiKey.scopes.includes('admin') || apiKey.scopes.includes(scope);
+}
+
+export async function listApiKeys(): Promise<ApiKey[]> {
+  const rows = await allQuery<ApiKeyRow>(`
+    SELECT id, name, key_prefix, scopes, created_at, expires_at, last_used_at, revoked_at, rotated_from
+    FROM API_KEYS ORDER BY id
+  `);
+  return rows.map(toApiKey);
+}
+
+export async function getApiKey(id: number): Promise<ApiKey | null> {
+  const row = await getQuery<ApiKeyRow>(`
+    SELECT id, name, key_prefix, scopes, created_at, expires_at, last_used_at, revoked_at, rotated_from
+    FROM API_KEYS WHERE id = ?
+  `, [id]);
+  return row ? toApiKey(row) : null;
+}
+
+async function insertApiKey(input: ApiKeyInput, rotated_from: number | null): Promise<{ apiKey: ApiKey; key: string }> {
+  const key = `lk_${randomBytes(32).toString('base64url')}`;
+  const result = await runQuery(`
+    INSERT INTO API_KEYS (name, key_prefix, key_hash, scopes, expires_at, rotated_from)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `, [input.name, key.slice(0, KEY_PREFIX_LENGTH), hashKey(key), input.scopes.join(' '), input.expires_at, rotated_from]);
+
+  return { apiKey: (await getApiKey(result.lastID)) as ApiKey, key };
+}
+
+/**
+ * Creates a key and returns it in plain text together with its record. Only
+ * the hash is stored, so the plain key cannot be shown again.
+ */
+export async function createApiKey(input: ApiKeyInput): Promise<{ apiKey: ApiKey; key: string }> {
+  return insertApiKey(input, null);
+}
+
+// Returns false when the key does not exist or was already revoked
+export async function revokeApiKey(id: number): Promise<boolean> {
+  const result = await runQuery(`
+    UPDATE API_KEYS SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND revoked_at IS NULL
+  `, [id]);
+  return result.changes > 0;
+}
+
+/**
+ * Replaces a key with a new one carrying the same name, scopes and expiry.
+ * The old key keeps working for grace_seconds so clients can switch over
+ * without downtime; 0 revokes it immediately. Returns null when the key does
+ * not exist or is no longer active.
+ */
+export async function rotateApiKey(
+  id: number,
+  grace_seconds: number
+): Promise<{ apiKey: ApiKey; key: string; previous: ApiKey } | null> {
+  return withTransaction(async () => {
+    const existing = await getApiKey(id);
+    if (!existing || !isActive(existing)) {
+      return null;
+    }
+
+    const created = await insertApiKey({ name: existing.name, scopes: existing.scopes, expires_at: existing.expires_at }, id);
+
+    if (grace_seconds > 0) {
+      const grace_end = toSqlTimestamp(new Date(Date.now() + grace_seconds * 1000));
+      await runQuery(`
+        UPDATE API_KEYS SET expires_at = ? WHERE id = ? AND (expires_at IS NULL OR expires_at > ?)
+      `, [grace_end, id, grace_end]);
+    } else {
+      await runQuery('UPDATE API_KEYS SET revoked_at = CURRENT_TIMESTAMP WHERE id = ?', [id]);
+    }
+
+    return { ...created, previous: (await getApiKey(id)) as ApiKey };
+  });
+}
+
+function isActive(apiKey: ApiKey): boolean {
+  return apiKey.revoked_at === null && (apiKey.expires_at === null || apiKey.expires_at > toSqlTimestamp(new Date()));
+}
+
+/**
+ * Resolves the x-api-key header to an active key, or null. The API_KEY
+ * environment variable is always accepted as an admin key so a fresh
+ * deployment can create the first keys.
+ */
+export async function authenticateApiKey(key: string, bootstrapKey?: string): Promise<ApiKey | null> {
+  const hash = hashKey(key);
+
+  if (bootstrapKey && timingSafeEqual(Buffer.from(hash, 'hex'), Buffer.from(hashKey(bootstrapKey), 'hex'))) {
+    return BOOTSTRAP_KEY;
+  }
+
+  const row = await getQuery<ApiKeyRow>(`
+    SELECT id, name, key_prefix, scopes, created_at, expires_at, last_used_at, revoked_at, rotated_from
+    FROM API_KEYS WHERE key_hash = ?
+  `, [hash]);
+  if (!row) {
+    return null;
+  }
+
+  const apiKey = toApiKey(row);
+  if (!isActive(apiKey)) {
+    return null;
+  }
+
+  const now = new Date();
+  if (!apiKey.last_used_at || new Date(`${apiKey.last_used_at.replace(' ', 'T')}Z`).getTime() < now.getTime() - LAST_USED_RESOLUTION_MS) {
+    await runQuery('UPDATE API_KEYS SET last_used_at = ? WHERE id = ?', [toSqlTimestamp(now), apiKey.id]);
+  }
+
+  return apiKey;
+}
@@ -0,0 +1,84 @@
+import express, { Request, Response } from 'express';
+import { listCalls, getCall, updateCall, CallConflictError } from './calls';
+import { findMissingLoadIds } from './database';
+import { validate, sendValidationError } from './validation';
+import { describeRoute } from './openapi';
+import {
+  callListQuerySchema, callListResultSchema, callDetailSchema, callUpdateSchema, CallListQuery, CallUpdate
+} from './schemas';
+
+export const callRouter = express.Router();
+
+callRouter.get('/', describeRoute({
+  operationId: 'listCalls',
+  summary: 'Search recorded calls',
+  description: 'Newest first, or best transcript match first when searching with q.',
+  tag: 'Calls',
+  responses: { 200: { description: 'A page of calls and the total count', schema: callListResultSchema } }
+}), validate({ query: callListQuerySchema }), async (req: Request, res: Response) => {
+  try {
+    res.json(await listCalls(res.locals.query as CallListQuery));
+  } catch (error) {
+    console.error('Error fetching calls:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+callRouter.get('/:id', describeRoute({
+  operationId: 'getCall',
+  summary: 'Fetch a call with its transcript',
+  tag: 'Calls',
+  responses: { 200: { description: 'The call', schema: callDetailSchema }, 404: 'Call not found' }
+}), async (req: Request, res: Response) => {
+  try {
+    const call = await getCall(req.params.id);
+    if (!call) {
+      res.status(404).json({ error: 'Call not found' });
+      return;
+    }
+    res.json(call);
+  } catch (error) {
+    console.error('Error fetching call:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Fields that arrive after the call was recorded, e.g. { "transcript": ..., "sentiment": "positive" }
+callRouter.patch('/:id', describeRoute({
+  operationId: 'updateCall',
+  summary: 'Add or correct fields of a recorded call',
+  description: 'Tags and pitched_load_ids replace the stored lists. The offers, mc_number, load_id, negotiation_id '
+    + 'and successful cannot change; sending other values for them is a 409.',
+  tag: 'Calls',
+  responses: {
+    200: { description: 'The updated call', schema: callDetailSchema },
+    404: 'Call not found',
+    409: 'The update contradicts how the call was recorded'
+  }
+}), validate({ body: callUpdateSchema }), async (req: Request, res: Response) => {
+  try {
+    const update = res.locals.body as CallUpdate;
+    const missingLoadIds = await findMissingLoadIds(update.pitched_load_ids ?? []);
+    if (missingLoadIds.length > 0) {
+      sendValidationError(res, missingLoadIds.map(missingId => ({
+        field: 'pitched_load_ids',
+        message: `load ${missingId} does not exist`
+      })));
+      return;
+    }
+
+    const call = await updateCall(req.params.id, update);
+    if (!call) {
+      res.status(404).json({ error: 'Call not found' });
+      return;
+    }
+    res.json(call);
+  } catch (error) {
+    if (error instanceof CallConflictError) {
+      res.status(409).json({ error: error.message, conflicts: error.conflicts });
+      return;
+    }
+    console.error('Error updating call:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
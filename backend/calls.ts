@@ -0,0 +1,285 @@
+import { runQuery, getQuery, allQuery, withTransaction } from './database';
+import { publishEvent } from './events';
+import { CallListQuery, CallListResult, CallRecord, CallDetail, CallSort, CallUpdate, CallExportQuery } from './schemas';
+
+type CallFilters = Omit<CallListQuery, 'limit' | 'offset'> & { limit?: number; offset?: number };
+
+// Calls are exported in pages of this many rows
+const EXPORT_BATCH_SIZE = 500;
+
+interface CallRow extends Omit<CallRecord, 'successful' | 'pitched_load_ids' | 'tags'> {
+  successful: number;
+  // JSON arrays
+  pitched_load_ids: string;
+  tags: string;
+}
+
+const CALL_COLUMNS = `
+  c.id, c.duration, c.mc_number, c.final_offer, c.final_counter_offer, c.offer_iterations,
+  c.successful, c.sentiment, c.outcome, c.negotiation_id, c.load_id, c.current_location,
+  c.equipment_type, c.created_at,
+  (SELECT json_group_array(load_id) FROM (SELECT load_id FROM CALL_LOADS WHERE call_id = c.id ORDER BY load_id)) AS pitched_load_ids,
+  (SELECT json_group_array(tag) FROM (SELECT tag FROM CALL_TAGS WHERE call_id = c.id ORDER BY tag)) AS tags
+`;
+
+const CALL_SORT_COLUMNS: Record<CallSort, string> = {
+  created_at: 'c.created_at',
+  duration: 'c.duration',
+  mc_number: 'c.mc_number',
+  final_offer: 'c.final_offer',
+  offer_iterations: 'c.offer_iterations',
+  sentiment: 'c.sentiment',
+  outcome: 'c.outcome'
+};
+
+// snippet is only selected when searching, so it is absent otherwise
+function fromRow(row: CallRow): CallRecord {
+  return {
+    ...row,
+    successful: row.successful === 1,
+    pitched_load_ids: JSON.parse(row.pitched_load_ids),
+    tags: JSON.parse(row.tags)
+  };
+}
+
+// Each word becomes a quoted FTS5 phrase, so operators and punctuation in
+// the search box are matched literally instead of failing to parse
+function toFtsQuery(q: string): string {
+  return q.split(/\s+/).filter(Boolean).map(word => `"${word.replace(/"/g, '""')}"`).join(' ');
+}
+
+// The FROM and WHERE clauses selecting the calls that match the filters
+function buildCallConditions(filters: Omit<CallFilters, 'sort' | 'order'>): {
+  from: string;
+  conditions: string[];
+  params: any[];
+  search: string;
+} {
+  const conditions: string[] = [];
+  const params: any[] = [];
+  const search = filters.q ? toFtsQuery(filters.q) : '';
+
+  if (search) {
+    conditions.push('CALLS_FTS MATCH ?');
+    params.push(search);
+  }
+  if (filters.outcome && filters.outcome.length > 0) {
+    conditions.push(`c.outcome IN (${filters.outcome.map(() => '?').join(', ')})`);
+    params.push(...filters.outcome);
+  }
+  if (filters.sentiment) {
+    conditions.push('c.sentiment = ?');
+    params.push(filters.sentiment);
+  }
+  if (filters.successful !== undefined) {
+    conditions.push('c.successful = ?');
+    params.push(filters.successful ? 1 : 0);
+  }
+  if (filters.mc_number !== undefined) {
+    conditions.push('c.mc_number = ?');
+    params.push(filters.mc_number);
+  }
+  if (filters.load_id !== undefined) {
+    conditions.push('(c.load_id = ? OR EXISTS (SELECT 1 FROM CALL_LOADS WHERE call_id = c.id AND load_id = ?))');
+    params.push(filters.load_id, filters.load_id);
+  }
+  if (filters.equipment_type) {
+    conditions.push('LOWER(c.equipment_type) = LOWER(?)');
+    params.push(filters.equipment_type);
+  }
+  if (filters.tag) {
+    conditions.push('EXISTS (SELECT 1 FROM CALL_TAGS WHERE call_id = c.id AND tag = ?)');
+    params.push(filters.tag);
+  }
+  if (filters.min_duration !== undefined) {
+    conditions.push('c.duration >= ?');
+    params.push(filters.min_duration);
+  }
+  if (filters.max_duration !== undefined) {
+    conditions.push('c.duration <= ?');
+    params.push(filters.max_duration);
+  }
+  if (filters.from) {
+    conditions.push('c.created_at >= ?');
+    params.push(filters.from);
+  }
+  if (filters.to) {
+    conditions.push('c.created_at <= ?');
+    params.push(filters.to);
+  }
+
+  const from = search ? 'CALLS c JOIN CALLS_FTS ON CALLS_FTS.call_id = c.id' : 'CALLS c';
+  return { from, conditions, params, search };
+}
+
+/**
+ * Calls matching the filters, newest first by default or, when searching
+ * transcripts with q, best match first. Matches get a highlighted snippet.
+ */
+export async function listCalls(filters: CallFilters = {}): Promise<CallListResult> {
+  const { from, conditions, params, search } = buildCallConditions(filters);
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  // Ties (and equal relevance) fall back to newest first
+  const order = filters.sort || !search
+    ? `${CALL_SORT_COLUMNS[filters.sort || 'created_at']} ${filters.order === 'asc' ? 'ASC' : 'DESC'}, `
+    : 'CALLS_FTS.rank, ';
+
+  const count = await getQuery<{ total: number }>(`SELECT COUNT(*) AS total FROM ${from} ${where}`, params);
+  const rows = await allQuery<CallRow>(`
+    SELECT ${CALL_COLUMNS}${search ? `, snippet(CALLS_FTS, 1, '[', ']', '…', 12) AS snippet` : ''}
+    FROM ${from}
+    ${where}
+    ORDER BY ${order}c.created_at DESC, c.id
+    LIMIT ? OFFSET ?
+  `, [...params, filters.limit || 50, filters.offset || 0]);
+
+  return { calls: rows.map(fromRow), total: count?.total || 0 };
+}
+
+/**
+ * Every call matching the filters, newest first, read a page at a time so
+ * large exports are never held in memory at once.
+ */
+export async function* exportCalls(filters: CallExportQuery): AsyncGenerator<CallRecord> {
+  const { from, conditions, params } = buildCallConditions(filters);
+  let last: CallRow | undefined;
+  for (;;) {
+    // Keyset paging on the list order, so calls recorded meanwhile do not
+    // shift the pages
+    const pageConditions = last ? [...conditions, '(c.created_at < ? OR (c.created_at = ? AND c.id > ?))'] : conditions;
+    const pageParams = last ? [...params, last.created_at, last.created_at, last.id] : params;
+    const rows = await allQuery<CallRow>(`
+      SELECT ${CALL_COLUMNS}
+      FROM ${from}
+      ${pageConditions.length > 0 ? `WHERE ${pageConditions.join(' AND ')}` : ''}
+      ORDER BY c.created_at DESC, c.id
+      LIMIT ?
+    `, [...pageParams, EXPORT_BATCH_SIZE]);
+    for (const row of rows) {
+      yield fromRow(row);
+    }
+    if (rows.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+    last = rows[rows.length - 1];
+  }
+}
+
+export async function getCall(id: string): Promise<CallDetail | null> {
+  const row = await getQuery<CallRow & { transcript: string | null }>(`
+    SELECT ${CALL_COLUMNS}, c.transcript FROM CALLS c WHERE c.id = ?
+  `, [id]);
+  return row ? { ...fromRow(row), transcript: row.transcript } : null;
+}
+
+export interface CallConflict {
+  field: string;
+  stored: unknown;
+  received: unknown;
+}
+
+// Thrown when what was sent for a call contradicts what is already recorded
+export class CallConflictError extends Error {
+  constructor(public readonly conflicts: CallConflict[], message?: string) {
+    super(message || `Conflicts with the recorded call: ${conflicts.map(conflict => conflict.field).join(', ')}`);
+  }
+}
+
+// Set when the call is recorded; they decide the booking and the offers
+const FIXED_CALL_FIELDS = [
+  'mc_number', 'final_offer', 'final_counter_offer', 'offer_iterations', 'successful', 'negotiation_id', 'load_id'
+] as const;
+
+type ComparableCall = Omit<CallDetail, 'id' | 'created_at'>;
+
+// Missing and null are the same
+function sameValue(stored: unknown, received: unknown): boolean {
+  return (stored ?? null) === (received ?? null);
+}
+
+/**
+ * The fixed fields of received that differ from the stored call. The others
+ * may have been changed since with PATCH, so a retry of the original call
+ * still matches; fields received does not have are not compared.
+ */
+export function findCallConflicts(stored: CallDetail, received: Partial<ComparableCall>): CallConflict[] {
+  return FIXED_CALL_FIELDS
+    .filter(field => received[field] !== undefined && !sameValue(stored[field], received[field]))
+    .map(field => ({ field, stored: stored[field], received: received[field] }));
+}
+
+/**
+ * Fills in or corrects fields of a recorded call, such as a transcript that
+ * arrives after the call ended. Tags and pitched_load_ids replace the stored
+ * lists. Throws CallConflictError when a fixed field (the offers, the load or
+ * whether the call booked it) would change, or the outcome contradicts
+ * successful. Returns null when the call does not exist.
+ */
+export async function updateCall(id: string, update: CallUpdate): Promise<CallDetail | null> {
+  return withTransaction(async () => {
+    const stored = await getCall(id);
+    if (!stored) {
+      return null;
+    }
+
+    const conflicts = findCallConflicts(stored, update);
+    if (update.outcome && (update.outcome === 'booked') !== stored.successful) {
+      conflicts.push({ field: 'outcome', stored: stored.outcome, received: update.outcome });
+    }
+    if (conflicts.length > 0) {
+      throw new CallConflictError(conflicts, `Cannot change ${conflicts.map(conflict => conflict.field).join(', ')} of a recorded call`);
+    }
+
+    const columns: string[] = [];
+    const params: any[] = [];
+    for (const field of ['duration', 'sentiment', 'outcome', 'transcript', 'current_location', 'equipment_type'] as const) {
+      if (update[field] !== undefined) {
+        columns.push(`${field} = ?`);
+        params.push(update[field]);
+      }
+    }
+    if (columns.length > 0) {
+      await runQuery(`UPDATE CALLS SET ${columns.join(', ')} WHERE id = ?`, [...params, id]);
+    }
+
+    if (update.tags !== undefined) {
+      await runQuery('DELETE FROM CALL_TAGS WHERE call_id = ?', [id]);
+      for (const tag of update.tags) {
+        await runQuery('INSERT OR IGNORE INTO CALL_TAGS (call_id, tag) VALUES (?, ?)', [id, tag]);
+      }
+    }
+
+    // The discussed load always stays among the pitched ones
+    if (update.pitched_load_ids !== undefined) {
+      await runQuery('DELETE FROM CALL_LOADS WHERE call_id = ?', [id]);
+      const pitched = new Set(update.pitched_load_ids);
+      if (stored.load_id !== null) {
+        pitched.add(stored.load_id);
+      }
+      for (const load_id of pitched) {
+        await runQuery('INSERT OR IGNORE INTO CALL_LOADS (call_id, load_id) VALUES (?, ?)', [id, load_id]);
+      }
+    }
+
+    const call = (await getCall(id)) as CallDetail;
+    publishEvent({
+      type: 'call.updated',
+      data: {
+        id: call.id,
+        duration: call.duration,
+        mc_number: call.mc_number,
+        final_offer: call.final_offer,
+        final_counter_offer: call.final_counter_offer,
+        offer_iterations: call.offer_iterations,
+        successful: call.successful,
+        sentiment: call.sentiment,
+        outcome: call.outcome,
+        negotiation_id: call.negotiation_id,
+        load_id: call.load_id,
+        created_at: call.created_at
+      }
+    });
+    return call;
+  });
+}
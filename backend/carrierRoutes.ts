@@ -0,0 +1,182 @@
+import express, { Request, Response } from 'express';
+import {
+  getCarrier, listCarriers, upsertCarrier, importCarriers, deleteCarrier, validateCarrierInput,
+  checkCarrierEligibility
+} from './carriers';
+import { parseCsv } from './csv';
+import { validate, sendValidationError } from './validation';
+import { describeRoute } from './openapi';
+import {
+  carrierListQuerySchema, carrierParamsSchema, carrierBodySchema, carrierUpdateSchema, carrierEligibilitySchema,
+  CarrierListQuery, CarrierParams, CarrierBody
+} from './schemas';
+
+export const carrierRouter = express.Router();
+
+carrierRouter.get('/', describeRoute({
+  operationId: 'listCarriers',
+  summary: 'Search the carrier registry',
+  tag: 'Carriers',
+  responses: { 200: 'Matching carriers and the total count' }
+}), validate({ query: carrierListQuerySchema }), async (req: Request, res: Response) => {
+  try {
+    const { q, authority_status, limit, offset } = res.locals.query as CarrierListQuery;
+
+    res.json(await listCarriers({ q, authority_status, limit, offset }));
+  } catch (error) {
+    console.error('Error fetching carriers:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Imports an FMCSA-style snapshot: text/csv with census/L&I column names
+// (DOCKET_NUMBER, DOT_NUMBER, LEGAL_NAME, ...) or a JSON array of carriers
+carrierRouter.post('/import', describeRoute({
+  operationId: 'importCarriers',
+  summary: 'Import a carrier snapshot',
+  description: 'FMCSA column names (DOCKET_NUMBER, DOT_NUMBER, LEGAL_NAME, ...) or our own field names. do_not_use is never changed.',
+  tag: 'Carriers',
+  requestBody: { description: 'A text/csv snapshot, a JSON array of carriers or { "carriers": [...] }', contentTypes: ['text/csv', 'application/json'] },
+  responses: {
+    201: 'Per-row results with created, updated and failed counts',
+    400: 'No valid rows; per-row errors are listed'
+  }
+}), express.text({ type: 'text/csv', limit: '20mb' }), async (req: Request, res: Response) => {
+  try {
+    let rows: unknown[];
+    if (req.is('text/csv')) {
+      rows = parseCsv(typeof req.body === 'string' ? req.body : '');
+    } else if (Array.isArray(req.body)) {
+      rows = req.body;
+    } else if (req.body && Array.isArray(req.body.carriers)) {
+      rows = req.body.carriers;
+    } else {
+      sendValidationError(res, [{ field: 'body', message: 'body must be a JSON array of carriers, { "carriers": [...] } or text/csv' }]);
+      return;
+    }
+
+    if (rows.length === 0) {
+      sendValidationError(res, [{ field: 'body', message: 'body has no carriers to import' }]);
+      return;
+    }
+
+    const results = await importCarriers(rows);
+    const imported = results.filter(r => r.status !== 'error').length;
+
+    res.status(imported > 0 ? 201 : 400).json({
+      created: results.filter(r => r.status === 'created').length,
+      updated: results.filter(r => r.status === 'updated').length,
+      failed: results.length - imported,
+      results
+    });
+  } catch (error) {
+    console.error('Error importing carriers:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+carrierRouter.get('/:mc_number', describeRoute({
+  operationId: 'getCarrier',
+  summary: 'Fetch a carrier',
+  tag: 'Carriers',
+  responses: { 200: 'The carrier', 404: 'Carrier not found' }
+}), validate({ params: carrierParamsSchema }), async (req: Request, res: Response) => {
+  try {
+    const { mc_number } = res.locals.params as CarrierParams;
+    const carrier = await getCarrier(mc_number);
+    if (!carrier) {
+      res.status(404).json({ error: 'Carrier not found' });
+      return;
+    }
+
+    res.json(carrier);
+  } catch (error) {
+    console.error('Error fetching carrier:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+carrierRouter.get('/:mc_number/eligibility', describeRoute({
+  operationId: 'getCarrierEligibility',
+  summary: 'Check whether a carrier may book loads',
+  tag: 'Carriers',
+  responses: {
+    200: { description: 'Eligibility with the reasons when ineligible', schema: carrierEligibilitySchema }
+  }
+}), validate({ params: carrierParamsSchema }), async (req: Request, res: Response) => {
+  try {
+    const { mc_number } = res.locals.params as CarrierParams;
+
+    res.json(await checkCarrierEligibility(mc_number));
+  } catch (error) {
+    console.error('Error checking carrier eligibility:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+carrierRouter.put('/:mc_number', describeRoute({
+  operationId: 'putCarrier',
+  summary: 'Create or replace a carrier',
+  tag: 'Carriers',
+  responses: { 200: 'The updated carrier', 201: 'The created carrier' }
+}), validate({ params: carrierParamsSchema, body: carrierBodySchema }), async (req: Request, res: Response) => {
+  try {
+    const { mc_number } = res.locals.params as CarrierParams;
+
+    const result = await upsertCarrier({ ...res.locals.body as CarrierBody, mc_number });
+    res.status(result.created ? 201 : 200).json(result.carrier);
+  } catch (error) {
+    console.error('Error saving carrier:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+carrierRouter.patch('/:mc_number', describeRoute({
+  operationId: 'updateCarrier',
+  summary: 'Update some fields of a carrier',
+  tag: 'Carriers',
+  description: 'Fields not given keep their values; null clears dot_number or insurance_expiry.',
+  requestBody: { description: 'Any carrier fields, e.g. { "do_not_use": true }', contentTypes: ['application/json'], schema: carrierUpdateSchema },
+  responses: { 200: 'The updated carrier', 404: 'Carrier not found' }
+}), validate({ params: carrierParamsSchema }), async (req: Request, res: Response) => {
+  try {
+    const { mc_number } = res.locals.params as CarrierParams;
+    const existing = await getCarrier(mc_number);
+    if (!existing) {
+      res.status(404).json({ error: 'Carrier not found' });
+      return;
+    }
+
+    const { carrier, errors } = validateCarrierInput(Array.isArray(req.body) ? req.body : { ...req.body, mc_number }, existing);
+    if (!carrier) {
+      sendValidationError(res, errors);
+      return;
+    }
+
+    const result = await upsertCarrier(carrier);
+    res.json(result.carrier);
+  } catch (error) {
+    console.error('Error updating carrier:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+carrierRouter.delete('/:mc_number', describeRoute({
+  operationId: 'deleteCarrier',
+  summary: 'Remove a carrier',
+  tag: 'Carriers',
+  responses: { 200: 'Carrier deleted', 404: 'Carrier not found' }
+}), validate({ params: carrierParamsSchema }), async (req: Request, res: Response) => {
+  try {
+    const { mc_number } = res.locals.params as CarrierParams;
+    if (!await deleteCarrier(mc_number)) {
+      res.status(404).json({ error: 'Carrier not found' });
+      return;
+    }
+
+    res.json({ message: 'Carrier deleted successfully', mc_number });
+  } catch (error) {
+    console.error('Error deleting carrier:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
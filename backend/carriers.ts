@@ -0,0 +1,228 @@
+import type { Response } from 'express';
+import { runQuery, getQuery, allQuery, withTransaction } from './database';
+import { FieldError } from './loadValidation';
+import { parseInput } from './validation';
+import { carrierInputSchema, parseMcNumber, AuthorityStatus } from './schemas';
+
+export interface Carrier {
+  mc_number: number;
+  dot_number: number | null;
+  company_name: string;
+  authority_status: AuthorityStatus;
+  // YYYY-MM-DD, null when no insurance is on file
+  insurance_expiry: string | null;
+  equipment: string[];
+  // Internal block list, never overwritten by snapshot imports
+  do_not_use: boolean;
+  updated_at?: string;
+}
+
+export type CarrierInput = Omit<Carrier, 'updated_at'>;
+
+export type EligibilityStatus = 'eligible' | 'ineligible' | 'unknown';
+
+export interface CarrierEligibility {
+  mc_number: number;
+  status: EligibilityStatus;
+  reasons: string[];
+  company_name: string | null;
+}
+
+interface CarrierRow extends Omit<Carrier, 'equipment' | 'do_not_use'> {
+  equipment: string | null;
+  do_not_use: number;
+}
+
+function fromRow(row: CarrierRow): Carrier {
+  return {
+    ...row,
+    equipment: row.equipment ? JSON.parse(row.equipment) : [],
+    do_not_use: row.do_not_use === 1
+  };
+}
+
+// Column names used by FMCSA census / licensing & insurance extracts, mapped
+// to our fields. Matching is case-insensitive. do_not_use is left out on
+// purpose: only PUT and PATCH may set it, whatever a vendor file holds.
+const SNAPSHOT_COLUMNS: Record<string, keyof CarrierInput> = {
+  mc_number: 'mc_number', docket_number: 'mc_number', mc: 'mc_number',
+  dot_number: 'dot_number', usdot_number: 'dot_number', dot: 'dot_number',
+  company_name: 'company_name', legal_name: 'company_name', name: 'company_name',
+  authority_status: 'authority_status', common_authority_status: 'authority_status', operating_status: 'authority_status',
+  insurance_expiry: 'insurance_expiry', insurance_expiration_date: 'insurance_expiry', bipd_expiration: 'insurance_expiry',
+  equipment: 'equipment', equipment_types: 'equipment'
+};
+
+export function mapSnapshotRow(row: Record<string, unknown>): Record<string, unknown> {
+  const mapped: Record<string, unknown> = {};
+  for (const [column, value] of Object.entries(row)) {
+    const field = SNAPSHOT_COLUMNS[column.trim().toLowerCase()];
+    if (field && mapped[field] === undefined) {
+      mapped[field] = value;
+    }
+  }
+  return mapped;
+}
+
+/**
+ * Validates a carrier record. With `existing`, fields missing from the input
+ * keep their current values; null clears a nullable field.
+ */
+export function validateCarrierInput(input: unknown, existing?: CarrierInput): { carrier: CarrierInput | null; errors: FieldError[] } {
+  let merged = input;
+  if (existing && typeof input === 'object' && input !== null && !Array.isArray(input)) {
+    const raw = input as Record<string, unknown>;
+    merged = Object.fromEntries((Object.keys(carrierInputSchema.shape) as Array<keyof CarrierInput>)
+      .map(field => [field, raw[field] === undefined ? existing[field] : raw[field]]));
+  }
+
+  const { data, errors } = parseInput(carrierInputSchema, merged);
+  return { carrier: data, errors };
+}
+
+export async function getCarrier(mc_number: number): Promise<Carrier | null> {
+  const row = await getQuery<CarrierRow>('SELECT * FROM CARRIERS WHERE mc_number = ?', [mc_number]);
+  return row ? fromRow(row) : null;
+}
+
+export async function listCarriers(filters: { q?: string; authority_status?: AuthorityStatus; limit?: number; offset?: number } = {}): Promise<{ carriers: Carrier[]; total: number }> {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (filters.q) {
+    conditions.push('(LOWER(company_name) LIKE ? OR CAST(mc_number AS TEXT) = ? OR CAST(dot_number AS TEXT) = ?)');
+    params.push(`%${filters.q.toLowerCase()}%`, filters.q, filters.q);
+  }
+  if (filters.authority_status) {
+    conditions.push('authority_status = ?');
+    params.push(filters.authority_status);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const count = await getQuery<{ total: number }>(`SELECT COUNT(*) as total FROM CARRIERS ${where}`, params);
+  const rows = await allQuery<CarrierRow>(`
+    SELECT * FROM CARRIERS ${where}
+    ORDER BY mc_number
+    LIMIT ? OFFSET ?
+  `, [...params, filters.limit || 50, filters.offset || 0]);
+
+  return { carriers: rows.map(fromRow), total: count?.total || 0 };
+}
+
+async function writeCarrier(carrier: CarrierInput): Promise<boolean> {
+  const existing = await getQuery('SELECT 1 FROM CARRIERS WHERE mc_number = ?', [carrier.mc_number]);
+  await runQuery(`
+    INSERT INTO CARRIERS (
+      mc_number, dot_number, company_name, authority_status, insurance_expiry, equipment, do_not_use, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT (mc_number) DO UPDATE SET
+      dot_number = excluded.dot_number,
+      company_name = excluded.company_name,
+      authority_status = excluded.authority_status,
+      insurance_expiry = excluded.insurance_expiry,
+      equipment = excluded.equipment,
+      do_not_use = excluded.do_not_use,
+      updated_at = CURRENT_TIMESTAMP
+  `, [
+    carrier.mc_number,
+    carrier.dot_number,
+    carrier.company_name,
+    carrier.authority_status,
+    carrier.insurance_expiry,
+    JSON.stringify(carrier.equipment),
+    carrier.do_not_use ? 1 : 0
+  ]);
+  return existing === null;
+}
+
+export async function upsertCarrier(carrier: CarrierInput): Promise<{ carrier: Carrier; created: boolean }> {
+  const created = await writeCarrier(carrier);
+  return { carrier: (await getCarrier(carrier.mc_number)) as Carrier, created };
+}
+
+// Snapshot rows are validated on top of the stored record so fields the
+// snapshot does not carry (such as do_not_use) are kept
+export async function importCarriers(rows: unknown[]): Promise<Array<{ row: number; mc_number?: number; status: 'created' | 'updated' | 'error'; errors?: FieldError[] }>> {
+  return withTransaction(async () => {
+    const results: Array<{ row: number; mc_number?: number; status: 'created' | 'updated' | 'error'; errors?: FieldError[] }> = [];
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows[i];
+      if (typeof row !== 'object' || row === null || Array.isArray(row)) {
+        results.push({ row: i + 1, status: 'error', errors: parseInput(carrierInputSchema, row, 'row').errors });
+        continue;
+      }
+      const mapped = mapSnapshotRow(row as Record<string, unknown>);
+      const mc_number = parseMcNumber(mapped.mc_number);
+      const existing = mc_number !== null ? await getCarrier(mc_number) : null;
+      const { carrier, errors } = validateCarrierInput(mapped, existing || undefined);
+      if (!carrier) {
+        results.push({ row: i + 1, status: 'error', errors });
+        continue;
+      }
+      const created = await writeCarrier(carrier);
+      results.push({ row: i + 1, mc_number: carrier.mc_number, status: created ? 'created' : 'updated' });
+    }
+    return results;
+  });
+}
+
+export async function deleteCarrier(mc_number: number): Promise<boolean> {
+  const result = await runQuery('DELETE FROM CARRIERS WHERE mc_number = ?', [mc_number]);
+  return result.changes > 0;
+}
+
+/**
+ * Whether a carrier may be offered loads. Inactive authority, the internal
+ * do-not-use flag and missing or expired insurance make a carrier ineligible.
+ * Carriers missing from the registry are reported as unknown and let through.
+ */
+export function evaluateEligibility(mc_number: number, carrier: Carrier | null, today = new Date().toISOString().slice(0, 10)): CarrierEligibility {
+  if (!carrier) {
+    return { mc_number, status: 'unknown', reasons: ['not_in_registry'], company_name: null };
+  }
+
+  const reasons: string[] = [];
+  if (carrier.authority_status !== 'active') {
+    reasons.push(`authority_${carrier.authority_status}`);
+  }
+  if (carrier.do_not_use) {
+    reasons.push('do_not_use');
+  }
+  if (!carrier.insurance_expiry) {
+    reasons.push('insurance_missing');
+  } else if (carrier.insurance_expiry < today) {
+    reasons.push('insurance_expired');
+  }
+
+  return {
+    mc_number,
+    status: reasons.length > 0 ? 'ineligible' : 'eligible',
+    reasons,
+    company_name: carrier.company_name
+  };
+}
+
+export async function checkCarrierEligibility(mc_number: number): Promise<CarrierEligibility> {
+  return evaluateEligibility(mc_number, await getCarrier(mc_number));
+}
+
+/**
+ * Checks the optional mc_number parameter of load search and negotiation
+ * requests, already parsed by their schemas. Responds 403 for an ineligible
+ * carrier and returns undefined, meaning the handler must stop. Otherwise
+ * returns the eligibility (null when no mc_number was sent) so it can be
+ * echoed back, which flags carriers missing from the registry.
+ */
+export async function enforceCarrierEligibility(mc_number: number | undefined, res: Response): Promise<CarrierEligibility | null | undefined> {
+  if (mc_number === undefined) {
+    return null;
+  }
+
+  const eligibility = await checkCarrierEligibility(mc_number);
+  if (eligibility.status === 'ineligible') {
+    res.status(403).json({ error: 'Carrier is not eligible to book loads', carrier: eligibility });
+    return undefined;
+  }
+
+  return eligibility;
+}
@@ -0,0 +1,137 @@
+// Spoken and shorthand names carriers use on the phone, mapped to the
+// canonical city name stored in LOADS.origin / LOADS.destination.
+const CITY_ALIASES: Record<string, string> = {
+  'la': 'los angeles',
+  'l.a.': 'los angeles',
+  'lax': 'los angeles',
+  'nyc': 'new york',
+  'new york city': 'new york',
+  'ny': 'new york',
+  'chi': 'chicago',
+  'chi-town': 'chicago',
+  'chitown': 'chicago',
+  'sf': 'san francisco',
+  'frisco': 'san francisco',
+  'philly': 'philadelphia',
+  'atl': 'atlanta',
+  'dfw': 'dallas',
+  'big d': 'dallas',
+  'vegas': 'las vegas',
+  'nola': 'new orleans',
+  'slc': 'salt lake city',
+  'kc': 'kansas city',
+  'okc': 'oklahoma city',
+  'dc': 'washington',
+  'jax': 'jacksonville',
+  'mia': 'miami',
+  'htown': 'houston',
+  'h-town': 'houston',
+  'nash': 'nashville',
+  'indy': 'indianapolis',
+  'stl': 'st. louis',
+  'saint louis': 'st. louis',
+  'st louis': 'st. louis',
+  'san fran': 'san francisco',
+  'motor city': 'detroit',
+  'the twin cities': 'minneapolis',
+  'twin cities': 'minneapolis',
+  'phx': 'phoenix',
+  'sea': 'seattle',
+  'pdx': 'portland',
+  'den': 'denver'
+};
+
+const STATE_NAMES: Record<string, string> = {
+  alabama: 'AL', alaska: 'AK', arizona: 'AZ', arkansas: 'AR', california: 'CA',
+  colorado: 'CO', connecticut: 'CT', delaware: 'DE', florida: 'FL', georgia: 'GA',
+  hawaii: 'HI', idaho: 'ID', illinois: 'IL', indiana: 'IN', iowa: 'IA',
+  kansas: 'KS', kentucky: 'KY', louisiana: 'LA', maine: 'ME', maryland: 'MD',
+  massachusetts: 'MA', michigan: 'MI', minnesota: 'MN', mississippi: 'MS', missouri: 'MO',
+  montana: 'MT', nebraska: 'NE', nevada: 'NV', 'new hampshire': 'NH', 'new jersey': 'NJ',
+  'new mexico': 'NM', 'new york': 'NY', 'north carolina': 'NC', 'north dakota': 'ND', ohio: 'OH',
+  oklahoma: 'OK', oregon: 'OR', pennsylvania: 'PA', 'rhode island': 'RI', 'south carolina': 'SC',
+  'south dakota': 'SD', tennessee: 'TN', texas: 'TX', utah: 'UT', vermont: 'VT',
+  virginia: 'VA', washington: 'WA', 'west virginia': 'WV', wisconsin: 'WI', wyoming: 'WY'
+};
+
+const STATE_CODES = new Set(Object.values(STATE_NAMES).map(code => code.toLowerCase()));
+
+const EQUIPMENT_ALIASES: Record<string, string> = {
+  'reefer': 'refrigerated',
+  'van': 'dry van',
+  'dry': 'dry van',
+  'flat': 'flatbed',
+  'flatbed trailer': 'flatbed',
+  'step deck': 'stepdeck',
+  'drop deck': 'stepdeck'
+};
+
+// Filler words around the city name: "near Chicago", "around the LA area"
+const LEADING_FILLER = /^(?:(?:near|around|outside(?: of)?|close to|by|in|the)\s+)+/;
+const TRAILING_FILLER = /\s+(?:area|metro|region|vicinity)$/;
+
+export interface CityQuery {
+  city: string;
+  state: string | null;
+}
+
+/**
+ * Parses free-text input such as "Los Angeles, CA", "near chicago" or "LA"
+ * into a lower-cased canonical city name and an optional state code.
+ */
+export function parseCityQuery(input: string): CityQuery {
+  let text = input.toLowerCase().replace(/\s+/g, ' ').trim();
+  text = text.replace(LEADING_FILLER, '').replace(TRAILING_FILLER, '').trim();
+
+  let state: string | null = null;
+
+  // "Dallas, TX" / "Dallas, Texas"
+  const comma = text.lastIndexOf(',');
+  if (comma !== -1) {
+    const candidate = text.slice(comma + 1).trim();
+    const code = STATE_NAMES[candidate] || (STATE_CODES.has(candidate) ? candidate.toUpperCase() : null);
+    if (code) {
+      state = code;
+      text = text.slice(0, comma).trim();
+    }
+  } else {
+    // "Dallas TX" - only strip a trailing two-letter state code, never a bare
+    // city such as "la" that happens to be a state code as well
+    const parts = text.split(' ');
+    const last = parts[parts.length - 1];
+    if (parts.length > 1 && last.length === 2 && STATE_CODES.has(last)) {
+      state = last.toUpperCase();
+      text = parts.slice(0, -1).join(' ');
+    }
+  }
+
+  return { city: CITY_ALIASES[text] || text, state };
+}
+
+// Terms to match against stored city text: the canonical name plus a
+// variant without periods, so "st. louis" also matches "St Louis".
+export function cityMatchTerms(input: string): string[] {
+  const { city } = parseCityQuery(input);
+  const terms = new Set<string>();
+  if (city) {
+    terms.add(city);
+    terms.add(city.replace(/\./g, ''));
+  }
+  return Array.from(terms).filter(term => term.length > 0);
+}
+
+// Endings of stored city text that name the state: "Portland, OR",
+// "Portland OR" or "Portland, Oregon"
+export function stateMatchSuffixes(state: string): string[] {
+  const names = Object.keys(STATE_NAMES).filter(name => STATE_NAMES[name] === state);
+  return [state.toLowerCase(), ...names].flatMap(name => [`, ${name}`, ` ${name}`]);
+}
+
+export function equipmentMatchTerms(input: string): string[] {
+  const text = input.toLowerCase().replace(/\s+/g, ' ').trim();
+  const terms = new Set<string>([text]);
+  if (EQUIPMENT_ALIASES[text]) {
+    terms.add(EQUIPMENT_ALIASES[text]);
+  }
+  return Array.from(terms).filter(term => term.length > 0);
+}
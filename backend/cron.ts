@@ -0,0 +1,82 @@
+import { localTime } from './timeBuckets';
+
+// Five-field cron expressions (minute, hour, day of month, month, day of
+// week), matched against the clock of a time zone. Fields take *, numbers,
+// ranges (1-5), lists (1,15) and steps (*/15, 8-18/2); 0 and 7 are Sunday.
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  // With both day fields restricted, either may match, as in cron
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+export class InvalidCronError extends Error {}
+
+const FIELD_BOUNDS: Array<[number, number]> = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+
+const FIELD_NAMES = ['minute', 'hour', 'day of month', 'month', 'day of week'];
+
+function parseField(field: string, index: number): Set<number> {
+  const [min, max] = FIELD_BOUNDS[index];
+  const values = new Set<number>();
+  const invalid = () => new InvalidCronError(`Invalid ${FIELD_NAMES[index]} field: ${field}`);
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw invalid();
+    }
+    const from = match[1] === '*' ? min : Number(match[2]);
+    // A step without a range, e.g. 5/15, runs to the end
+    const to = match[1] === '*' ? max : match[3] !== undefined ? Number(match[3]) : match[4] !== undefined ? max : from;
+    const step = match[4] !== undefined ? Number(match[4]) : 1;
+    if (from < min || to > max || from > to || step < 1) {
+      throw invalid();
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new InvalidCronError(`Expected 5 fields in "${expression}"`);
+  }
+  const [minutes, hours, days, months, weekdays] = fields.map(parseField);
+  if (weekdays.delete(7)) {
+    weekdays.add(0);
+  }
+  return {
+    expression,
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: fields[2] === '*',
+    anyWeekday: fields[4] === '*'
+  };
+}
+
+/** Whether the schedule fires in the minute of the instant, on the clock of tz. */
+export function cronMatches(schedule: CronSchedule, instant: Date, tz: string): boolean {
+  const time = localTime(instant, tz);
+  if (!schedule.minutes.has(time.minute) || !schedule.hours.has(time.hour) || !schedule.months.has(time.month)) {
+    return false;
+  }
+  const dayMatches = schedule.days.has(time.day);
+  const weekdayMatches = schedule.weekdays.has(time.weekday);
+  if (schedule.anyDay || schedule.anyWeekday) {
+    return dayMatches && weekdayMatches;
+  }
+  return dayMatches || weekdayMatches;
+}
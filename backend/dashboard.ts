@@ -0,0 +1,216 @@
+import { getQuery, allQuery } from './database';
+import { TimeRangeQuery } from './schemas';
+import { TimeBucket, TimeRange, previousTimeRange, timeBuckets, bucketsCte, toSqlTimestamp } from './timeBuckets';
+
+export interface DashboardMetrics {
+  totalCalls: number;
+  successRate: number;
+  avgDuration: number;
+  avgOfferIterations: number;
+  avgOfferDifference: number;
+}
+
+export interface MetricChange {
+  previous: number;
+  change: number;
+  // null when the previous period's value was 0
+  percentChange: number | null;
+}
+
+export interface DashboardData extends DashboardMetrics {
+  range: {
+    start: string;
+    end: string;
+    bucket: TimeBucket;
+    tz: string;
+  };
+  sentimentDistribution: {
+    positive: number;
+    negative: number;
+    neutral: number;
+  };
+  timeline: Array<{
+    label: string;
+    start: string;
+    end: string;
+    calls: number;
+    avgDuration: number;
+    avgOfferIterations: number;
+    avgOfferDifference: number;
+  }>;
+  // The same metrics over the period of the same length just before the range
+  comparison: { start: string; end: string } & Record<keyof DashboardMetrics, MetricChange>;
+  conversion: {
+    byLoad: Array<{
+      load_id: number;
+      origin: string;
+      destination: string;
+      calls: number;
+      booked: number;
+      conversionRate: number;
+    }>;
+    byLane: Array<{
+      origin: string;
+      destination: string;
+      calls: number;
+      booked: number;
+      conversionRate: number;
+    }>;
+  };
+}
+
+interface SummaryRow {
+  total: number;
+  successful_count: number | null;
+  avg_duration: number | null;
+  avg_offer_iterations: number | null;
+  avg_offer_difference: number | null;
+  positive: number | null;
+  negative: number | null;
+}
+
+function summarize(range: TimeRange): Promise<SummaryRow | null> {
+  return getQuery<SummaryRow>(`
+    SELECT
+      COUNT(*) as total,
+      SUM(CASE WHEN successful = 1 THEN 1 ELSE 0 END) as successful_count,
+      AVG(duration) as avg_duration,
+      AVG(offer_iterations) as avg_offer_iterations,
+      AVG(ABS(final_offer - final_counter_offer)) as avg_offer_difference,
+      SUM(CASE WHEN LOWER(sentiment) = 'positive' THEN 1 ELSE 0 END) as positive,
+      SUM(CASE WHEN LOWER(sentiment) = 'negative' THEN 1 ELSE 0 END) as negative
+    FROM CALLS
+    WHERE created_at >= ? AND created_at < ?
+  `, [toSqlTimestamp(range.start), toSqlTimestamp(range.end)]);
+}
+
+function toMetrics(row: SummaryRow | null): DashboardMetrics {
+  const totalCalls = row?.total || 0;
+  return {
+    totalCalls,
+    successRate: totalCalls > 0 ? ((row?.successful_count || 0) / totalCalls) * 100 : 0,
+    avgDuration: row?.avg_duration || 0,
+    avgOfferIterations: row?.avg_offer_iterations || 0,
+    avgOfferDifference: row?.avg_offer_difference || 0
+  };
+}
+
+function compare(current: number, previous: number): MetricChange {
+  return {
+    previous,
+    change: current - previous,
+    percentChange: previous !== 0 ? ((current - previous) / Math.abs(previous)) * 100 : null
+  };
+}
+
+/**
+ * Call metrics over the range, split into buckets in the query's timezone,
+ * with the change from the period of the same length before it.
+ */
+export async function getDashboardData({ range, bucket, tz }: TimeRangeQuery): Promise<DashboardData> {
+  const previousRange = previousTimeRange(range);
+  const rangeParams = [toSqlTimestamp(range.start), toSqlTimestamp(range.end)];
+
+  const summary = await summarize(range);
+  const metrics = toMetrics(summary);
+  const previousMetrics = toMetrics(await summarize(previousRange));
+
+  // Calls with a sentiment other than positive or negative count as neutral
+  const positive = summary?.positive || 0;
+  const negative = summary?.negative || 0;
+  const sentimentDistribution = { positive, negative, neutral: metrics.totalCalls - positive - negative };
+
+  // Every bucket is listed, so ones without calls come back as zeros
+  const buckets = timeBuckets(range, bucket, tz);
+  const cte = bucketsCte(buckets);
+  const bucketStats = await allQuery<{
+    idx: number;
+    calls: number;
+    avg_duration: number | null;
+    avg_offer_iterations: number | null;
+    avg_offer_difference: number | null;
+  }>(`
+    WITH ${cte.sql}
+    SELECT
+      b.idx,
+      COUNT(c.id) as calls,
+      AVG(c.duration) as avg_duration,
+      AVG(c.offer_iterations) as avg_offer_iterations,
+      AVG(ABS(c.final_offer - c.final_counter_offer)) as avg_offer_difference
+    FROM buckets b
+    LEFT JOIN CALLS c ON c.created_at >= b.bucket_start AND c.created_at < b.bucket_end
+    GROUP BY b.idx
+    ORDER BY b.idx
+  `, cte.params);
+
+  const timeline = buckets.map((entry, idx) => {
+    const stats = bucketStats.find(row => row.idx === idx);
+    return {
+      label: entry.label,
+      start: entry.start.toISOString(),
+      end: entry.end.toISOString(),
+      calls: stats?.calls || 0,
+      avgDuration: stats?.avg_duration || 0,
+      avgOfferIterations: stats?.avg_offer_iterations || 0,
+      avgOfferDifference: stats?.avg_offer_difference || 0
+    };
+  });
+
+  // Conversion per load and per lane: calls in the range that pitched the
+  // load vs calls that booked it
+  const loadConversion = await allQuery<{ load_id: number; origin: string; destination: string; calls: number; booked: number }>(`
+    SELECT
+      l.load_id,
+      l.origin,
+      l.destination,
+      COUNT(DISTINCT cl.call_id) as calls,
+      COUNT(DISTINCT CASE WHEN c.successful = 1 AND c.load_id = l.load_id THEN c.id END) as booked
+    FROM LOADS l
+    JOIN CALL_LOADS cl ON cl.load_id = l.load_id
+    JOIN CALLS c ON c.id = cl.call_id
+    WHERE c.created_at >= ? AND c.created_at < ?
+    GROUP BY l.load_id
+    ORDER BY calls DESC, l.load_id ASC
+    LIMIT 20
+  `, rangeParams);
+
+  const laneConversion = await allQuery<{ origin: string; destination: string; calls: number; booked: number }>(`
+    SELECT
+      MIN(l.origin) as origin,
+      MIN(l.destination) as destination,
+      COUNT(DISTINCT cl.call_id) as calls,
+      COUNT(DISTINCT CASE WHEN c.successful = 1 AND c.load_id = l.load_id THEN c.id END) as booked
+    FROM LOADS l
+    JOIN CALL_LOADS cl ON cl.load_id = l.load_id
+    JOIN CALLS c ON c.id = cl.call_id
+    WHERE c.created_at >= ? AND c.created_at < ?
+    GROUP BY LOWER(l.origin), LOWER(l.destination)
+    ORDER BY calls DESC
+    LIMIT 20
+  `, rangeParams);
+
+  const withRate = <T extends { calls: number; booked: number }>(row: T) => ({
+    ...row,
+    conversionRate: row.calls > 0 ? (row.booked / row.calls) * 100 : 0
+  });
+
+  return {
+    range: { start: range.start.toISOString(), end: range.end.toISOString(), bucket, tz },
+    ...metrics,
+    sentimentDistribution,
+    timeline,
+    comparison: {
+      start: previousRange.start.toISOString(),
+      end: previousRange.end.toISOString(),
+      totalCalls: compare(metrics.totalCalls, previousMetrics.totalCalls),
+      successRate: compare(metrics.successRate, previousMetrics.successRate),
+      avgDuration: compare(metrics.avgDuration, previousMetrics.avgDuration),
+      avgOfferIterations: compare(metrics.avgOfferIterations, previousMetrics.avgOfferIterations),
+      avgOfferDifference: compare(metrics.avgOfferDifference, previousMetrics.avgOfferDifference)
+    },
+    conversion: {
+      byLoad: loadConversion.map(withRate),
+      byLane: laneConversion.map(withRate)
+    }
+  };
+}
@@ -1,35 +1,19 @@
 import sqlite3 from 'sqlite3';
-import { promisify } from 'util';
+import { AsyncLocalStorage } from 'async_hooks';
+import { cityMatchTerms, equipmentMatchTerms, parseCityQuery, stateMatchSuffixes } from './cities';
+import { resolveLocation, haversineMiles, boundingBox, Coordinates } from './gazetteer';
+import {
+  Load, LoadSort, Call, LoadSearchResult, NearbyLoadsResult, TimeRangeQuery, RevenueDimension, RevenueSummary,
+  RevenueBreakdown, LoadExportQuery
+} from './schemas';
+import { LoadInput } from './loadValidation';
+import { LoadStatus, LoadStatusChange, LoadTransitionError, LoadHold, LoadHoldError, canTransition } from './loadStatus';
+import { timeBuckets, bucketsCte, toSqlTimestamp } from './timeBuckets';
+import { publishEvent, deferEvents, storePendingEvents } from './events';
 
 const dbPath = process.env.DATABASE_PATH || './loads.db';
 
-export interface Load {
-  load_id: number;
-  origin: string;
-  destination: string;
-  pickup_datetime: string;
-  delivery_datetime: string;
-  equipment_type: string;
-  loadboard_rate: number;
-  notes: string;
-  weight: number;
-  commodity_type: string;
-  num_of_pieces: number;
-  miles: number;
-  dimensions: string;
-  maximum_rate: number;
-}
-
-export interface Call {
-  id: string;
-  duration: number;
-  mc_number: number;
-  final_offer: number;
-  final_counter_offer: number;
-  offer_iterations: number;
-  successful: boolean;
-  sentiment: string;
-}
+export type LoadCoordinates = Pick<Load, 'origin_lat' | 'origin_lng' | 'destination_lat' | 'destination_lng'>;
 
 let db: sqlite3.Database | null = null;
 
@@ -42,63 +26,169 @@ export function getDatabase(): sqlite3.Database {
         console.log('Connected to SQLite database');
       }
     });
+    // The migrate CLI may write while the server is running
+    db.configure('busyTimeout', 5000);
   }
   return db;
 }
 
-export async function initializeDatabase(): Promise<void> {
+export interface RunResult {
+  lastID: number;
+  changes: number;
+}
+
+// All requests share a single connection, and a transaction on it would also
+// take in any statement another request runs while it is open (and commit or
+// roll it back with its own). Every statement therefore goes through one
+// queue: a transaction holds the queue from BEGIN to COMMIT, and the
+// statements it runs itself skip the queue.
+let connectionQueue: Promise<unknown> = Promise.resolve();
+const transactionScope = new AsyncLocalStorage<true>();
+
+function enqueue<T>(fn: () => Promise<T>): Promise<T> {
+  if (transactionScope.getStore()) {
+    return fn();
+  }
+  const result = connectionQueue.then(fn);
+  connectionQueue = result.catch(() => undefined);
+  return result;
+}
+
+export function runQuery(sql: string, params: any[] = []): Promise<RunResult> {
   const database = getDatabase();
-  const run = promisify(database.run.bind(database));
-  const get = promisify(database.get.bind(database));
-
-  // Create table
-  await run(`
-    CREATE TABLE IF NOT EXISTS LOADS (
-      load_id INTEGER PRIMARY KEY AUTOINCREMENT,
-      origin TEXT NOT NULL,
-      destination TEXT NOT NULL,
-      pickup_datetime TEXT NOT NULL,
-      delivery_datetime TEXT NOT NULL,
-      equipment_type TEXT NOT NULL,
-      loadboard_rate REAL NOT NULL,
-      notes TEXT,
-      weight REAL NOT NULL,
-      commodity_type TEXT NOT NULL,
-      num_of_pieces INTEGER NOT NULL,
-      miles INTEGER NOT NULL,
-      dimensions TEXT NOT NULL,
-      maximum_rate REAL NOT NULL,
-      CHECK (maximum_rate > loadboard_rate)
-    )
-  `);
+  return enqueue(() => new Promise((resolve, reject) => {
+    database.run(sql, params, function (this: sqlite3.RunResult, err: Error | null) {
+      if (err) {
+        reject(err);
+      } else {
+        resolve({ lastID: this.lastID, changes: this.changes });
+      }
+    });
+  }));
+}
 
-  // Create CALLS table
-  await run(`
-    CREATE TABLE IF NOT EXISTS CALLS (
-      id TEXT PRIMARY KEY,
-      duration INTEGER NOT NULL,
-      mc_number INTEGER NOT NULL,
-      final_offer INTEGER NOT NULL,
-      final_counter_offer INTEGER NOT NULL,
-      offer_iterations INTEGER NOT NULL,
-      successful INTEGER NOT NULL,
-      sentiment TEXT NOT NULL,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    )
-  `);
-  
-  // Add created_at column if it doesn't exist (for existing databases)
-  try {
-    await run(`ALTER TABLE CALLS ADD COLUMN created_at DATETIME DEFAULT CURRENT_TIMESTAMP`);
-  } catch (err) {
-    // Column already exists, ignore error
+// Runs several statements at once, e.g. a migration
+export function execQuery(sql: string): Promise<void> {
+  const database = getDatabase();
+  return enqueue(() => new Promise((resolve, reject) => {
+    database.exec(sql, (err) => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve();
+      }
+    });
+  }));
+}
+
+export function allQuery<T = any>(sql: string, params: any[] = []): Promise<T[]> {
+  const database = getDatabase();
+  return enqueue(() => new Promise((resolve, reject) => {
+    database.all(sql, params, (err, rows) => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve((rows || []) as T[]);
+      }
+    });
+  }));
+}
+
+export function getQuery<T = any>(sql: string, params: any[] = []): Promise<T | null> {
+  const database = getDatabase();
+  return enqueue(() => new Promise((resolve, reject) => {
+    database.get(sql, params, (err, row) => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve((row as T) || null);
+      }
+    });
+  }));
+}
+
+// SQLite reports UNIQUE violations through the error message
+export function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Error && error.message.includes('UNIQUE constraint failed');
+}
+
+// Events published inside the transaction are stored in the event outboxes as
+// part of it and go out only once it commits. A transaction started inside
+// another one joins it.
+export function withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+  if (transactionScope.getStore()) {
+    return fn();
   }
+  return enqueue(() => transactionScope.run(true, () => deferEvents(async () => {
+    await runQuery('BEGIN IMMEDIATE');
+    try {
+      const value = await fn();
+      await storePendingEvents();
+      await runQuery('COMMIT');
+      return value;
+    } catch (err) {
+      await runQuery('ROLLBACK');
+      throw err;
+    }
+  })));
+}
 
+// Seeds an empty database and fills in missing coordinates. The schema comes
+// from the migrations, which must have been applied first (see migrator.ts).
+export async function initializeDatabase(): Promise<void> {
   // Check if table is empty and seed data
-  const count = await get('SELECT COUNT(*) as count FROM LOADS');
-  if (count && (count as any).count === 0) {
-    await seedData(run);
+  const count = await getQuery<{ count: number }>('SELECT COUNT(*) as count FROM LOADS');
+  if (count && count.count === 0) {
+    await seedData(runQuery);
   }
+
+  await geocodeMissingLoads();
+}
+
+export function geocodeLoad(load: Pick<Load, 'origin' | 'destination'>): LoadCoordinates {
+  const origin = resolveLocation(load.origin);
+  const destination = resolveLocation(load.destination);
+  return {
+    origin_lat: origin ? origin.lat : null,
+    origin_lng: origin ? origin.lng : null,
+    destination_lat: destination ? destination.lat : null,
+    destination_lng: destination ? destination.lng : null
+  };
+}
+
+// Fills in coordinates for loads stored before they were geocoded or whose
+// city has since been added to the gazetteer
+async function geocodeMissingLoads(): Promise<void> {
+  const rows = await allQuery<Pick<Load, 'load_id' | 'origin' | 'destination'>>(`
+    SELECT load_id, origin, destination FROM LOADS
+    WHERE origin_lat IS NULL OR destination_lat IS NULL
+  `);
+
+  let updated = 0;
+  for (const row of rows) {
+    const coordinates = geocodeLoad(row);
+    if (coordinates.origin_lat === null && coordinates.destination_lat === null) {
+      continue;
+    }
+    await runQuery(`
+      UPDATE LOADS SET origin_lat = ?, origin_lng = ?, destination_lat = ?, destination_lng = ?
+      WHERE load_id = ?
+    `, [coordinates.origin_lat, coordinates.origin_lng, coordinates.destination_lat, coordinates.destination_lng, row.load_id]);
+    updated++;
+  }
+
+  if (updated > 0) {
+    console.log(`Geocoded ${updated} load records`);
+  }
+}
+
+// 'YYYY-MM-DD HH:00:00' (UTC) a number of days from today, so seeded loads
+// are not expired as soon as they are created
+function daysFromNow(days: number, hour: number): string {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() + days);
+  date.setUTCHours(hour, 0, 0, 0);
+  return toSqlTimestamp(date);
 }
 
 async function seedData(run: (sql: string, params?: any[]) => Promise<any>): Promise<void> {
@@ -106,8 +196,8 @@ async function seedData(run: (sql: string, params?: any[]) => Promise<any>): Pro
     {
       origin: 'Los Angeles',
       destination: 'New York',
-      pickup_datetime: '2024-01-15 08:00:00',
-      delivery_datetime: '2024-01-18 17:00:00',
+      pickup_datetime: daysFromNow(3, 8),
+      delivery_datetime: daysFromNow(6, 17),
       equipment_type: 'Dry Van',
       loadboard_rate: 3500.00,
       notes: 'Fragile items, handle with care',
@@ -121,8 +211,8 @@ async function seedData(run: (sql: string, params?: any[]) => Promise<any>): Pro
     {
       origin: 'Chicago',
       destination: 'Houston',
-      pickup_datetime: '2024-01-16 10:00:00',
-      delivery_datetime: '2024-01-17 14:00:00',
+      pickup_datetime: daysFromNow(4, 10),
+      delivery_datetime: daysFromNow(5, 14),
       equipment_type: 'Flatbed',
       loadboard_rate: 2800.00,
       notes: 'Heavy machinery, requires special handling',
@@ -136,8 +226,8 @@ async function seedData(run: (sql: string, params?: any[]) => Promise<any>): Pro
     {
       origin: 'Miami',
       destination: 'Atlanta',
-      pickup_datetime: '2024-01-17 06:00:00',
-      delivery_datetime: '2024-01-18 12:00:00',
+      pickup_datetime: daysFromNow(5, 6),
+      delivery_datetime: daysFromNow(6, 12),
       equipment_type: 'Refrigerated',
       loadboard_rate: 2200.00,
       notes: 'Temperature controlled, maintain 38°F',
@@ -177,62 +267,609 @@ async function seedData(run: (sql: string, params?: any[]) => Promise<any>): Pro
   console.log('Database seeded with 3 load records');
 }
 
-export async function getLoads(origin?: string, destination?: string): Promise<Load[]> {
-  const database = getDatabase();
+export interface LoadSearchFilters {
+  origin?: string;
+  destination?: string;
+  equipment_type?: string;
+  pickup_from?: string;
+  pickup_to?: string;
+  min_weight?: number;
+  max_weight?: number;
+  min_miles?: number;
+  max_miles?: number;
+  sort?: LoadSort;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+}
+
+const LOAD_SORT_EXPRESSIONS: Record<LoadSort, string> = {
+  load_id: 'load_id',
+  rate_per_mile: 'ROUND(loadboard_rate * 1.0 / miles, 4)',
+  pickup_datetime: 'pickup_datetime',
+  loadboard_rate: 'loadboard_rate'
+};
+
+const DEFAULT_SORT_ORDER: Record<LoadSort, 'asc' | 'desc'> = {
+  load_id: 'asc',
+  rate_per_mile: 'desc',
+  pickup_datetime: 'asc',
+  loadboard_rate: 'desc'
+};
+
+// Loads are exported in pages of this many rows
+const EXPORT_BATCH_SIZE = 500;
+
+export class InvalidCursorError extends Error {}
+
+interface LoadCursor {
+  v: string | number;
+  id: number;
+}
+
+function encodeCursor(cursor: LoadCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(value: string): LoadCursor {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (parsed && (typeof parsed.v === 'string' || typeof parsed.v === 'number') && Number.isInteger(parsed.id)) {
+      return parsed;
+    }
+  } catch (err) {
+    // Fall through to the error below
+  }
+  throw new InvalidCursorError('Invalid cursor');
+}
+
+function escapeLike(term: string): string {
+  return term.replace(/[\\%_]/g, char => `\\${char}`);
+}
 
-  let query = 'SELECT * FROM LOADS WHERE 1=1';
-  const params: string[] = [];
+// Case-insensitive substring match of any of the terms against a column
+function likeAny(column: string, terms: string[], params: any[]): string {
+  terms.forEach(term => params.push(`%${escapeLike(term)}%`));
+  return `(${terms.map(() => `LOWER(${column}) LIKE ? ESCAPE '\\'`).join(' OR ')})`;
+}
 
-  if (origin) {
-    query += ' AND origin = ?';
-    params.push(origin);
+/**
+ * Matches a city against the origin or destination. With a state, as in
+ * "Portland, OR", the load must also be in that state: its text names the
+ * state, or it was geocoded to that city (a stored "Portland" resolves to the
+ * larger market, just as the query without a state would).
+ */
+function cityCondition(column: 'origin' | 'destination', input: string, params: any[]): string | null {
+  const terms = cityMatchTerms(input);
+  if (terms.length === 0) {
+    return null;
+  }
+  const city = likeAny(column, terms, params);
+  const { state } = parseCityQuery(input);
+  if (!state) {
+    return city;
   }
 
-  if (destination) {
-    query += ' AND destination = ?';
-    params.push(destination);
+  const suffixes = stateMatchSuffixes(state);
+  suffixes.forEach(suffix => params.push(`%${escapeLike(suffix)}`));
+  const inState = suffixes.map(() => `LOWER(TRIM(${column})) LIKE ? ESCAPE '\\'`);
+  const place = resolveLocation(input);
+  if (place) {
+    inState.push(`(${column}_lat = ? AND ${column}_lng = ?)`);
+    params.push(place.lat, place.lng);
   }
+  return `(${city} AND (${inState.join(' OR ')}))`;
+}
 
-  query += ' ORDER BY load_id';
+// Loads that are held, booked or past their pickup are never offered, so
+// only exports look at other statuses
+function buildLoadConditions(
+  filters: LoadSearchFilters,
+  statuses: LoadStatus[] = ['available']
+): { conditions: string[]; params: any[] } {
+  const conditions: string[] = [`status IN (${statuses.map(() => '?').join(', ')})`];
+  const params: any[] = [...statuses];
 
-  const rows = await new Promise<any[]>((resolve, reject) => {
-    database.all(query, params, (err, rows) => {
-      if (err) {
-        reject(err);
+  for (const column of ['origin', 'destination'] as const) {
+    const condition = filters[column] ? cityCondition(column, filters[column] as string, params) : null;
+    if (condition) {
+      conditions.push(condition);
+    }
+  }
+
+  if (filters.equipment_type) {
+    conditions.push(likeAny('equipment_type', equipmentMatchTerms(filters.equipment_type), params));
+  }
+
+  if (filters.pickup_from) {
+    conditions.push('pickup_datetime >= ?');
+    params.push(filters.pickup_from);
+  }
+
+  if (filters.pickup_to) {
+    conditions.push('pickup_datetime <= ?');
+    params.push(filters.pickup_to);
+  }
+
+  if (filters.min_weight !== undefined) {
+    conditions.push('weight >= ?');
+    params.push(filters.min_weight);
+  }
+
+  if (filters.max_weight !== undefined) {
+    conditions.push('weight <= ?');
+    params.push(filters.max_weight);
+  }
+
+  if (filters.min_miles !== undefined) {
+    conditions.push('miles >= ?');
+    params.push(filters.min_miles);
+  }
+
+  if (filters.max_miles !== undefined) {
+    conditions.push('miles <= ?');
+    params.push(filters.max_miles);
+  }
+
+  return { conditions, params };
+}
+
+export async function getLoads(filters: LoadSearchFilters = {}): Promise<LoadSearchResult> {
+  const { conditions, params } = buildLoadConditions(filters);
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const count = await getQuery<{ total: number }>(`SELECT COUNT(*) as total FROM LOADS ${where}`, params);
+
+  const sort = filters.sort || 'load_id';
+  const order = filters.order || DEFAULT_SORT_ORDER[sort];
+  const sortExpression = LOAD_SORT_EXPRESSIONS[sort];
+  const comparator = order === 'asc' ? '>' : '<';
+
+  // Keyset pagination on (sort value, load_id) so pages stay stable while
+  // loads are being added
+  const pageConditions = [...conditions];
+  const pageParams = [...params];
+  if (filters.cursor) {
+    const cursor = decodeCursor(filters.cursor);
+    if (sort === 'load_id') {
+      pageConditions.push(`load_id ${comparator} ?`);
+      pageParams.push(cursor.id);
+    } else {
+      pageConditions.push(`(${sortExpression} ${comparator} ? OR (${sortExpression} = ? AND load_id > ?))`);
+      pageParams.push(cursor.v, cursor.v, cursor.id);
+    }
+  }
+
+  const limit = filters.limit || 20;
+  const pageWhere = pageConditions.length > 0 ? `WHERE ${pageConditions.join(' AND ')}` : '';
+  const tiebreak = sort === 'load_id' ? '' : ', load_id ASC';
+
+  const rows = await allQuery<Load & { rate_per_mile: number; sort_value: string | number }>(`
+    SELECT *, ROUND(loadboard_rate * 1.0 / miles, 4) as rate_per_mile, ${sortExpression} as sort_value
+    FROM LOADS
+    ${pageWhere}
+    ORDER BY ${sortExpression} ${order.toUpperCase()}${tiebreak}
+    LIMIT ?
+  `, [...pageParams, limit + 1]);
+
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return {
+    loads: page.map(({ sort_value, ...load }) => load),
+    total: count?.total || 0,
+    next_cursor: hasMore && last ? encodeCursor({ v: last.sort_value, id: last.load_id }) : null
+  };
+}
+
+/**
+ * Every load matching the filters, with its rate_per_mile, by load_id and
+ * read a page at a time. Only available loads unless statuses are given.
+ */
+export async function* exportLoads({ status, ...filters }: Omit<LoadExportQuery, 'format'>): AsyncGenerator<Load & { rate_per_mile: number }> {
+  const { conditions, params } = buildLoadConditions(filters, status && status.length > 0 ? status : undefined);
+  let lastId = 0;
+  for (;;) {
+    const rows = await allQuery<Load & { rate_per_mile: number }>(`
+      SELECT *, ROUND(loadboard_rate * 1.0 / miles, 4) as rate_per_mile
+      FROM LOADS
+      WHERE ${[...conditions, 'load_id > ?'].join(' AND ')}
+      ORDER BY load_id
+      LIMIT ?
+    `, [...params, lastId, EXPORT_BATCH_SIZE]);
+    for (const row of rows) {
+      yield row;
+    }
+    if (rows.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+    lastId = rows[rows.length - 1].load_id;
+  }
+}
+
+/**
+ * Loads picking up within `radiusMiles` of a point, closest first. Candidates
+ * are narrowed with a bounding box in SQL and then filtered by haversine
+ * distance. Loads whose origin could not be geocoded are never returned.
+ */
+export async function getNearbyLoads(
+  point: Coordinates,
+  radiusMiles: number,
+  filters: LoadSearchFilters = {}
+): Promise<NearbyLoadsResult> {
+  const { conditions, params } = buildLoadConditions(filters);
+  const box = boundingBox(point, radiusMiles);
+
+  conditions.push('origin_lat BETWEEN ? AND ?', 'origin_lng BETWEEN ? AND ?');
+  params.push(box.minLat, box.maxLat, box.minLng, box.maxLng);
+
+  const rows = await allQuery<Load & { rate_per_mile: number }>(`
+    SELECT *, ROUND(loadboard_rate * 1.0 / miles, 4) as rate_per_mile
+    FROM LOADS
+    WHERE ${conditions.join(' AND ')}
+  `, params);
+
+  const matches = rows
+    .map(load => ({
+      ...load,
+      deadhead_miles: Math.round(haversineMiles(point, { lat: load.origin_lat as number, lng: load.origin_lng as number }) * 10) / 10
+    }))
+    .filter(load => load.deadhead_miles <= radiusMiles)
+    .sort((a, b) => a.deadhead_miles - b.deadhead_miles || a.load_id - b.load_id);
+
+  return {
+    loads: matches.slice(0, filters.limit || 20),
+    total: matches.length
+  };
+}
+
+export function getLoadById(load_id: number): Promise<Load | null> {
+  return getQuery<Load>('SELECT * FROM LOADS WHERE load_id = ?', [load_id]);
+}
+
+const LOAD_COLUMNS: Array<keyof LoadInput> = [
+  'origin', 'destination', 'pickup_datetime', 'delivery_datetime',
+  'equipment_type', 'loadboard_rate', 'notes', 'weight', 'commodity_type',
+  'num_of_pieces', 'miles', 'dimensions', 'maximum_rate'
+];
+
+const COORDINATE_COLUMNS: Array<keyof LoadCoordinates> = [
+  'origin_lat', 'origin_lng', 'destination_lat', 'destination_lng'
+];
+
+export async function createLoad(load: LoadInput, load_id?: number): Promise<Load> {
+  const coordinates = geocodeLoad(load);
+  const allColumns = [...LOAD_COLUMNS, ...COORDINATE_COLUMNS];
+  const columns = load_id !== undefined ? ['load_id', ...allColumns] : allColumns;
+  const values = [
+    ...LOAD_COLUMNS.map(column => load[column]),
+    ...COORDINATE_COLUMNS.map(column => coordinates[column])
+  ];
+
+  const result = await runQuery(`
+    INSERT INTO LOADS (${columns.join(', ')})
+    VALUES (${columns.map(() => '?').join(', ')})
+  `, load_id !== undefined ? [load_id, ...values] : values);
+
+  return (await getLoadById(load_id ?? result.lastID)) as Load;
+}
+
+// A load promised to a carrier cannot be edited or removed until the hold is
+// released or the booking is cancelled
+async function assertLoadUnreserved(load: Load): Promise<void> {
+  if (load.status === 'pending' || load.status === 'booked') {
+    throw new LoadHoldError(`Load is ${load.status}; release the hold or cancel the booking first`);
+  }
+  if (await getActiveHold(load.load_id)) {
+    throw new LoadHoldError('Load is held by a call; release the hold first');
+  }
+}
+
+/**
+ * Replaces a load's fields. Returns null when it does not exist and throws
+ * LoadHoldError when it is held or booked.
+ */
+export async function updateLoad(load_id: number, load: LoadInput): Promise<Load | null> {
+  return withTransaction(async () => {
+    const existing = await getLoadById(load_id);
+    if (!existing) {
+      return null;
+    }
+    await assertLoadUnreserved(existing);
+
+    const coordinates = geocodeLoad(load);
+    const allColumns = [...LOAD_COLUMNS, ...COORDINATE_COLUMNS];
+    await runQuery(`
+      UPDATE LOADS SET ${allColumns.map(column => `${column} = ?`).join(', ')}
+      WHERE load_id = ?
+    `, [
+      ...LOAD_COLUMNS.map(column => load[column]),
+      ...COORDINATE_COLUMNS.map(column => coordinates[column]),
+      load_id
+    ]);
+
+    return getLoadById(load_id);
+  });
+}
+
+// Whether calls, negotiations or holds refer to the load
+async function isLoadReferenced(load_id: number): Promise<boolean> {
+  const row = await getQuery(`
+    SELECT 1 WHERE EXISTS (SELECT 1 FROM CALLS WHERE load_id = ?)
+      OR EXISTS (SELECT 1 FROM CALL_LOADS WHERE load_id = ?)
+      OR EXISTS (SELECT 1 FROM NEGOTIATIONS WHERE load_id = ?)
+      OR EXISTS (SELECT 1 FROM LOAD_HOLDS WHERE load_id = ?)
+  `, [load_id, load_id, load_id, load_id]);
+  return row !== null;
+}
+
+export type LoadRemoval = { deleted: true } | { deleted: false; load: Load };
+
+/**
+ * Deletes an available or cancelled load that nothing refers to, together
+ * with its status history. Any other load is cancelled instead, so calls and
+ * bookings keep their load. Returns null when the load does not exist; throws
+ * LoadHoldError when it is held or booked and LoadTransitionError when it can
+ * no longer be cancelled.
+ */
+export async function deleteLoad(load_id: number): Promise<LoadRemoval | null> {
+  return withTransaction(async () => {
+    const load = await getLoadById(load_id);
+    if (!load) {
+      return null;
+    }
+    await assertLoadUnreserved(load);
+
+    if ((load.status === 'available' || load.status === 'cancelled') && !await isLoadReferenced(load_id)) {
+      await runQuery('DELETE FROM LOAD_STATUS_HISTORY WHERE load_id = ?', [load_id]);
+      await runQuery(`DELETE FROM STRATEGY_ASSIGNMENTS WHERE scope = 'load' AND scope_value = ?`, [String(load_id)]);
+      await runQuery('DELETE FROM LOADS WHERE load_id = ?', [load_id]);
+      return { deleted: true };
+    }
+
+    if (load.status === 'cancelled') {
+      return { deleted: false, load };
+    }
+    return { deleted: false, load: await applyLoadTransition(load_id, 'cancelled', 'deleted') };
+  });
+}
+
+export interface LoadUpsert {
+  load_id?: number;
+  load: LoadInput;
+}
+
+// Rows with a load_id that already exists are updated, everything else is
+// inserted. Runs in a single transaction so a failing row leaves no partial import.
+export async function upsertLoads(rows: LoadUpsert[]): Promise<Array<{ load_id: number; created: boolean }>> {
+  return withTransaction(async () => {
+    const results: Array<{ load_id: number; created: boolean }> = [];
+    for (const row of rows) {
+      if (row.load_id !== undefined && await updateLoad(row.load_id, row.load)) {
+        results.push({ load_id: row.load_id, created: false });
       } else {
-        resolve(rows || []);
+        const created = await createLoad(row.load, row.load_id);
+        results.push({ load_id: created.load_id, created: true });
       }
-    });
+    }
+    return results;
   });
+}
 
-  return rows as Load[];
+// Returns the ids that do not match any load
+export async function findMissingLoadIds(load_ids: number[]): Promise<number[]> {
+  if (load_ids.length === 0) {
+    return [];
+  }
+  const unique = Array.from(new Set(load_ids));
+  const rows = await allQuery<{ load_id: number }>(
+    `SELECT load_id FROM LOADS WHERE load_id IN (${unique.map(() => '?').join(', ')})`,
+    unique
+  );
+  const found = new Set(rows.map(row => row.load_id));
+  return unique.filter(load_id => !found.has(load_id));
 }
 
-export async function getLoadById(load_id: number): Promise<Load | null> {
-  const database = getDatabase();
+// Moves a load to a new status and records the change. Callers must already
+// be inside a transaction so the check and the update cannot interleave.
+async function applyLoadTransition(load_id: number, to: LoadStatus, reason: string | null): Promise<Load> {
+  const load = await getLoadById(load_id);
+  if (!load) {
+    throw new Error(`Load ${load_id} not found`);
+  }
+  if (!canTransition(load.status, to)) {
+    throw new LoadTransitionError(load.status, to);
+  }
+  if (to === 'available' && load.pickup_datetime <= utcNow()) {
+    throw new LoadTransitionError(load.status, to, 'Cannot make a load available after its pickup_datetime has passed');
+  }
 
-  const row = await new Promise<any>((resolve, reject) => {
-    database.get('SELECT * FROM LOADS WHERE load_id = ?', [load_id], (err, row) => {
-      if (err) {
-        reject(err);
-      } else {
-        resolve(row || null);
+  await runQuery('UPDATE LOADS SET status = ? WHERE load_id = ?', [to, load_id]);
+  await runQuery(`
+    INSERT INTO LOAD_STATUS_HISTORY (load_id, from_status, to_status, reason) VALUES (?, ?, ?, ?)
+  `, [load_id, load.status, to, reason]);
+  publishEvent({
+    type: 'load.status_changed',
+    data: { load_id, from_status: load.status, to_status: to, reason, changed_at: utcNow() }
+  });
+
+  // A load moved out of pending by hand is no longer held
+  if (load.status === 'pending') {
+    await runQuery(`
+      UPDATE LOAD_HOLDS SET status = 'released', ended_at = CURRENT_TIMESTAMP
+      WHERE load_id = ? AND status = 'active'
+    `, [load_id]);
+  }
+
+  return { ...load, status: to };
+}
+
+function utcNow(): string {
+  return toSqlTimestamp(new Date());
+}
+
+/**
+ * Moves a load through its lifecycle. Throws LoadTransitionError when the
+ * transition is not allowed from the load's current status.
+ */
+export async function transitionLoad(load_id: number, to: LoadStatus, reason?: string): Promise<Load> {
+  return withTransaction(() => applyLoadTransition(load_id, to, reason ?? null));
+}
+
+export async function getLoadStatusHistory(load_id: number): Promise<LoadStatusChange[]> {
+  return allQuery<LoadStatusChange>(`
+    SELECT * FROM LOAD_STATUS_HISTORY WHERE load_id = ? ORDER BY created_at ASC, id ASC
+  `, [load_id]);
+}
+
+// Expires loads that were never booked and whose pickup time has passed
+export async function expireLoads(): Promise<number> {
+  return withTransaction(async () => {
+    const rows = await allQuery<{ load_id: number }>(`
+      SELECT load_id FROM LOADS
+      WHERE status IN ('available', 'pending') AND pickup_datetime <= ?
+    `, [utcNow()]);
+
+    for (const row of rows) {
+      await applyLoadTransition(row.load_id, 'expired', 'pickup_datetime passed');
+    }
+    return rows.length;
+  });
+}
+
+function getActiveHold(load_id: number): Promise<LoadHold | null> {
+  return getQuery<LoadHold>(`SELECT * FROM LOAD_HOLDS WHERE load_id = ? AND status = 'active'`, [load_id]);
+}
+
+// Ends a hold and puts its load back on offer, or expires the load when its
+// pickup time passed while it was held
+async function endHold(hold: LoadHold, status: 'released' | 'expired', reason: string): Promise<void> {
+  await runQuery(`
+    UPDATE LOAD_HOLDS SET status = ?, ended_at = CURRENT_TIMESTAMP WHERE id = ?
+  `, [status, hold.id]);
+
+  const load = await getLoadById(hold.load_id);
+  if (load && load.status === 'pending') {
+    await applyLoadTransition(hold.load_id, load.pickup_datetime <= utcNow() ? 'expired' : 'available', reason);
+  }
+}
+
+// The active hold of a load, after releasing it if it has run out
+async function getLiveHold(load_id: number): Promise<LoadHold | null> {
+  const hold = await getActiveHold(load_id);
+  if (hold && hold.expires_at <= utcNow()) {
+    await endHold(hold, 'expired', `Hold for call ${hold.call_id} expired`);
+    return null;
+  }
+  return hold;
+}
+
+/**
+ * Reserves an available load for a call until ttl_seconds from now, moving it
+ * to pending. Holding a load again from the same call extends the hold.
+ * Throws LoadHoldError when another call holds the load or it is not available.
+ */
+export async function holdLoad(
+  load_id: number,
+  call_id: string,
+  options: { ttl_seconds: number; mc_number?: number }
+): Promise<{ hold: LoadHold; created: boolean }> {
+  return withTransaction(async () => {
+    const expires_at = toSqlTimestamp(new Date(Date.now() + options.ttl_seconds * 1000));
+
+    const existing = await getLiveHold(load_id);
+    if (existing) {
+      if (existing.call_id !== call_id) {
+        throw new LoadHoldError(`Load is held by another call until ${existing.expires_at}`);
       }
-    });
+      await runQuery('UPDATE LOAD_HOLDS SET expires_at = ? WHERE id = ?', [expires_at, existing.id]);
+      return { hold: { ...existing, expires_at }, created: false };
+    }
+
+    const load = await getLoadById(load_id);
+    if (!load || load.status !== 'available') {
+      throw new LoadHoldError(`Load is not available (status: ${load ? load.status : 'deleted'})`);
+    }
+
+    await applyLoadTransition(load_id, 'pending', `Held for call ${call_id}`);
+    const result = await runQuery(`
+      INSERT INTO LOAD_HOLDS (load_id, call_id, mc_number, expires_at) VALUES (?, ?, ?, ?)
+    `, [load_id, call_id, options.mc_number ?? null, expires_at]);
+
+    return { hold: (await getQuery<LoadHold>('SELECT * FROM LOAD_HOLDS WHERE id = ?', [result.lastID])) as LoadHold, created: true };
   });
+}
+
+// Books a load for a call inside the caller's transaction. The call must own
+// the load's hold when there is one; with requireHold it must have one.
+async function applyBooking(load_id: number, call_id: string, requireHold: boolean): Promise<Load> {
+  const hold = await getLiveHold(load_id);
+  if (hold && hold.call_id !== call_id) {
+    throw new LoadHoldError(`Load is held by another call until ${hold.expires_at}`);
+  }
+  if (!hold && requireHold) {
+    const load = await getLoadById(load_id);
+    throw new LoadHoldError(`Load has no active hold for call ${call_id} (status: ${load ? load.status : 'deleted'})`);
+  }
 
-  return row ? (row as Load) : null;
+  if (hold) {
+    await runQuery(`
+      UPDATE LOAD_HOLDS SET status = 'booked', ended_at = CURRENT_TIMESTAMP WHERE id = ?
+    `, [hold.id]);
+  }
+  return applyLoadTransition(load_id, 'booked', `Booked on call ${call_id}`);
 }
 
-export async function insertCall(call: Call): Promise<void> {
-  const database = getDatabase();
+/**
+ * Converts the call's hold into a booking. Throws LoadHoldError when the
+ * call does not hold the load (never did, released, or expired).
+ */
+export async function bookLoad(load_id: number, call_id: string): Promise<Load> {
+  return withTransaction(() => applyBooking(load_id, call_id, true));
+}
+
+// Releases the call's hold early. Returns false when the call holds nothing.
+export async function releaseHold(load_id: number, call_id: string): Promise<boolean> {
+  return withTransaction(async () => {
+    const hold = await getActiveHold(load_id);
+    if (!hold || hold.call_id !== call_id) {
+      return false;
+    }
+    await endHold(hold, 'released', `Hold for call ${call_id} released`);
+    return true;
+  });
+}
+
+// Ends every hold that ran out without being booked
+export async function releaseExpiredHolds(): Promise<number> {
+  return withTransaction(async () => {
+    const holds = await allQuery<LoadHold>(`
+      SELECT * FROM LOAD_HOLDS WHERE status = 'active' AND expires_at <= ?
+    `, [utcNow()]);
+
+    for (const hold of holds) {
+      await endHold(hold, 'expired', `Hold for call ${hold.call_id} expired`);
+    }
+    return holds.length;
+  });
+}
 
-  await new Promise<void>((resolve, reject) => {
-    database.run(`
+/**
+ * Stores a call together with the loads pitched on it. A successful call
+ * with a load_id books that load, so it is no longer offered by getLoads.
+ * Throws LoadTransitionError when the load can no longer be booked, and
+ * LoadHoldError when another call holds it.
+ */
+export async function insertCall(call: Call): Promise<void> {
+  await withTransaction(async () => {
+    await runQuery(`
       INSERT INTO CALLS (
         id, duration, mc_number, final_offer, final_counter_offer,
-        offer_iterations, successful, sentiment, created_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))
+        offer_iterations, successful, sentiment, negotiation_id, load_id,
+        outcome, transcript, current_location, equipment_type, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))
     `, [
       call.id,
       call.duration,
@@ -242,124 +879,149 @@ export async function insertCall(call: Call): Promise<void> {
       call.offer_iterations,
       call.successful ? 1 : 0, // SQLite uses INTEGER for boolean (0 or 1)
       call.sentiment,
+      call.negotiation_id || null,
+      call.load_id ?? null,
+      call.outcome ?? null,
+      call.transcript ?? null,
+      call.current_location ?? null,
+      call.equipment_type ?? null,
       null // created_at will use CURRENT_TIMESTAMP
-    ], (err) => {
-      if (err) {
-        reject(err);
-      } else {
-        resolve();
+    ]);
+
+    for (const tag of call.tags || []) {
+      await runQuery('INSERT OR IGNORE INTO CALL_TAGS (call_id, tag) VALUES (?, ?)', [call.id, tag]);
+    }
+
+    const pitched = new Set(call.pitched_load_ids || []);
+    if (call.load_id) {
+      pitched.add(call.load_id);
+    }
+    for (const load_id of pitched) {
+      await runQuery('INSERT OR IGNORE INTO CALL_LOADS (call_id, load_id) VALUES (?, ?)', [call.id, load_id]);
+    }
+
+    if (call.successful && call.load_id) {
+      await applyBooking(call.load_id, call.id, false);
+    }
+
+    const stored = await getQuery<{ created_at: string }>('SELECT created_at FROM CALLS WHERE id = ?', [call.id]);
+    publishEvent({
+      type: 'call.created',
+      data: {
+        id: call.id,
+        duration: call.duration,
+        mc_number: call.mc_number,
+        final_offer: call.final_offer,
+        final_counter_offer: call.final_counter_offer,
+        offer_iterations: call.offer_iterations,
+        successful: call.successful,
+        sentiment: call.sentiment,
+        outcome: call.outcome ?? null,
+        negotiation_id: call.negotiation_id || null,
+        load_id: call.load_id ?? null,
+        created_at: (stored as { created_at: string }).created_at
       }
     });
   });
 }
 
-export interface DashboardData {
-  successRate: number;
-  sentimentDistribution: {
-    positive: number;
-    negative: number;
-    neutral: number;
-  };
-  dailyAverages: Array<{
-    date: string;
-    avgDuration: number;
-    avgOfferIterations: number;
-    avgOfferDifference: number;
-  }>;
-  totalCalls: number;
-}
+// Successful calls joined to the load they booked, at the rate agreed on the call
+const BOOKED_CALLS = `
+  booked AS (
+    SELECT
+      c.id, c.created_at, c.final_offer as rate,
+      l.loadboard_rate, l.maximum_rate, l.miles, l.origin, l.destination, l.equipment_type, l.commodity_type
+    FROM CALLS c
+    JOIN LOADS l ON l.load_id = c.load_id
+    WHERE c.successful = 1
+  )
+`;
 
-export async function getDashboardData(): Promise<DashboardData> {
-  const database = getDatabase();
-  const all = promisify(database.all.bind(database));
-  const get = promisify(database.get.bind(database));
-
-  // Get success rate
-  const successStats = await get(`
-    SELECT 
-      COUNT(*) as total,
-      SUM(CASE WHEN successful = 1 THEN 1 ELSE 0 END) as successful_count
-    FROM CALLS
-  `) as { total: number; successful_count: number } | null;
-
-  const totalCalls = successStats?.total || 0;
-  const successRate = totalCalls > 0 
-    ? ((successStats?.successful_count || 0) / totalCalls) * 100 
-    : 0;
-
-  // Get sentiment distribution
-  const sentimentStats = await all(`
-    SELECT 
-      sentiment,
-      COUNT(*) as count
-    FROM CALLS
-    GROUP BY sentiment
-  `) as Array<{ sentiment: string; count: number }> | null;
-
-  const sentimentDistribution = {
-    positive: 0,
-    negative: 0,
-    neutral: 0
-  };
+// Aggregates over the booked rows, aliased bc; see revenueMetricsSchema
+const REVENUE_METRICS = `
+  COUNT(bc.id) as bookings,
+  COALESCE(SUM(bc.rate), 0) as revenue,
+  AVG(bc.rate) as avg_rate,
+  AVG(bc.loadboard_rate) as avg_loadboard_rate,
+  AVG(bc.maximum_rate) as avg_maximum_rate,
+  SUM(bc.rate) * 1.0 / SUM(bc.miles) as rate_per_mile,
+  SUM(bc.loadboard_rate) * 1.0 / SUM(bc.miles) as loadboard_rate_per_mile,
+  COALESCE(SUM(MAX(bc.rate - bc.loadboard_rate, 0)), 0) as margin_left_on_table
+`;
 
-  if (sentimentStats) {
-    sentimentStats.forEach(stat => {
-      const sentiment = stat.sentiment.toLowerCase();
-      if (sentiment === 'positive') {
-        sentimentDistribution.positive = stat.count;
-      } else if (sentiment === 'negative') {
-        sentimentDistribution.negative = stat.count;
-      } else {
-        sentimentDistribution.neutral = stat.count;
-      }
-    });
-  }
+type RevenueMetrics = Omit<RevenueSummary, 'range' | 'timeline'>;
 
-  // Get daily averages for the last 7 days
-  const dailyAverages = await all(`
-    SELECT 
-      DATE(created_at) as date,
-      AVG(duration) as avgDuration,
-      AVG(offer_iterations) as avgOfferIterations,
-      AVG(ABS(final_offer - final_counter_offer)) as avgOfferDifference
-    FROM CALLS
-    WHERE DATE(created_at) >= DATE('now', '-7 days')
-    GROUP BY DATE(created_at)
-    ORDER BY DATE(created_at) ASC
-  `) as Array<{
-    date: string;
-    avgDuration: number;
-    avgOfferIterations: number;
-    avgOfferDifference: number;
-  }> | null;
-
-  // Fill in missing days with zeros
-  const filledDailyAverages: Array<{
-    date: string;
-    avgDuration: number;
-    avgOfferIterations: number;
-    avgOfferDifference: number;
-  }> = [];
-
-  for (let i = 6; i >= 0; i--) {
-    const date = new Date();
-    date.setDate(date.getDate() - i);
-    const dateStr = date.toISOString().split('T')[0];
-    
-    const existing = dailyAverages?.find(d => d.date === dateStr);
-    filledDailyAverages.push({
-      date: dateStr,
-      avgDuration: existing?.avgDuration || 0,
-      avgOfferIterations: existing?.avgOfferIterations || 0,
-      avgOfferDifference: existing?.avgOfferDifference || 0
-    });
+const REVENUE_GROUPS: Record<RevenueDimension, { select: string; groupBy: string }> = {
+  lane: {
+    select: 'MIN(bc.origin) as origin, MIN(bc.destination) as destination',
+    groupBy: 'LOWER(bc.origin), LOWER(bc.destination)'
+  },
+  equipment: {
+    select: 'MIN(bc.equipment_type) as "group"',
+    groupBy: 'LOWER(bc.equipment_type)'
+  },
+  commodity: {
+    select: 'MIN(bc.commodity_type) as "group"',
+    groupBy: 'LOWER(bc.commodity_type)'
   }
+};
+
+/**
+ * Booked revenue and rates over the range, and per bucket in the query's
+ * timezone.
+ */
+export async function getRevenueSummary({ range, bucket, tz }: TimeRangeQuery): Promise<RevenueSummary> {
+  const totals = await getQuery<RevenueMetrics>(`
+    WITH ${BOOKED_CALLS}
+    SELECT ${REVENUE_METRICS}
+    FROM booked bc
+    WHERE bc.created_at >= ? AND bc.created_at < ?
+  `, [toSqlTimestamp(range.start), toSqlTimestamp(range.end)]);
+
+  const buckets = timeBuckets(range, bucket, tz);
+  const cte = bucketsCte(buckets);
+  const bucketRows = await allQuery<RevenueMetrics & { idx: number }>(`
+    WITH ${cte.sql}, ${BOOKED_CALLS}
+    SELECT b.idx, ${REVENUE_METRICS}
+    FROM buckets b
+    LEFT JOIN booked bc ON bc.created_at >= b.bucket_start AND bc.created_at < b.bucket_end
+    GROUP BY b.idx
+    ORDER BY b.idx
+  `, cte.params);
 
   return {
-    successRate,
-    sentimentDistribution,
-    dailyAverages: filledDailyAverages,
-    totalCalls
+    ...(totals as RevenueMetrics),
+    range: { start: range.start.toISOString(), end: range.end.toISOString(), bucket, tz },
+    timeline: buckets.map((entry, idx) => {
+      const { idx: _, ...metrics } = bucketRows[idx];
+      return {
+        label: entry.label,
+        start: entry.start.toISOString(),
+        end: entry.end.toISOString(),
+        ...metrics
+      };
+    })
   };
 }
 
+/** The 20 lanes, equipment types or commodities with the most booked revenue in the range. */
+export async function getRevenueBreakdown(dimension: RevenueDimension, { range }: TimeRangeQuery): Promise<RevenueBreakdown> {
+  const { select, groupBy } = REVENUE_GROUPS[dimension];
+  const rows = await allQuery<RevenueMetrics & { group?: string; origin?: string; destination?: string }>(`
+    WITH ${BOOKED_CALLS}
+    SELECT ${select}, ${REVENUE_METRICS}
+    FROM booked bc
+    WHERE bc.created_at >= ? AND bc.created_at < ?
+    GROUP BY ${groupBy}
+    ORDER BY revenue DESC, bookings DESC
+    LIMIT 20
+  `, [toSqlTimestamp(range.start), toSqlTimestamp(range.end)]);
+
+  return {
+    dimension,
+    rows: rows.map(row => ({
+      ...row,
+      group: dimension === 'lane' ? `${row.origin} → ${row.destination}` : row.group as string
+    }))
+  };
+}
@@ -0,0 +1,58 @@
+import express, { Request, Response } from 'express';
+import path from 'path';
+import { buildOpenApiDocument, describeRoute } from './openapi';
+
+export const docsRouter = express.Router();
+
+// swagger-ui-dist ships no type declarations, so locate its files by path
+const SWAGGER_UI_PATH = path.dirname(require.resolve('swagger-ui-dist/package.json'));
+
+const DOCS_PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Loads API</title>
+  <link rel="stylesheet" href="swagger-ui.css">
+</head>
+<body>
+  <div id="swagger-ui"></div>
+  <script src="swagger-ui-bundle.js"></script>
+  <script>
+    SwaggerUIBundle({ url: 'openapi.json', dom_id: '#swagger-ui', persistAuthorization: true });
+  </script>
+</body>
+</html>`;
+
+// Routes are all registered at startup, so the document only needs building once
+let cachedDocument: Record<string, unknown> | null = null;
+
+docsRouter.get('/openapi.json', describeRoute({
+  operationId: 'getOpenApiDocument',
+  summary: 'OpenAPI document for this API',
+  tag: 'Docs',
+  responses: { 200: 'OpenAPI 3.1 document' }
+}), (req: Request, res: Response) => {
+  try {
+    cachedDocument ??= buildOpenApiDocument(req.app);
+    res.json({ ...cachedDocument, servers: [{ url: `${req.protocol}://${req.get('host')}` }] });
+  } catch (error) {
+    console.error('Error building OpenAPI document:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Relative asset URLs need the trailing slash
+docsRouter.get('/', describeRoute({
+  operationId: 'getDocs',
+  summary: 'Interactive API documentation',
+  tag: 'Docs',
+  responses: { 200: { description: 'Swagger UI page', contentType: 'text/html' } }
+}), (req: Request, res: Response) => {
+  if (!req.originalUrl.split('?')[0].endsWith('/')) {
+    res.redirect(301, `${req.baseUrl}/`);
+    return;
+  }
+  res.type('html').send(DOCS_PAGE);
+});
+
+docsRouter.use(express.static(SWAGGER_UI_PATH, { index: false }));
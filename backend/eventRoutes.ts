@@ -0,0 +1,67 @@
+import express, { Request, Response } from 'express';
+import { subscribe, eventsSince, PublishedEvent } from './events';
+import { getActiveNegotiations } from './negotiation';
+import { describeRoute } from './openapi';
+
+export const eventRouter = express.Router();
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_MS = 25 * 1000;
+
+function writeEvent(res: Response, event: PublishedEvent): void {
+  res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+}
+
+eventRouter.get('/', describeRoute({
+  operationId: 'streamEvents',
+  summary: 'Stream dashboard updates as Server-Sent Events',
+  description: 'Opens with a ready event listing the negotiations in progress, then sends call.created, '
+    + 'negotiation.updated and load.status_changed as they happen. A client reconnecting with '
+    + 'Last-Event-ID gets the events it missed, or resync: true in ready when they are no longer kept.',
+  tag: 'Analytics',
+  responses: { 200: { description: 'An endless event stream', contentType: 'text/event-stream' } }
+}), async (req: Request, res: Response) => {
+  // Subscribe before reading the snapshot, so nothing published in between is lost
+  const queued: PublishedEvent[] = [];
+  let send = (event: PublishedEvent) => {
+    queued.push(event);
+  };
+  const unsubscribe = subscribe(event => send(event));
+  let heartbeat: NodeJS.Timeout | undefined;
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+
+  try {
+    const lastEventId = req.get('Last-Event-ID');
+    const missed = lastEventId !== undefined && /^\d+$/.test(lastEventId) ? eventsSince(Number(lastEventId)) : [];
+    const negotiations = await getActiveNegotiations();
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      // Stops nginx from buffering the stream
+      'X-Accel-Buffering': 'no'
+    });
+    res.write(`event: ready\ndata: ${JSON.stringify({ negotiations, resync: missed === null })}\n\n`);
+
+    const seen = new Set<number>();
+    for (const event of [...(missed ?? []), ...queued]) {
+      if (!seen.has(event.id)) {
+        seen.add(event.id);
+        writeEvent(res, event);
+      }
+    }
+    send = event => writeEvent(res, event);
+    heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+  } catch (error) {
+    console.error('Error opening event stream:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Internal server error' });
+    } else {
+      res.end();
+    }
+  }
+});
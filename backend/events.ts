@@ -0,0 +1,127 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { EventEmitter } from 'events';
+import type { Negotiation } from './negotiation';
+import type { LoadStatus } from './loadStatus';
+import type { Call, CallOutcome } from './schemas';
+
+// Changes pushed to the dashboard over GET /api/events. Events are numbered
+// per process; the most recent ones are kept so a client that reconnects with
+// Last-Event-ID gets what it missed.
+
+const REPLAY_SIZE = 200;
+
+export interface CallEvent extends Pick<
+  Call, 'id' | 'duration' | 'mc_number' | 'final_offer' | 'final_counter_offer' | 'offer_iterations' | 'successful' | 'sentiment'
+> {
+  outcome: CallOutcome | null;
+  negotiation_id: string | null;
+  load_id: number | null;
+  created_at: string;
+}
+
+export interface LoadStatusEvent {
+  load_id: number;
+  from_status: LoadStatus;
+  to_status: LoadStatus;
+  reason: string | null;
+  changed_at: string;
+}
+
+export type LiveEvent =
+  | { type: 'call.created'; data: CallEvent }
+  | { type: 'call.updated'; data: CallEvent }
+  | { type: 'negotiation.updated'; data: Negotiation }
+  | { type: 'load.status_changed'; data: LoadStatusEvent };
+
+export type PublishedEvent = LiveEvent & { id: number };
+
+const emitter = new EventEmitter();
+// One listener per connected dashboard
+emitter.setMaxListeners(0);
+
+const recent: PublishedEvent[] = [];
+let lastId = 0;
+
+// Events published inside a transaction, held back until it commits
+const pendingEvents = new AsyncLocalStorage<LiveEvent[]>();
+
+// Stores events in the transaction that publishes them, such as the webhook
+// outbox, so they are kept exactly when the change is
+export type EventOutbox = (events: LiveEvent[]) => Promise<void>;
+
+const outboxes: EventOutbox[] = [];
+
+function emit(event: LiveEvent): void {
+  const published = { ...event, id: ++lastId } as PublishedEvent;
+  recent.push(published);
+  if (recent.length > REPLAY_SIZE) {
+    recent.shift();
+  }
+  emitter.emit('event', published);
+}
+
+export function publishEvent(event: LiveEvent): void {
+  const pending = pendingEvents.getStore();
+  if (pending) {
+    pending.push(event);
+  } else {
+    emit(event);
+  }
+}
+
+/**
+ * Runs fn, publishing the events it raises only once it succeeds, so
+ * listeners never hear about changes that were rolled back.
+ */
+export async function deferEvents<T>(fn: () => Promise<T>): Promise<T> {
+  if (pendingEvents.getStore()) {
+    return fn();
+  }
+  const pending: LiveEvent[] = [];
+  const value = await pendingEvents.run(pending, fn);
+  pending.forEach(emit);
+  return value;
+}
+
+export function addEventOutbox(outbox: EventOutbox): void {
+  outboxes.push(outbox);
+}
+
+/**
+ * Hands the events published so far in the current transaction to the
+ * outboxes. Called by withTransaction right before COMMIT; events published
+ * outside a transaction never reach an outbox.
+ */
+export async function storePendingEvents(): Promise<void> {
+  const pending = pendingEvents.getStore();
+  if (!pending || pending.length === 0) {
+    return;
+  }
+  for (const outbox of outboxes) {
+    await outbox(pending);
+  }
+}
+
+export function subscribe(listener: (event: PublishedEvent) => void): () => void {
+  emitter.on('event', listener);
+  return () => {
+    emitter.off('event', listener);
+  };
+}
+
+/**
+ * Events published after lastSeen, or null when some of them are no longer
+ * kept (or lastSeen came from before a restart) and the client must resync.
+ */
+export function eventsSince(lastSeen: number): PublishedEvent[] | null {
+  if (lastSeen > lastId) {
+    return null;
+  }
+  if (lastSeen === lastId) {
+    return [];
+  }
+  if (recent.length === 0 || recent[0].id > lastSeen + 1) {
+    return null;
+  }
+  return recent.filter(event => event.id > lastSeen);
+}
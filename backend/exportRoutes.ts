@@ -0,0 +1,90 @@
+import express, { Request, Response } from 'express';
+import { exportCalls } from './calls';
+import { exportLoads } from './database';
+import { getDashboardData } from './dashboard';
+import { sendExport } from './exports';
+import { requireRole } from './userRoutes';
+import { validate } from './validation';
+import { describeRoute } from './openapi';
+import {
+  callExportQuerySchema, loadExportQuerySchema, dashboardExportQuerySchema, CallExportQuery, LoadExportQuery,
+  DashboardExportQuery
+} from './schemas';
+
+// Downloads for spreadsheets. Each route takes the filters of its list API
+// plus format, and is allowed for whoever may read that API.
+export const exportRouter = express.Router();
+
+exportRouter.get('/calls', describeRoute({
+  operationId: 'exportCalls',
+  summary: 'Download calls',
+  description: 'Every call matching the filters of GET /api/calls, newest first, without transcripts.',
+  tag: 'Exports',
+  responses: { 200: 'A CSV or JSON Lines file' }
+}), requireRole('analyst', 'calls:read'), validate({ query: callExportQuerySchema }), async (req: Request, res: Response) => {
+  try {
+    const query = res.locals.query as CallExportQuery;
+    await sendExport(res, {
+      name: 'calls',
+      format: query.format,
+      columns: [
+        'id', 'created_at', 'duration', 'mc_number', 'final_offer', 'final_counter_offer', 'offer_iterations',
+        'successful', 'sentiment', 'outcome', 'negotiation_id', 'load_id', 'pitched_load_ids', 'current_location',
+        'equipment_type', 'tags'
+      ],
+      rows: exportCalls(query)
+    });
+  } catch (error) {
+    console.error('Error exporting calls:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+exportRouter.get('/loads', describeRoute({
+  operationId: 'exportLoads',
+  summary: 'Download loads',
+  description: 'Every load matching the filters of GET /api/loads, by load_id. '
+    + 'Only available loads unless status names others.',
+  tag: 'Exports',
+  responses: { 200: 'A CSV or JSON Lines file' }
+}), requireRole('analyst', 'loads:read'), validate({ query: loadExportQuerySchema }), async (req: Request, res: Response) => {
+  try {
+    const { format, ...filters } = res.locals.query as LoadExportQuery;
+    await sendExport(res, {
+      name: 'loads',
+      format,
+      columns: [
+        'load_id', 'status', 'origin', 'destination', 'pickup_datetime', 'delivery_datetime', 'equipment_type',
+        'loadboard_rate', 'maximum_rate', 'rate_per_mile', 'miles', 'weight', 'commodity_type', 'num_of_pieces',
+        'dimensions', 'notes', 'origin_lat', 'origin_lng', 'destination_lat', 'destination_lng'
+      ],
+      rows: exportLoads(filters)
+    });
+  } catch (error) {
+    console.error('Error exporting loads:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+exportRouter.get('/dashboard', describeRoute({
+  operationId: 'exportDashboard',
+  summary: 'Download the dashboard timeline',
+  description: 'One row per bucket of GET /api/dashboard, with its local label, UTC start and end, '
+    + 'call count and averages.',
+  tag: 'Exports',
+  responses: { 200: 'A CSV or JSON Lines file' }
+}), requireRole('viewer', 'analytics:read'), validate({ query: dashboardExportQuerySchema }), async (req: Request, res: Response) => {
+  try {
+    const { format, ...range } = res.locals.query as DashboardExportQuery;
+    const dashboard = await getDashboardData(range);
+    await sendExport(res, {
+      name: 'dashboard',
+      format,
+      columns: ['label', 'start', 'end', 'calls', 'avgDuration', 'avgOfferIterations', 'avgOfferDifference'],
+      rows: dashboard.timeline
+    });
+  } catch (error) {
+    console.error('Error exporting dashboard:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
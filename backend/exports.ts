@@ -0,0 +1,83 @@
+import { Response } from 'express';
+import { formatCsvRow } from './csv';
+import { ExportFormat } from './schemas';
+
+// Streams rows as a CSV or JSON Lines download. Rows are written as they are
+// read, waiting whenever the client falls behind, so an export never holds
+// more than a page of a table in memory.
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  jsonl: 'application/x-ndjson; charset=utf-8'
+};
+
+export interface ExportOptions<T> {
+  // Start of the file name, e.g. 'calls'
+  name: string;
+  format: ExportFormat;
+  // The fields written, in order; the CSV header
+  columns: Array<keyof T & string>;
+  rows: Iterable<T> | AsyncIterable<T>;
+}
+
+// In CSV, lists become one cell such as "1, 2"
+function toCsvValue(value: unknown): unknown {
+  return Array.isArray(value) ? value.join(', ') : value;
+}
+
+/**
+ * Sends the rows as an attachment. A failure once rows were sent can no
+ * longer become an error response, so the connection is cut instead and the
+ * download fails rather than ending early.
+ */
+export async function sendExport<T>(res: Response, { name, format, columns, rows }: ExportOptions<T>): Promise<void> {
+  let closed = false;
+  res.on('close', () => {
+    closed = true;
+  });
+
+  // Resolves once the client took what was written, or went away
+  const write = (chunk: string): Promise<void> => {
+    if (res.write(chunk) || closed) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => {
+      const done = () => {
+        res.off('drain', done);
+        res.off('close', done);
+        resolve();
+      };
+      res.on('drain', done);
+      res.on('close', done);
+    });
+  };
+
+  try {
+    res.setHeader('Content-Type', CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${name}-${new Date().toISOString().slice(0, 10)}.${format}"`);
+    res.setHeader('Cache-Control', 'no-store');
+    if (format === 'csv') {
+      // The byte order mark makes Excel read the file as UTF-8
+      await write(`\ufeff${formatCsvRow(columns)}`);
+    }
+
+    for await (const row of rows) {
+      if (closed) {
+        return;
+      }
+      await write(format === 'csv'
+        ? formatCsvRow(columns.map(column => toCsvValue(row[column])))
+        : `${JSON.stringify(Object.fromEntries(columns.map(column => [column, row[column] ?? null])))}\n`);
+    }
+    res.end();
+  } catch (error) {
+    if (!res.headersSent) {
+      // Left for the caller's error response
+      res.removeHeader('Content-Type');
+      res.removeHeader('Content-Disposition');
+      throw error;
+    }
+    console.error('Error streaming export:', error);
+    res.destroy();
+  }
+}
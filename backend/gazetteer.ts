@@ -0,0 +1,228 @@
+import { parseCityQuery } from './cities';
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+export interface GazetteerPlace extends Coordinates {
+  city: string;
+  state: string;
+}
+
+type GazetteerEntry = [city: string, state: string, lat: number, lng: number, zip3: string[]];
+
+// Offline gazetteer of US freight markets: city, state, city-centre
+// coordinates and the 3-digit ZIP prefixes served from that city. When two
+// cities share a name the larger market is listed first and wins when the
+// caller gives no state.
+const PLACES: GazetteerEntry[] = [
+  ['Los Angeles', 'CA', 34.0522, -118.2437, ['900', '901']],
+  ['New York', 'NY', 40.7128, -74.0060, ['100', '101', '102']],
+  ['Chicago', 'IL', 41.8781, -87.6298, ['606', '607', '608']],
+  ['Houston', 'TX', 29.7604, -95.3698, ['770', '772']],
+  ['Phoenix', 'AZ', 33.4484, -112.0740, ['850']],
+  ['Philadelphia', 'PA', 39.9526, -75.1652, ['191']],
+  ['San Antonio', 'TX', 29.4241, -98.4936, ['782']],
+  ['San Diego', 'CA', 32.7157, -117.1611, ['921']],
+  ['Dallas', 'TX', 32.7767, -96.7970, ['752', '753']],
+  ['San Jose', 'CA', 37.3382, -121.8863, ['951']],
+  ['Austin', 'TX', 30.2672, -97.7431, ['787']],
+  ['Jacksonville', 'FL', 30.3322, -81.6557, ['322']],
+  ['Fort Worth', 'TX', 32.7555, -97.3308, ['761']],
+  ['Columbus', 'OH', 39.9612, -82.9988, ['432']],
+  ['Charlotte', 'NC', 35.2271, -80.8431, ['282']],
+  ['San Francisco', 'CA', 37.7749, -122.4194, ['941']],
+  ['Indianapolis', 'IN', 39.7684, -86.1581, ['462']],
+  ['Seattle', 'WA', 47.6062, -122.3321, ['981']],
+  ['Denver', 'CO', 39.7392, -104.9903, ['802']],
+  ['Washington', 'DC', 38.9072, -77.0369, ['200']],
+  ['Boston', 'MA', 42.3601, -71.0589, ['021', '022']],
+  ['El Paso', 'TX', 31.7619, -106.4850, ['799']],
+  ['Nashville', 'TN', 36.1627, -86.7816, ['372']],
+  ['Detroit', 'MI', 42.3314, -83.0458, ['482']],
+  ['Oklahoma City', 'OK', 35.4676, -97.5164, ['731']],
+  ['Portland', 'OR', 45.5152, -122.6784, ['972']],
+  ['Las Vegas', 'NV', 36.1699, -115.1398, ['891']],
+  ['Memphis', 'TN', 35.1495, -90.0490, ['381']],
+  ['Louisville', 'KY', 38.2527, -85.7585, ['402']],
+  ['Baltimore', 'MD', 39.2904, -76.6122, ['212']],
+  ['Milwaukee', 'WI', 43.0389, -87.9065, ['532']],
+  ['Albuquerque', 'NM', 35.0844, -106.6504, ['871']],
+  ['Tucson', 'AZ', 32.2226, -110.9747, ['857']],
+  ['Fresno', 'CA', 36.7378, -119.7871, ['937']],
+  ['Sacramento', 'CA', 38.5816, -121.4944, ['958']],
+  ['Kansas City', 'MO', 39.0997, -94.5786, ['641']],
+  ['Atlanta', 'GA', 33.7490, -84.3880, ['303']],
+  ['Miami', 'FL', 25.7617, -80.1918, ['331']],
+  ['Omaha', 'NE', 41.2565, -95.9345, ['681']],
+  ['Raleigh', 'NC', 35.7796, -78.6382, ['276']],
+  ['Minneapolis', 'MN', 44.9778, -93.2650, ['554']],
+  ['Tulsa', 'OK', 36.1540, -95.9928, ['741']],
+  ['Cleveland', 'OH', 41.4993, -81.6944, ['441']],
+  ['Wichita', 'KS', 37.6872, -97.3301, ['672']],
+  ['New Orleans', 'LA', 29.9511, -90.0715, ['701']],
+  ['Tampa', 'FL', 27.9506, -82.4572, ['336']],
+  ['Orlando', 'FL', 28.5383, -81.3792, ['328']],
+  ['St. Louis', 'MO', 38.6270, -90.1994, ['631']],
+  ['Pittsburgh', 'PA', 40.4406, -79.9959, ['152']],
+  ['Cincinnati', 'OH', 39.1031, -84.5120, ['452']],
+  ['Salt Lake City', 'UT', 40.7608, -111.8910, ['841']],
+  ['Birmingham', 'AL', 33.5186, -86.8104, ['352']],
+  ['Richmond', 'VA', 37.5407, -77.4360, ['232']],
+  ['Buffalo', 'NY', 42.8864, -78.8784, ['142']],
+  ['Savannah', 'GA', 32.0809, -81.0912, ['314']],
+  ['Laredo', 'TX', 27.5306, -99.4803, ['780']],
+  ['Reno', 'NV', 39.5296, -119.8138, ['895']],
+  ['Boise', 'ID', 43.6150, -116.2023, ['837']],
+  ['Spokane', 'WA', 47.6588, -117.4260, ['992']],
+  ['Little Rock', 'AR', 34.7465, -92.2896, ['722']],
+  ['Jackson', 'MS', 32.2988, -90.1848, ['392']],
+  ['Shreveport', 'LA', 32.5252, -93.7502, ['711']],
+  ['Charleston', 'SC', 32.7765, -79.9311, ['294']],
+  ['Greenville', 'SC', 34.8526, -82.3940, ['296']],
+  ['Knoxville', 'TN', 35.9606, -83.9207, ['379']],
+  ['Chattanooga', 'TN', 35.0456, -85.3097, ['374']],
+  ['Lexington', 'KY', 38.0406, -84.5037, ['405']],
+  ['Des Moines', 'IA', 41.5868, -93.6250, ['503']],
+  ['Cedar Rapids', 'IA', 41.9779, -91.6656, ['524']],
+  ['Madison', 'WI', 43.0731, -89.4012, ['537']],
+  ['Green Bay', 'WI', 44.5133, -88.0133, ['543']],
+  ['Grand Rapids', 'MI', 42.9634, -85.6681, ['495']],
+  ['Toledo', 'OH', 41.6528, -83.5379, ['436']],
+  ['Fort Wayne', 'IN', 41.0793, -85.1394, ['468']],
+  ['Harrisburg', 'PA', 40.2732, -76.8867, ['171']],
+  ['Allentown', 'PA', 40.6084, -75.4902, ['181']],
+  ['Newark', 'NJ', 40.7357, -74.1724, ['071']],
+  ['Hartford', 'CT', 41.7658, -72.6734, ['061']],
+  ['Providence', 'RI', 41.8240, -71.4128, ['029']],
+  ['Albany', 'NY', 42.6526, -73.7562, ['122']],
+  ['Syracuse', 'NY', 43.0481, -76.1474, ['132']],
+  ['Norfolk', 'VA', 36.8508, -76.2859, ['235']],
+  ['Greensboro', 'NC', 36.0726, -79.7920, ['274']],
+  ['Columbia', 'SC', 34.0007, -81.0348, ['292']],
+  ['Montgomery', 'AL', 32.3792, -86.3077, ['361']],
+  ['Mobile', 'AL', 30.6954, -88.0399, ['366']],
+  ['Tallahassee', 'FL', 30.4383, -84.2807, ['323']],
+  ['Amarillo', 'TX', 35.2220, -101.8313, ['791']],
+  ['Lubbock', 'TX', 33.5779, -101.8552, ['794']],
+  ['Corpus Christi', 'TX', 27.8006, -97.3964, ['784']],
+  ['McAllen', 'TX', 26.2034, -98.2300, ['785']],
+  ['Springfield', 'MO', 37.2089, -93.2923, ['658']],
+  ['Sioux Falls', 'SD', 43.5446, -96.7311, ['571']],
+  ['Fargo', 'ND', 46.8772, -96.7898, ['581']],
+  ['Billings', 'MT', 45.7833, -108.5007, ['591']],
+  ['Cheyenne', 'WY', 41.1400, -104.8202, ['820']],
+  ['Rapid City', 'SD', 44.0805, -103.2310, ['577']],
+  ['Bakersfield', 'CA', 35.3733, -119.0187, ['933']],
+  ['Stockton', 'CA', 37.9577, -121.2908, ['952']],
+  ['Ontario', 'CA', 34.0633, -117.6509, ['917']],
+  ['Riverside', 'CA', 33.9806, -117.3755, ['925']],
+  ['Oakland', 'CA', 37.8044, -122.2712, ['946']],
+  ['Long Beach', 'CA', 33.7701, -118.1937, ['908']],
+  ['Tacoma', 'WA', 47.2529, -122.4443, ['984']],
+  ['Flagstaff', 'AZ', 35.1983, -111.6513, ['860']],
+  ['Joplin', 'MO', 37.0842, -94.5133, ['648']],
+  ['Peoria', 'IL', 40.6936, -89.5890, ['616']],
+  ['Rockford', 'IL', 42.2711, -89.0940, ['611']],
+  ['Gary', 'IN', 41.5934, -87.3464, ['464']],
+  ['Akron', 'OH', 41.0814, -81.5190, ['443']],
+  ['Dayton', 'OH', 39.7589, -84.1916, ['454']],
+  ['Evansville', 'IN', 37.9716, -87.5711, ['477']],
+  ['Baton Rouge', 'LA', 30.4515, -91.1871, ['708']],
+  ['Lafayette', 'LA', 30.2241, -92.0198, ['705']],
+  ['Gulfport', 'MS', 30.3674, -89.0928, ['395']],
+  ['Pensacola', 'FL', 30.4213, -87.2169, ['325']],
+  ['Fort Lauderdale', 'FL', 26.1224, -80.1373, ['333']],
+  ['Augusta', 'GA', 33.4735, -82.0105, ['309']],
+  ['Macon', 'GA', 32.8407, -83.6324, ['312']],
+  ['Roanoke', 'VA', 37.2710, -79.9414, ['240']],
+  ['Scranton', 'PA', 41.4090, -75.6624, ['185']],
+  ['Portland', 'ME', 43.6591, -70.2568, ['041']],
+  ['Manchester', 'NH', 42.9956, -71.4548, ['031']],
+  ['Burlington', 'VT', 44.4759, -73.2121, ['054']],
+  ['Wilmington', 'DE', 39.7391, -75.5398, ['198']],
+  ['Kansas City', 'KS', 39.1141, -94.6275, ['661']],
+  ['Columbus', 'GA', 32.4610, -84.9877, ['318']],
+  ['Springfield', 'IL', 39.7817, -89.6501, ['627']],
+  ['Lincoln', 'NE', 40.8136, -96.7026, ['685']],
+  ['Topeka', 'KS', 39.0473, -95.6752, ['666']],
+  ['Colorado Springs', 'CO', 38.8339, -104.8214, ['809']],
+  ['Grand Junction', 'CO', 39.0639, -108.5506, ['815']],
+  ['Salinas', 'CA', 36.6777, -121.6555, ['939']],
+  ['Yakima', 'WA', 46.6021, -120.5059, ['989']],
+  ['Medford', 'OR', 42.3265, -122.8756, ['975']],
+  ['Eugene', 'OR', 44.0521, -123.0868, ['974']],
+  ['Twin Falls', 'ID', 42.5629, -114.4609, ['833']],
+  ['Pocatello', 'ID', 42.8713, -112.4455, ['832']],
+  ['Ogden', 'UT', 41.2230, -111.9738, ['844']],
+  ['Nogales', 'AZ', 31.3404, -110.9343, ['856']],
+  ['Texarkana', 'TX', 33.4251, -94.0477, ['755']],
+  ['Waco', 'TX', 31.5493, -97.1467, ['767']],
+  ['Abilene', 'TX', 32.4487, -99.7331, ['796']],
+  ['Midland', 'TX', 31.9973, -102.0779, ['797']],
+  ['Tyler', 'TX', 32.3513, -95.3011, ['757']]
+];
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+const byName = new Map<string, GazetteerPlace[]>();
+const byZip3 = new Map<string, GazetteerPlace>();
+
+for (const [city, state, lat, lng, zip3] of PLACES) {
+  const place: GazetteerPlace = { city, state, lat, lng };
+  for (const key of new Set([city.toLowerCase(), city.toLowerCase().replace(/\./g, '')])) {
+    byName.set(key, [...(byName.get(key) || []), place]);
+  }
+  zip3.forEach(prefix => byZip3.set(prefix, place));
+}
+
+const ZIP_PATTERN = /\b(\d{5})(?:-\d{4})?\b/;
+
+/**
+ * Resolves free text such as "Chicago", "Dallas, TX", "near LA" or a ZIP
+ * code to a gazetteer place. Returns null when the location is unknown.
+ */
+export function resolveLocation(text: string): GazetteerPlace | null {
+  const zip = ZIP_PATTERN.exec(text);
+  if (zip) {
+    const place = byZip3.get(zip[1].slice(0, 3));
+    if (place) {
+      return place;
+    }
+  }
+
+  const { city, state } = parseCityQuery(text.replace(ZIP_PATTERN, ''));
+  const candidates = byName.get(city) || byName.get(city.replace(/\./g, ''));
+  if (!candidates) {
+    return null;
+  }
+
+  if (state) {
+    return candidates.find(place => place.state === state) || null;
+  }
+  return candidates[0];
+}
+
+// Great-circle distance in miles
+export function haversineMiles(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+}
+
+// Latitude/longitude bounds that contain every point within `radius` miles,
+// used to narrow candidates in SQL before computing exact distances
+export function boundingBox(center: Coordinates, radiusMiles: number): { minLat: number; maxLat: number; minLng: number; maxLng: number } {
+  const latDelta = radiusMiles / 69;
+  const lngDelta = radiusMiles / (69 * Math.max(Math.cos(center.lat * Math.PI / 180), 0.01));
+  return {
+    minLat: center.lat - latDelta,
+    maxLat: center.lat + latDelta,
+    minLng: center.lng - lngDelta,
+    maxLng: center.lng + lngDelta
+  };
+}
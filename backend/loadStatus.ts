@@ -0,0 +1,57 @@
+export type LoadStatus = 'available' | 'pending' | 'booked' | 'in_transit' | 'delivered' | 'cancelled' | 'expired';
+
+export const LOAD_STATUSES: LoadStatus[] = ['available', 'pending', 'booked', 'in_transit', 'delivered', 'cancelled', 'expired'];
+
+// Legal next statuses for each status. A booked load can go back to available
+// when the carrier falls off, and an expired load can be re-posted.
+export const LOAD_TRANSITIONS: Record<LoadStatus, LoadStatus[]> = {
+  available: ['pending', 'booked', 'cancelled', 'expired'],
+  pending: ['available', 'booked', 'cancelled', 'expired'],
+  booked: ['available', 'in_transit', 'cancelled'],
+  in_transit: ['delivered'],
+  delivered: [],
+  cancelled: [],
+  expired: ['available', 'cancelled']
+};
+
+export interface LoadStatusChange {
+  id: number;
+  load_id: number;
+  from_status: LoadStatus;
+  to_status: LoadStatus;
+  reason: string | null;
+  created_at: string;
+}
+
+// Thrown when a load cannot move to the requested status from its current one
+export class LoadTransitionError extends Error {
+  constructor(public readonly from: LoadStatus, public readonly to: LoadStatus, message?: string) {
+    super(message || `Cannot move load from ${from} to ${to}`);
+  }
+}
+
+export function isLoadStatus(value: unknown): value is LoadStatus {
+  return LOAD_STATUSES.includes(value as LoadStatus);
+}
+
+export function canTransition(from: LoadStatus, to: LoadStatus): boolean {
+  return LOAD_TRANSITIONS[from].includes(to);
+}
+
+export type LoadHoldStatus = 'active' | 'booked' | 'released' | 'expired';
+
+// A time-limited reservation of a load for one call; the load stays pending
+// while the hold is active
+export interface LoadHold {
+  id: number;
+  load_id: number;
+  call_id: string;
+  mc_number: number | null;
+  status: LoadHoldStatus;
+  expires_at: string;
+  created_at: string;
+  ended_at: string | null;
+}
+
+// Thrown when a hold or booking conflicts with the load's current reservation
+export class LoadHoldError extends Error {}
@@ -0,0 +1,124 @@
+import { z } from 'zod';
+import { text, numeric, parseInput } from './validation';
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export interface LoadValidationResult {
+  load: LoadInput | null;
+  errors: FieldError[];
+}
+
+const DATETIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+// Normalize to the 'YYYY-MM-DD HH:MM:SS' format used by the LOADS table.
+// Values carrying a timezone offset are converted to UTC.
+export function normalizeDatetime(value: string): string | null {
+  const match = DATETIME_PATTERN.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second = '00', zone] = match;
+  if (zone) {
+    const parsed = new Date(value.trim().replace(' ', 'T'));
+    if (isNaN(parsed.getTime())) {
+      return null;
+    }
+    return parsed.toISOString().slice(0, 19).replace('T', ' ');
+  }
+
+  // Reject impossible dates such as 2024-02-31
+  const check = new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+  if (check.getUTCMonth() !== +month - 1 || check.getUTCDate() !== +day ||
+      +hour > 23 || +minute > 59 || +second > 59) {
+    return null;
+  }
+
+  return `${year}-${month}-${day} ${hour}:${minute}:${second}`;
+}
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Range bounds given as a bare date cover the whole day
+export function normalizeDateBound(value: string, endOfDay: boolean): string | null {
+  const trimmed = value.trim();
+  return DATE_ONLY_PATTERN.test(trimmed)
+    ? normalizeDatetime(`${trimmed} ${endOfDay ? '23:59:59' : '00:00:00'}`)
+    : normalizeDatetime(trimmed);
+}
+
+/** A date-time in any format normalizeDatetime accepts, stored as 'YYYY-MM-DD HH:MM:SS'. */
+export function datetime() {
+  return text(z.string().transform((value, ctx) => {
+    const normalized = normalizeDatetime(value);
+    if (!normalized) {
+      ctx.addIssue({ code: 'custom', message: "must be a date-time in 'YYYY-MM-DD HH:MM:SS' or ISO 8601 format" });
+      return z.NEVER;
+    }
+    return normalized;
+  }));
+}
+
+/** A range bound given as a date or date-time; bare dates cover the whole day. */
+export function dateBound(endOfDay: boolean) {
+  return text(z.string().transform((value, ctx) => {
+    const normalized = normalizeDateBound(value, endOfDay);
+    if (!normalized) {
+      ctx.addIssue({ code: 'custom', message: 'must be a date (YYYY-MM-DD) or date-time' });
+      return z.NEVER;
+    }
+    return normalized;
+  }).optional());
+}
+
+// The writable fields of a load, shared by the LoadInput and Load schemas
+export const loadFields = {
+  origin: text(z.string()),
+  destination: text(z.string()),
+  pickup_datetime: datetime().describe("'YYYY-MM-DD HH:MM:SS' or ISO 8601; offsets are converted to UTC"),
+  delivery_datetime: datetime().describe("'YYYY-MM-DD HH:MM:SS' or ISO 8601; offsets are converted to UTC"),
+  equipment_type: text(z.string()),
+  loadboard_rate: numeric(z.number().positive()).describe('Posted rate in USD'),
+  notes: text(z.string().default('')),
+  weight: numeric(z.number().positive()).describe('Pounds'),
+  commodity_type: text(z.string()),
+  num_of_pieces: numeric(z.number().int().positive()),
+  miles: numeric(z.number().int().positive()),
+  dimensions: text(z.string()),
+  maximum_rate: numeric(z.number().positive()).describe('Highest rate the broker accepts; must be above loadboard_rate')
+};
+
+export const loadInputSchema = z.object(loadFields).superRefine((load, ctx) => {
+  // Mirrors CHECK (maximum_rate > loadboard_rate) on the LOADS table
+  if (load.maximum_rate <= load.loadboard_rate) {
+    ctx.addIssue({ code: 'custom', path: ['maximum_rate'], message: 'must be greater than loadboard_rate' });
+  }
+  if (load.delivery_datetime < load.pickup_datetime) {
+    ctx.addIssue({ code: 'custom', path: ['delivery_datetime'], message: 'must not be before pickup_datetime' });
+  }
+});
+
+export type LoadInput = z.output<typeof loadInputSchema>;
+
+/**
+ * Validates and normalizes a load payload (JSON body or CSV row).
+ * Numeric fields may arrive as strings and are coerced. When `existing` is
+ * passed the input is treated as a partial update merged on top of it.
+ */
+export function validateLoadInput(input: unknown, existing?: LoadInput): LoadValidationResult {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { load: null, errors: [{ field: '', message: 'Load must be an object' }] };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const merged: Record<string, unknown> = {};
+  for (const field of Object.keys(loadFields) as Array<keyof LoadInput>) {
+    merged[field] = raw[field] === undefined && existing ? existing[field] : raw[field];
+  }
+
+  const { data, errors } = parseInput(loadInputSchema, merged);
+  return { load: data, errors };
+}
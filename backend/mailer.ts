@@ -0,0 +1,115 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import { randomBytes } from 'crypto';
+import nodemailer from 'nodemailer';
+
+// Sends email through a transport picked with MAIL_TRANSPORT: smtp, or file
+// and console for local testing. Other transports can be added with
+// registerMailTransport.
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // TLS from the start (usually port 465); otherwise STARTTLS when offered
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+/** Sends through an SMTP server, one connection per message. */
+export function createSmtpTransport(options: SmtpOptions): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    // Credentials never go over a plain connection: when the server does not
+    // offer STARTTLS (or it was stripped) the send fails instead
+    requireTLS: !options.secure && Boolean(options.user),
+    auth: options.user ? { user: options.user, pass: options.password ?? '' } : undefined,
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS
+  });
+  return {
+    name: 'smtp',
+    async send(message: MailMessage): Promise<void> {
+      await transporter.sendMail(message);
+    }
+  };
+}
+
+/** Writes each message to an .eml file in the directory, to open in a mail client. */
+export function createFileTransport(directory: string): MailTransport {
+  // Builds the message exactly as SMTP would send it, without sending it
+  const composer = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'windows' });
+  return {
+    name: 'file',
+    async send(message: MailMessage): Promise<void> {
+      const { message: raw } = await composer.sendMail(message);
+      await fs.mkdir(directory, { recursive: true });
+      const file = path.join(directory, `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomBytes(3).toString('hex')}.eml`);
+      await fs.writeFile(file, raw);
+      console.log(`Wrote email "${message.subject}" to ${file}`);
+    }
+  };
+}
+
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    async send(message: MailMessage): Promise<void> {
+      console.log(`Email to ${message.to.join(', ')}: ${message.subject}\n\n${message.text}`);
+    }
+  };
+}
+
+const transports = new Map<string, () => MailTransport>([
+  ['smtp', () => {
+    if (!process.env.SMTP_HOST) {
+      throw new Error('SMTP_HOST is not set');
+    }
+    const secure = process.env.SMTP_SECURE === 'true';
+    return createSmtpTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+      secure,
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD
+    });
+  }],
+  ['file', () => createFileTransport(process.env.MAIL_OUTPUT_DIR || './mail')],
+  ['console', createConsoleTransport]
+]);
+
+/** Makes a transport available as MAIL_TRANSPORT=name. */
+export function registerMailTransport(name: string, create: () => MailTransport): void {
+  transports.set(name, create);
+}
+
+/**
+ * The configured transport: MAIL_TRANSPORT, or smtp when SMTP_HOST is set and
+ * console otherwise.
+ */
+export function getMailTransport(): MailTransport {
+  const name = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console');
+  const create = transports.get(name);
+  if (!create) {
+    throw new Error(`Unknown MAIL_TRANSPORT: ${name}`);
+  }
+  return create();
+}
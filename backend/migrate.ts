@@ -0,0 +1,104 @@
+import { getDatabase } from './database';
+import { migrateUp, migrateDown, getMigrationStatus, clearMigrationLock, MigrationError } from './migrator';
+import { Migration } from './migrations';
+
+require('dotenv').config();
+
+// Command line for the schema migrations, against DATABASE_PATH:
+//   migrate status
+//   migrate up [--to <version>] [--dry-run]
+//   migrate down [--to <version>] [--dry-run]
+//   migrate unlock
+// The server applies pending migrations on startup; this is for inspecting
+// them and for rolling back.
+
+const USAGE = 'Usage: migrate <status|up|down|unlock> [--to <version>] [--dry-run]';
+
+interface Args {
+  command: string;
+  to?: number;
+  dryRun: boolean;
+}
+
+function parseArgs(argv: string[]): Args | null {
+  const [command, ...rest] = argv;
+  const args: Args = { command, dryRun: false };
+  for (let i = 0; i < rest.length; i++) {
+    if (rest[i] === '--dry-run') {
+      args.dryRun = true;
+    } else if (rest[i] === '--to') {
+      const to = Number(rest[++i]);
+      if (!Number.isInteger(to) || to < 0) {
+        return null;
+      }
+      args.to = to;
+    } else {
+      return null;
+    }
+  }
+  return ['status', 'up', 'down', 'unlock'].includes(command) ? args : null;
+}
+
+// Re-indents a migration's SQL by two spaces, keeping its nesting
+function indent(sql: string): string {
+  const lines = sql.replace(/^\s*\n|\s+$/g, '').split('\n');
+  const margin = Math.min(...lines.filter(line => line.trim() !== '').map(line => line.search(/\S/)));
+  return lines.map(line => line.trim() === '' ? '' : `  ${line.slice(margin)}`).join('\n');
+}
+
+// Real runs are logged by the migrator as each migration completes
+function printMigrations(verb: string, migrations: Migration[], dryRun: boolean, sql: (migration: Migration) => string): void {
+  if (migrations.length === 0) {
+    console.log(`Nothing to ${verb}`);
+    return;
+  }
+  if (!dryRun) {
+    return;
+  }
+  for (const migration of migrations) {
+    console.log(`Would ${verb} ${migration.version} (${migration.name}):`);
+    console.log(indent(sql(migration)));
+  }
+  console.log('Dry run: the statements ran and were rolled back');
+}
+
+async function main(): Promise<number> {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  switch (args.command) {
+    case 'status': {
+      const statuses = await getMigrationStatus();
+      for (const status of statuses) {
+        console.log([
+          String(status.version).padStart(4),
+          status.name.padEnd(32),
+          status.state.padEnd(8),
+          status.applied_at ?? ''
+        ].join('  ').trimEnd());
+      }
+      return statuses.some(status => status.state === 'changed' || status.state === 'unknown') ? 1 : 0;
+    }
+    case 'up':
+      printMigrations('apply', await migrateUp({ to: args.to, dryRun: args.dryRun }), args.dryRun, migration => migration.up);
+      return 0;
+    case 'down':
+      printMigrations('roll back', await migrateDown({ to: args.to, dryRun: args.dryRun }), args.dryRun, migration => migration.down ?? '');
+      return 0;
+    default:
+      console.log(await clearMigrationLock() ? 'Migration lock cleared' : 'Migrations were not locked');
+      return 0;
+  }
+}
+
+main()
+  .catch(error => {
+    console.error(error instanceof MigrationError ? error.message : error);
+    return 1;
+  })
+  .then(code => {
+    getDatabase().close(() => process.exit(code));
+  });
@@ -0,0 +1,371 @@
+// Schema migrations, applied in version order by migrator.ts. An applied
+// migration must never be edited: its checksum is recorded and the server
+// refuses to start when it no longer matches. Change the schema by adding
+// a migration with the next version instead.
+
+export interface Migration {
+  version: number;
+  name: string;
+  // SQL run inside one transaction; may hold several statements
+  up: string;
+  // Reverts up; migrations without one cannot be rolled back
+  down?: string;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'baseline',
+    // IF NOT EXISTS so databases created before migrations existed adopt it;
+    // see adoptLegacyDatabase for the columns those may lack
+    up: `
+      CREATE TABLE IF NOT EXISTS LOADS (
+        load_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        origin TEXT NOT NULL,
+        destination TEXT NOT NULL,
+        pickup_datetime TEXT NOT NULL,
+        delivery_datetime TEXT NOT NULL,
+        equipment_type TEXT NOT NULL,
+        loadboard_rate REAL NOT NULL,
+        notes TEXT,
+        weight REAL NOT NULL,
+        commodity_type TEXT NOT NULL,
+        num_of_pieces INTEGER NOT NULL,
+        miles INTEGER NOT NULL,
+        dimensions TEXT NOT NULL,
+        maximum_rate REAL NOT NULL,
+        origin_lat REAL,
+        origin_lng REAL,
+        destination_lat REAL,
+        destination_lng REAL,
+        status TEXT NOT NULL DEFAULT 'available',
+        CHECK (maximum_rate > loadboard_rate)
+      );
+
+      CREATE TABLE IF NOT EXISTS CALLS (
+        id TEXT PRIMARY KEY,
+        duration INTEGER NOT NULL,
+        mc_number INTEGER NOT NULL,
+        final_offer INTEGER NOT NULL,
+        final_counter_offer INTEGER NOT NULL,
+        offer_iterations INTEGER NOT NULL,
+        successful INTEGER NOT NULL,
+        sentiment TEXT NOT NULL,
+        negotiation_id TEXT,
+        load_id INTEGER REFERENCES LOADS(load_id),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Loads pitched on each call
+      CREATE TABLE IF NOT EXISTS CALL_LOADS (
+        call_id TEXT NOT NULL REFERENCES CALLS(id),
+        load_id INTEGER NOT NULL REFERENCES LOADS(load_id),
+        PRIMARY KEY (call_id, load_id)
+      );
+
+      -- One row per status change of a load
+      CREATE TABLE IF NOT EXISTS LOAD_STATUS_HISTORY (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        load_id INTEGER NOT NULL REFERENCES LOADS(load_id),
+        from_status TEXT NOT NULL,
+        to_status TEXT NOT NULL,
+        reason TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_load_status_history_load ON LOAD_STATUS_HISTORY (load_id);
+
+      -- Reservations of a load for a call, at most one active per load
+      CREATE TABLE IF NOT EXISTS LOAD_HOLDS (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        load_id INTEGER NOT NULL REFERENCES LOADS(load_id),
+        call_id TEXT NOT NULL,
+        mc_number INTEGER,
+        status TEXT NOT NULL DEFAULT 'active',
+        expires_at TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        ended_at DATETIME,
+        CHECK (status IN ('active', 'booked', 'released', 'expired'))
+      );
+
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_load_holds_active ON LOAD_HOLDS (load_id) WHERE status = 'active';
+
+      -- Only a SHA-256 hash of each key is stored, scopes are space-separated
+      CREATE TABLE IF NOT EXISTS API_KEYS (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        key_prefix TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        scopes TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expires_at TEXT,
+        last_used_at TEXT,
+        revoked_at DATETIME,
+        rotated_from INTEGER REFERENCES API_KEYS(id)
+      );
+
+      -- Dashboard accounts, passwords hashed with scrypt
+      CREATE TABLE IF NOT EXISTS USERS (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        email TEXT NOT NULL UNIQUE,
+        name TEXT NOT NULL,
+        role TEXT NOT NULL DEFAULT 'viewer',
+        disabled INTEGER NOT NULL DEFAULT 0,
+        password_hash TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        last_login_at DATETIME,
+        CHECK (role IN ('viewer', 'analyst', 'admin'))
+      );
+
+      -- Cookie sessions, keyed by a hash of the token
+      CREATE TABLE IF NOT EXISTS SESSIONS (
+        token_hash TEXT PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES USERS(id),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expires_at TEXT NOT NULL
+      );
+
+      -- Token bucket limits per path prefix
+      CREATE TABLE IF NOT EXISTS RATE_LIMIT_RULES (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        path_prefix TEXT NOT NULL,
+        method TEXT NOT NULL DEFAULT '*',
+        subject TEXT NOT NULL,
+        capacity REAL NOT NULL,
+        refill_per_minute REAL NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        CHECK (subject IN ('ip', 'key', 'auth_failure'))
+      );
+
+      -- One row per negotiation session, the server owns current_offer and
+      -- the round count
+      CREATE TABLE IF NOT EXISTS NEGOTIATIONS (
+        id TEXT PRIMARY KEY,
+        load_id INTEGER NOT NULL REFERENCES LOADS(load_id),
+        call_id TEXT,
+        mc_number INTEGER,
+        status TEXT NOT NULL DEFAULT 'open',
+        initial_offer REAL NOT NULL,
+        current_offer REAL NOT NULL,
+        last_counter_offer REAL,
+        round_count INTEGER NOT NULL DEFAULT 0,
+        max_rounds INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        closed_at DATETIME,
+        CHECK (status IN ('open', 'accepted', 'rejected'))
+      );
+
+      -- Every carrier counter and our response
+      CREATE TABLE IF NOT EXISTS NEGOTIATION_ROUNDS (
+        negotiation_id TEXT NOT NULL REFERENCES NEGOTIATIONS(id),
+        round INTEGER NOT NULL,
+        offered_rate REAL NOT NULL,
+        counter_offer REAL NOT NULL,
+        new_rate REAL NOT NULL,
+        strategy_id INTEGER,
+        strategy_name TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (negotiation_id, round)
+      );
+
+      -- Configurable counter-offer rules
+      CREATE TABLE IF NOT EXISTS NEGOTIATION_STRATEGIES (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE,
+        type TEXT NOT NULL,
+        concession_fraction REAL NOT NULL DEFAULT 0.5,
+        step_amount REAL,
+        decay_rate REAL,
+        floor_pct REAL NOT NULL DEFAULT 0,
+        rounding_increment REAL NOT NULL DEFAULT 100,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        CHECK (type IN ('split_difference', 'fixed_step', 'decaying'))
+      );
+
+      -- Which strategy applies to a load, an equipment type (lower-cased) or
+      -- globally (empty scope_value)
+      CREATE TABLE IF NOT EXISTS STRATEGY_ASSIGNMENTS (
+        scope TEXT NOT NULL,
+        scope_value TEXT NOT NULL DEFAULT '',
+        strategy_id INTEGER NOT NULL REFERENCES NEGOTIATION_STRATEGIES(id),
+        PRIMARY KEY (scope, scope_value),
+        CHECK (scope IN ('load', 'equipment_type', 'global'))
+      );
+
+      -- Carrier registry keyed by MC number, loaded from FMCSA-style snapshot
+      -- files. equipment is a JSON array.
+      CREATE TABLE IF NOT EXISTS CARRIERS (
+        mc_number INTEGER PRIMARY KEY,
+        dot_number INTEGER,
+        company_name TEXT NOT NULL,
+        authority_status TEXT NOT NULL,
+        insurance_expiry TEXT,
+        equipment TEXT NOT NULL DEFAULT '[]',
+        do_not_use INTEGER NOT NULL DEFAULT 0,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        CHECK (authority_status IN ('active', 'inactive', 'revoked', 'pending'))
+      );
+    `
+    // No down: it would drop every table
+  },
+  {
+    version: 2,
+    name: 'call_details',
+    up: `
+      ALTER TABLE CALLS ADD COLUMN outcome TEXT
+        CHECK (outcome IN ('booked', 'rate_too_high', 'no_matching_load', 'carrier_ineligible', 'transferred', 'hung_up'));
+      ALTER TABLE CALLS ADD COLUMN transcript TEXT;
+      -- Extracted from the conversation by the voice agent
+      ALTER TABLE CALLS ADD COLUMN current_location TEXT;
+      ALTER TABLE CALLS ADD COLUMN equipment_type TEXT;
+
+      -- Successful calls always booked their load
+      UPDATE CALLS SET outcome = 'booked' WHERE successful = 1;
+
+      -- Free-form labels, lower-cased
+      CREATE TABLE CALL_TAGS (
+        call_id TEXT NOT NULL REFERENCES CALLS(id),
+        tag TEXT NOT NULL,
+        PRIMARY KEY (call_id, tag)
+      );
+
+      CREATE INDEX idx_call_tags_tag ON CALL_TAGS (tag);
+
+      -- Transcript search. A standalone index keyed by call id rather than an
+      -- external-content one, since CALLS has no stable integer rowid.
+      CREATE VIRTUAL TABLE CALLS_FTS USING fts5(call_id UNINDEXED, transcript);
+
+      CREATE TRIGGER calls_fts_insert AFTER INSERT ON CALLS WHEN new.transcript IS NOT NULL BEGIN
+        INSERT INTO CALLS_FTS (call_id, transcript) VALUES (new.id, new.transcript);
+      END;
+
+      CREATE TRIGGER calls_fts_update AFTER UPDATE OF transcript ON CALLS BEGIN
+        DELETE FROM CALLS_FTS WHERE call_id = old.id;
+        INSERT INTO CALLS_FTS (call_id, transcript) SELECT new.id, new.transcript WHERE new.transcript IS NOT NULL;
+      END;
+
+      CREATE TRIGGER calls_fts_delete AFTER DELETE ON CALLS BEGIN
+        DELETE FROM CALLS_FTS WHERE call_id = old.id;
+      END;
+    `,
+    down: `
+      DROP TRIGGER calls_fts_delete;
+      DROP TRIGGER calls_fts_update;
+      DROP TRIGGER calls_fts_insert;
+      DROP TABLE CALLS_FTS;
+      DROP TABLE CALL_TAGS;
+      ALTER TABLE CALLS DROP COLUMN equipment_type;
+      ALTER TABLE CALLS DROP COLUMN current_location;
+      ALTER TABLE CALLS DROP COLUMN transcript;
+      ALTER TABLE CALLS DROP COLUMN outcome;
+    `
+  },
+  {
+    version: 3,
+    name: 'calls_created_at_index',
+    up: `
+      -- The dashboard aggregates calls by time range
+      CREATE INDEX idx_calls_created_at ON CALLS (created_at);
+    `,
+    down: `
+      DROP INDEX idx_calls_created_at;
+    `
+  },
+  {
+    version: 4,
+    name: 'webhooks',
+    up: `
+      CREATE TABLE WEBHOOKS (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        url TEXT NOT NULL,
+        -- Space-separated event types
+        events TEXT NOT NULL,
+        -- Signs deliveries, so it is kept in plain text
+        secret TEXT NOT NULL,
+        description TEXT,
+        active INTEGER NOT NULL DEFAULT 1,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Outbox of events to send; rows are kept as the delivery log
+      CREATE TABLE WEBHOOK_DELIVERIES (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        webhook_id INTEGER NOT NULL REFERENCES WEBHOOKS(id),
+        event_id TEXT NOT NULL,
+        event TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        last_attempt_at DATETIME,
+        response_status INTEGER,
+        last_error TEXT,
+        delivered_at DATETIME,
+        -- The delivery this one repeats, for manual redeliveries
+        redelivery_of INTEGER REFERENCES WEBHOOK_DELIVERIES(id),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        CHECK (status IN ('pending', 'delivered', 'failed'))
+      );
+
+      CREATE INDEX idx_webhook_deliveries_due ON WEBHOOK_DELIVERIES (status, next_attempt_at);
+      CREATE INDEX idx_webhook_deliveries_webhook ON WEBHOOK_DELIVERIES (webhook_id, id);
+    `,
+    down: `
+      DROP TABLE WEBHOOK_DELIVERIES;
+      DROP TABLE WEBHOOKS;
+    `
+  },
+  {
+    version: 5,
+    name: 'reports',
+    up: `
+      -- Daily and weekly performance reports, rendered when generated
+      CREATE TABLE REPORTS (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        period TEXT NOT NULL,
+        -- Local day, or the Monday the week starts, in tz
+        label TEXT NOT NULL,
+        tz TEXT NOT NULL,
+        range_start DATETIME NOT NULL,
+        range_end DATETIME NOT NULL,
+        -- The figures as JSON
+        summary TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        html TEXT NOT NULL,
+        text TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'generated',
+        -- Comma-separated addresses of the last send
+        recipients TEXT,
+        sent_at DATETIME,
+        last_error TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (period, tz, range_start),
+        CHECK (period IN ('daily', 'weekly')),
+        CHECK (status IN ('generated', 'sent', 'failed'))
+      );
+    `,
+    down: `
+      DROP TABLE REPORTS;
+    `
+  }
+];
+
+// Columns added with ALTER TABLE before migrations existed. Databases from
+// that time may lack any of them when they first adopt the baseline.
+export const LEGACY_COLUMNS: Array<{ table: string; column: string; definition: string }> = [
+  // SQLite cannot add a column with a CURRENT_TIMESTAMP default
+  { table: 'CALLS', column: 'created_at', definition: 'DATETIME' },
+  { table: 'CALLS', column: 'negotiation_id', definition: 'TEXT' },
+  { table: 'CALLS', column: 'load_id', definition: 'INTEGER REFERENCES LOADS(load_id)' },
+  { table: 'LOADS', column: 'status', definition: "TEXT NOT NULL DEFAULT 'available'" },
+  { table: 'LOADS', column: 'origin_lat', definition: 'REAL' },
+  { table: 'LOADS', column: 'origin_lng', definition: 'REAL' },
+  { table: 'LOADS', column: 'destination_lat', definition: 'REAL' },
+  { table: 'LOADS', column: 'destination_lng', definition: 'REAL' },
+  { table: 'NEGOTIATION_ROUNDS', column: 'strategy_id', definition: 'INTEGER' },
+  { table: 'NEGOTIATION_ROUNDS', column: 'strategy_name', definition: 'TEXT' }
+];
@@ -0,0 +1,261 @@
+import { createHash } from 'crypto';
+import os from 'os';
+import { runQuery, getQuery, allQuery, execQuery } from './database';
+import { MIGRATIONS, LEGACY_COLUMNS, Migration } from './migrations';
+
+// How long to wait for another process to finish migrating
+const LOCK_WAIT_MS = 30 * 1000;
+const LOCK_RETRY_MS = 500;
+// A lock this old was left behind by a process that died mid-run
+const LOCK_STALE_MINUTES = 10;
+
+export class MigrationError extends Error {}
+
+export class MigrationLockError extends MigrationError {}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  // changed: applied, but the migration was edited since;
+  // unknown: applied by a newer build that this one does not know
+  state: 'applied' | 'pending' | 'changed' | 'unknown';
+  applied_at: string | null;
+}
+
+export interface MigrateOptions {
+  // Run the migrations inside a transaction that is rolled back
+  dryRun?: boolean;
+  // up: the last version to apply; down: the version to roll back to
+  to?: number;
+}
+
+interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: string;
+}
+
+// Only up is covered: fixing a broken down must not block startup
+export function migrationChecksum(migration: Migration): string {
+  return createHash('sha256').update(migration.up.trim()).digest('hex');
+}
+
+async function ensureMigrationTables(): Promise<void> {
+  await execQuery(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      execution_ms INTEGER NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- At most one row: the process currently migrating
+    CREATE TABLE IF NOT EXISTS schema_migrations_lock (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      owner TEXT NOT NULL,
+      acquired_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+}
+
+function getAppliedMigrations(): Promise<AppliedMigration[]> {
+  return allQuery<AppliedMigration>('SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version');
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function acquireLock(owner: string): Promise<void> {
+  const deadline = Date.now() + LOCK_WAIT_MS;
+  for (;;) {
+    await runQuery(`DELETE FROM schema_migrations_lock WHERE acquired_at < datetime('now', ?)`, [`-${LOCK_STALE_MINUTES} minutes`]);
+    const { changes } = await runQuery('INSERT OR IGNORE INTO schema_migrations_lock (id, owner) VALUES (1, ?)', [owner]);
+    if (changes === 1) {
+      return;
+    }
+    if (Date.now() >= deadline) {
+      const holder = await getQuery<{ owner: string; acquired_at: string }>('SELECT owner, acquired_at FROM schema_migrations_lock');
+      throw new MigrationLockError(holder
+        ? `Migrations are locked by ${holder.owner} since ${holder.acquired_at}; run "migrate unlock" if that process is gone`
+        : 'Could not acquire the migration lock');
+    }
+    await sleep(LOCK_RETRY_MS);
+  }
+}
+
+async function releaseLock(owner: string): Promise<void> {
+  await runQuery('DELETE FROM schema_migrations_lock WHERE owner = ?', [owner]);
+}
+
+/** Removes a lock left behind by a process that died while migrating. */
+export async function clearMigrationLock(): Promise<boolean> {
+  await ensureMigrationTables();
+  const { changes } = await runQuery('DELETE FROM schema_migrations_lock');
+  return changes > 0;
+}
+
+// Runs fn while holding the lock, and inside a single transaction that is
+// rolled back for dry runs. Real runs commit each migration on its own.
+async function underLock<T>(dryRun: boolean, fn: () => Promise<T>): Promise<T> {
+  await ensureMigrationTables();
+  const owner = `${os.hostname()}:${process.pid}`;
+  await acquireLock(owner);
+  try {
+    if (!dryRun) {
+      return await fn();
+    }
+    await runQuery('BEGIN IMMEDIATE');
+    try {
+      return await fn();
+    } finally {
+      await runQuery('ROLLBACK');
+    }
+  } finally {
+    await releaseLock(owner);
+  }
+}
+
+async function inTransaction(dryRun: boolean, fn: () => Promise<void>): Promise<void> {
+  if (dryRun) {
+    // Already inside the dry run's transaction
+    await fn();
+    return;
+  }
+  await runQuery('BEGIN IMMEDIATE');
+  try {
+    await fn();
+    await runQuery('COMMIT');
+  } catch (err) {
+    await runQuery('ROLLBACK');
+    throw err;
+  }
+}
+
+async function hasColumn(table: string, column: string): Promise<boolean> {
+  const columns = await allQuery<{ name: string }>(`PRAGMA table_info(${table})`);
+  return columns.some(entry => entry.name === column);
+}
+
+// Brings a database created before migrations existed up to the baseline;
+// a no-op on new databases
+async function adoptLegacyDatabase(): Promise<void> {
+  for (const { table, column, definition } of LEGACY_COLUMNS) {
+    if (!(await hasColumn(table, column))) {
+      await runQuery(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+  // Loads booked before the lifecycle statuses existed were marked covered
+  await runQuery(`UPDATE LOADS SET status = 'booked' WHERE status = 'covered'`);
+}
+
+// Refuses to work on a database whose applied migrations differ from ours
+function checkApplied(applied: AppliedMigration[]): void {
+  const problems: string[] = [];
+  for (const row of applied) {
+    const migration = MIGRATIONS.find(entry => entry.version === row.version);
+    if (!migration) {
+      problems.push(`${row.version} (${row.name}) is applied but unknown to this build`);
+    } else if (migrationChecksum(migration) !== row.checksum) {
+      problems.push(`${row.version} (${row.name}) was changed after it was applied`);
+    }
+  }
+  if (problems.length > 0) {
+    throw new MigrationError(`Schema migrations do not match the database: ${problems.join('; ')}`);
+  }
+}
+
+export async function getMigrationStatus(): Promise<MigrationStatus[]> {
+  await ensureMigrationTables();
+  const applied = new Map((await getAppliedMigrations()).map(row => [row.version, row]));
+
+  const statuses: MigrationStatus[] = MIGRATIONS.map(migration => {
+    const row = applied.get(migration.version);
+    if (!row) {
+      return { version: migration.version, name: migration.name, state: 'pending', applied_at: null };
+    }
+    const state = migrationChecksum(migration) === row.checksum ? 'applied' : 'changed';
+    return { version: migration.version, name: migration.name, state, applied_at: row.applied_at };
+  });
+  for (const row of applied.values()) {
+    if (!MIGRATIONS.some(migration => migration.version === row.version)) {
+      statuses.push({ version: row.version, name: row.name, state: 'unknown', applied_at: row.applied_at });
+    }
+  }
+  return statuses.sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Applies pending migrations in version order, each in its own transaction,
+ * while holding the migration lock. Returns the migrations that were (or, for
+ * a dry run, would have been) applied.
+ */
+export function migrateUp(options: MigrateOptions = {}): Promise<Migration[]> {
+  const { dryRun = false, to = Infinity } = options;
+  return underLock(dryRun, async () => {
+    const applied = await getAppliedMigrations();
+    checkApplied(applied);
+
+    const appliedVersions = new Set(applied.map(row => row.version));
+    const pending = [...MIGRATIONS]
+      .sort((a, b) => a.version - b.version)
+      .filter(migration => !appliedVersions.has(migration.version) && migration.version <= to);
+
+    for (const migration of pending) {
+      const started = Date.now();
+      await inTransaction(dryRun, async () => {
+        await execQuery(migration.up);
+        if (migration.version === 1) {
+          await adoptLegacyDatabase();
+        }
+        await runQuery(
+          'INSERT INTO schema_migrations (version, name, checksum, execution_ms) VALUES (?, ?, ?, ?)',
+          [migration.version, migration.name, migrationChecksum(migration), Date.now() - started]
+        );
+      });
+      if (!dryRun) {
+        console.log(`Applied migration ${migration.version} (${migration.name})`);
+      }
+    }
+    return pending;
+  });
+}
+
+/**
+ * Rolls back applied migrations newer than `to`, newest first; without `to`
+ * only the latest one. Nothing is rolled back when any of them has no down.
+ */
+export function migrateDown(options: MigrateOptions = {}): Promise<Migration[]> {
+  const { dryRun = false } = options;
+  return underLock(dryRun, async () => {
+    const applied = await getAppliedMigrations();
+    checkApplied(applied);
+    if (applied.length === 0) {
+      return [];
+    }
+
+    const to = options.to ?? (applied.length > 1 ? applied[applied.length - 2].version : 0);
+    const reverting = applied
+      .filter(row => row.version > to)
+      .reverse()
+      .map(row => MIGRATIONS.find(migration => migration.version === row.version) as Migration);
+
+    const irreversible = reverting.filter(migration => !migration.down);
+    if (irreversible.length > 0) {
+      throw new MigrationError(`Cannot roll back ${irreversible.map(migration => `${migration.version} (${migration.name})`).join(', ')}: no down migration`);
+    }
+
+    for (const migration of reverting) {
+      await inTransaction(dryRun, async () => {
+        await execQuery(migration.down as string);
+        await runQuery('DELETE FROM schema_migrations WHERE version = ?', [migration.version]);
+      });
+      if (!dryRun) {
+        console.log(`Rolled back migration ${migration.version} (${migration.name})`);
+      }
+    }
+    return reverting;
+  });
+}
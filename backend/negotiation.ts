@@ -0,0 +1,190 @@
+import { randomUUID } from 'crypto';
+import { runQuery, getQuery, allQuery, withTransaction } from './database';
+import { Load } from './schemas';
+import { publishEvent } from './events';
+import { calculateCounterRate, resolveStrategy, describeStrategy, NegotiationStrategy } from './negotiationStrategies';
+
+const DEFAULT_MAX_ROUNDS = Number(process.env.NEGOTIATION_MAX_ROUNDS) || 3;
+
+export type NegotiationStatus = 'open' | 'accepted' | 'rejected';
+
+export interface Negotiation {
+  id: string;
+  load_id: number;
+  call_id: string | null;
+  mc_number: number | null;
+  status: NegotiationStatus;
+  initial_offer: number;
+  current_offer: number;
+  last_counter_offer: number | null;
+  round_count: number;
+  max_rounds: number;
+  created_at: string;
+  updated_at: string;
+  closed_at: string | null;
+}
+
+export interface NegotiationRound {
+  round: number;
+  offered_rate: number;
+  counter_offer: number;
+  new_rate: number;
+  strategy_id: number | null;
+  strategy_name: string;
+  created_at: string;
+}
+
+// Thrown when an action is not allowed in the session's current state
+export class NegotiationConflictError extends Error {}
+
+export async function createNegotiation(
+  load: Load,
+  options: { call_id?: string; mc_number?: number; max_rounds?: number } = {}
+): Promise<Negotiation> {
+  const id = randomUUID();
+
+  return withTransaction(async () => {
+    // The opening offer is always the posted rate; the caller cannot set it
+    await runQuery(`
+      INSERT INTO NEGOTIATIONS (
+        id, load_id, call_id, mc_number, status, initial_offer, current_offer, max_rounds
+      ) VALUES (?, ?, ?, ?, 'open', ?, ?, ?)
+    `, [
+      id,
+      load.load_id,
+      options.call_id ?? null,
+      options.mc_number ?? null,
+      load.loadboard_rate,
+      load.loadboard_rate,
+      options.max_rounds ?? DEFAULT_MAX_ROUNDS
+    ]);
+
+    const negotiation = (await getNegotiation(id)) as Negotiation;
+    publishEvent({ type: 'negotiation.updated', data: negotiation });
+    return negotiation;
+  });
+}
+
+export async function getNegotiation(id: string): Promise<Negotiation | null> {
+  return getQuery<Negotiation>('SELECT * FROM NEGOTIATIONS WHERE id = ?', [id]);
+}
+
+// Most recent session opened for a call, for agents that pass call_id when
+// starting the negotiation instead of keeping track of the session id
+export async function getNegotiationForCall(call_id: string): Promise<Negotiation | null> {
+  return getQuery<Negotiation>(`
+    SELECT * FROM NEGOTIATIONS WHERE call_id = ? ORDER BY created_at DESC, rowid DESC LIMIT 1
+  `, [call_id]);
+}
+
+export async function getNegotiationRounds(id: string): Promise<NegotiationRound[]> {
+  return allQuery<NegotiationRound>(`
+    SELECT round, offered_rate, counter_offer, new_rate, strategy_id, strategy_name, created_at
+    FROM NEGOTIATION_ROUNDS
+    WHERE negotiation_id = ?
+    ORDER BY round ASC
+  `, [id]);
+}
+
+/**
+ * Records a carrier counter offer and responds with our next offer, computed
+ * from the server-side current offer by the strategy that applies to the
+ * load. Fails once the session is closed or its round limit has been reached.
+ */
+export async function submitCounterOffer(
+  id: string,
+  counter_offer: number,
+  load: Load
+): Promise<{ negotiation: Negotiation; round: NegotiationRound; strategy: NegotiationStrategy }> {
+  const strategy = await resolveStrategy(load);
+
+  return withTransaction(async () => {
+    const negotiation = await getNegotiation(id);
+    if (!negotiation) {
+      throw new NegotiationConflictError('Negotiation not found');
+    }
+    if (negotiation.status !== 'open') {
+      throw new NegotiationConflictError(`Negotiation is already ${negotiation.status}`);
+    }
+    if (negotiation.round_count >= negotiation.max_rounds) {
+      throw new NegotiationConflictError(`Maximum number of rounds (${negotiation.max_rounds}) reached`);
+    }
+
+    const roundNumber = negotiation.round_count + 1;
+    const new_rate = calculateCounterRate(strategy, {
+      loadboard_rate: load.loadboard_rate,
+      maximum_rate: load.maximum_rate,
+      offered_rate: negotiation.current_offer,
+      counter_offer,
+      round: roundNumber
+    });
+    const { id: strategy_id, name: strategy_name } = describeStrategy(strategy);
+
+    await runQuery(`
+      INSERT INTO NEGOTIATION_ROUNDS (
+        negotiation_id, round, offered_rate, counter_offer, new_rate, strategy_id, strategy_name
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [id, roundNumber, negotiation.current_offer, counter_offer, new_rate, strategy_id, strategy_name]);
+
+    await runQuery(`
+      UPDATE NEGOTIATIONS
+      SET current_offer = ?, last_counter_offer = ?, round_count = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `, [new_rate, counter_offer, roundNumber, id]);
+
+    const updated = (await getNegotiation(id)) as Negotiation;
+    publishEvent({ type: 'negotiation.updated', data: updated });
+    const rounds = await getNegotiationRounds(id);
+    return {
+      negotiation: updated,
+      round: rounds[rounds.length - 1],
+      strategy
+    };
+  });
+}
+
+export async function closeNegotiation(id: string, status: 'accepted' | 'rejected'): Promise<Negotiation> {
+  return withTransaction(async () => {
+    const result = await runQuery(`
+      UPDATE NEGOTIATIONS
+      SET status = ?, updated_at = CURRENT_TIMESTAMP, closed_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND status = 'open'
+    `, [status, id]);
+
+    const negotiation = await getNegotiation(id);
+    if (!negotiation) {
+      throw new NegotiationConflictError('Negotiation not found');
+    }
+    if (result.changes === 0) {
+      throw new NegotiationConflictError(`Negotiation is already ${negotiation.status}`);
+    }
+    publishEvent({ type: 'negotiation.updated', data: negotiation });
+    return negotiation;
+  });
+}
+
+// Sessions still open that were active in the last `minutes`, newest first,
+// so abandoned ones do not linger as calls in progress
+export async function getActiveNegotiations(minutes = 30): Promise<Negotiation[]> {
+  return allQuery<Negotiation>(`
+    SELECT * FROM NEGOTIATIONS
+    WHERE status = 'open' AND updated_at >= datetime('now', ?)
+    ORDER BY updated_at DESC, rowid DESC
+  `, [`-${minutes} minutes`]);
+}
+
+/**
+ * Call summary fields derived from a session: the rounds played, our last
+ * offer and the carrier's last counter (our offer when they never countered).
+ */
+export function summarizeNegotiation(negotiation: Negotiation): {
+  offer_iterations: number;
+  final_offer: number;
+  final_counter_offer: number;
+} {
+  return {
+    offer_iterations: negotiation.round_count,
+    final_offer: negotiation.current_offer,
+    final_counter_offer: negotiation.last_counter_offer ?? negotiation.current_offer
+  };
+}
@@ -0,0 +1,148 @@
+import express, { Request, Response } from 'express';
+import { getLoadById } from './database';
+import {
+  createNegotiation, getNegotiation, getNegotiationRounds, submitCounterOffer,
+  closeNegotiation, NegotiationConflictError
+} from './negotiation';
+import { describeStrategy } from './negotiationStrategies';
+import { enforceCarrierEligibility } from './carriers';
+import { validate } from './validation';
+import { describeRoute } from './openapi';
+import { negotiationCreateSchema, counterOfferSchema, NegotiationCreateInput, CounterOfferInput } from './schemas';
+
+export const negotiationRouter = express.Router();
+
+negotiationRouter.post('/', describeRoute({
+  operationId: 'createNegotiation',
+  summary: 'Start a negotiation session for a load',
+  description: 'The session tracks rounds and caps them at max_rounds.',
+  tag: 'Negotiations',
+  responses: {
+    201: 'The session with the opening offer',
+    403: 'Carrier is not eligible, or missing scope/role',
+    404: 'Load not found',
+    409: 'Load is not available'
+  }
+}), validate({ body: negotiationCreateSchema }), async (req: Request, res: Response) => {
+  try {
+    const { load_id, mc_number, max_rounds, call_id } = res.locals.body as NegotiationCreateInput;
+
+    const load = await getLoadById(load_id);
+    if (!load) {
+      res.status(404).json({ error: 'Load not found' });
+      return;
+    }
+
+    if (load.status !== 'available') {
+      res.status(409).json({ error: `Load is not available (status: ${load.status})` });
+      return;
+    }
+
+    const carrier = await enforceCarrierEligibility(mc_number, res);
+    if (carrier === undefined) {
+      return;
+    }
+
+    const negotiation = await createNegotiation(load, { call_id, mc_number, max_rounds });
+    res.status(201).json(carrier ? { ...negotiation, carrier } : negotiation);
+  } catch (error) {
+    console.error('Error creating negotiation:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+negotiationRouter.get('/:id', describeRoute({
+  operationId: 'getNegotiation',
+  summary: 'Fetch a negotiation session and its rounds',
+  tag: 'Negotiations',
+  responses: { 200: 'The session with its rounds', 404: 'Negotiation not found' }
+}), async (req: Request, res: Response) => {
+  try {
+    const negotiation = await getNegotiation(req.params.id);
+    if (!negotiation) {
+      res.status(404).json({ error: 'Negotiation not found' });
+      return;
+    }
+
+    const rounds = await getNegotiationRounds(negotiation.id);
+    res.json({ ...negotiation, rounds });
+  } catch (error) {
+    console.error('Error fetching negotiation:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+negotiationRouter.post('/:id/counter', describeRoute({
+  operationId: 'counterNegotiation',
+  summary: 'Record a counter offer and get our next offer',
+  tag: 'Negotiations',
+  responses: {
+    200: 'The updated session with our next offer',
+    404: 'Negotiation or load not found',
+    409: 'Session is closed, out of rounds or the load is not available'
+  }
+}), validate({ body: counterOfferSchema }), async (req: Request, res: Response) => {
+  try {
+    const { counter_offer } = res.locals.body as CounterOfferInput;
+
+    const existing = await getNegotiation(req.params.id);
+    if (!existing) {
+      res.status(404).json({ error: 'Negotiation not found' });
+      return;
+    }
+
+    const load = await getLoadById(existing.load_id);
+    if (!load) {
+      res.status(404).json({ error: 'Load not found' });
+      return;
+    }
+
+    if (load.status !== 'available') {
+      res.status(409).json({ error: `Load is not available (status: ${load.status})` });
+      return;
+    }
+
+    const { negotiation, round, strategy } = await submitCounterOffer(existing.id, counter_offer, load);
+    res.json({
+      new_rate: round.new_rate,
+      strategy: describeStrategy(strategy),
+      round: round.round,
+      rounds_remaining: negotiation.max_rounds - negotiation.round_count,
+      negotiation
+    });
+  } catch (error) {
+    if (error instanceof NegotiationConflictError) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+    console.error('Error submitting counter offer:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+for (const [action, status] of [['accept', 'accepted'], ['reject', 'rejected']] as const) {
+  negotiationRouter.post(`/:id/${action}`, describeRoute({
+    operationId: `${action}Negotiation`,
+    summary: `Close a negotiation session as ${status}`,
+    tag: 'Negotiations',
+    responses: { 200: 'The closed session', 404: 'Negotiation not found', 409: 'Session is already closed' }
+  }), async (req: Request, res: Response) => {
+    try {
+      const existing = await getNegotiation(req.params.id);
+      if (!existing) {
+        res.status(404).json({ error: 'Negotiation not found' });
+        return;
+      }
+
+      const negotiation = await closeNegotiation(existing.id, status);
+      res.json(negotiation);
+    } catch (error) {
+      if (error instanceof NegotiationConflictError) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      console.error(`Error closing negotiation (${action}):`, error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+}
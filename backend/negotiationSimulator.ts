@@ -0,0 +1,174 @@
+import { allQuery } from './database';
+import { calculateCounterRate, NegotiationStrategy } from './negotiationStrategies';
+
+interface HistoricalCall {
+  id: string;
+  final_offer: number;
+  final_counter_offer: number;
+  offer_iterations: number;
+  successful: number;
+  loadboard_rate: number;
+  maximum_rate: number;
+}
+
+export interface SimulationOptions {
+  from?: string;
+  to?: string;
+}
+
+interface OutcomeSummary {
+  accepted: number;
+  acceptance_rate: number;
+  avg_rate: number;
+  total_margin: number;
+  avg_margin_pct: number;
+}
+
+export interface RateBucket {
+  label: string;
+  actual: number;
+  projected: number;
+  delta: number;
+}
+
+export interface SimulationReport {
+  calls_replayed: number;
+  actual: OutcomeSummary;
+  projected: OutcomeSummary;
+  delta: OutcomeSummary;
+  rate_distribution: RateBucket[];
+  calls: Array<{
+    id: string;
+    actual_rate: number | null;
+    projected_rate: number | null;
+    projected_rounds: number;
+  }>;
+}
+
+// Booked rate as a share of maximum_rate
+const RATE_BUCKETS: Array<{ label: string; max: number }> = [
+  { label: '< 70%', max: 0.7 },
+  { label: '70-80%', max: 0.8 },
+  { label: '80-90%', max: 0.9 },
+  { label: '90-100%', max: Infinity }
+];
+
+/**
+ * Replays one call against a strategy. The carrier is assumed to accept any
+ * offer at or above the rate they actually accepted (successful calls) or
+ * their last counter (failed calls), and to hang up after the same number of
+ * rounds as in reality.
+ */
+function replayCall(strategy: NegotiationStrategy, call: HistoricalCall): { rate: number | null; rounds: number } {
+  const threshold = call.successful ? call.final_offer : call.final_counter_offer;
+  const maxRounds = Math.max(call.offer_iterations, 1);
+
+  let offered_rate = call.loadboard_rate;
+  if (offered_rate >= threshold) {
+    return { rate: offered_rate, rounds: 0 };
+  }
+
+  for (let round = 1; round <= maxRounds; round++) {
+    offered_rate = calculateCounterRate(strategy, {
+      loadboard_rate: call.loadboard_rate,
+      maximum_rate: call.maximum_rate,
+      offered_rate,
+      counter_offer: call.final_counter_offer,
+      round
+    });
+    if (offered_rate >= threshold) {
+      return { rate: offered_rate, rounds: round };
+    }
+  }
+
+  return { rate: null, rounds: maxRounds };
+}
+
+function summarize(outcomes: Array<{ rate: number | null; maximum_rate: number }>): OutcomeSummary {
+  const accepted = outcomes.filter(o => o.rate !== null) as Array<{ rate: number; maximum_rate: number }>;
+  const total_rate = accepted.reduce((sum, o) => sum + o.rate, 0);
+  const total_margin = accepted.reduce((sum, o) => sum + (o.maximum_rate - o.rate), 0);
+  const margin_pct = accepted.reduce((sum, o) => sum + (o.maximum_rate - o.rate) / o.maximum_rate, 0);
+
+  return {
+    accepted: accepted.length,
+    acceptance_rate: outcomes.length > 0 ? (accepted.length / outcomes.length) * 100 : 0,
+    avg_rate: accepted.length > 0 ? total_rate / accepted.length : 0,
+    total_margin,
+    avg_margin_pct: accepted.length > 0 ? (margin_pct / accepted.length) * 100 : 0
+  };
+}
+
+function bucketIndex(rate: number, maximum_rate: number): number {
+  const share = rate / maximum_rate;
+  return RATE_BUCKETS.findIndex(bucket => share < bucket.max);
+}
+
+/**
+ * Backtests a strategy against recorded calls that can be tied to a load,
+ * directly or through their negotiation session, using the same
+ * calculateCounterRate as the live negotiation endpoints.
+ */
+export async function simulateStrategy(strategy: NegotiationStrategy, options: SimulationOptions = {}): Promise<SimulationReport> {
+  const conditions: string[] = [];
+  const params: string[] = [];
+  if (options.from) {
+    conditions.push('c.created_at >= ?');
+    params.push(options.from);
+  }
+  if (options.to) {
+    conditions.push('c.created_at <= ?');
+    params.push(options.to);
+  }
+
+  const calls = await allQuery<HistoricalCall>(`
+    SELECT c.id, c.final_offer, c.final_counter_offer, c.offer_iterations, c.successful,
+           l.loadboard_rate, l.maximum_rate
+    FROM CALLS c
+    LEFT JOIN NEGOTIATIONS n ON n.id = c.negotiation_id
+    JOIN LOADS l ON l.load_id = COALESCE(c.load_id, n.load_id)
+    ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+    ORDER BY c.created_at ASC
+  `, params);
+
+  const replays = calls.map(call => ({ call, ...replayCall(strategy, call) }));
+
+  const actual = summarize(calls.map(call => ({
+    rate: call.successful ? call.final_offer : null,
+    maximum_rate: call.maximum_rate
+  })));
+  const projected = summarize(replays.map(r => ({ rate: r.rate, maximum_rate: r.call.maximum_rate })));
+
+  const rate_distribution: RateBucket[] = RATE_BUCKETS.map(bucket => ({ label: bucket.label, actual: 0, projected: 0, delta: 0 }));
+  for (const { call, rate } of replays) {
+    if (call.successful) {
+      rate_distribution[bucketIndex(call.final_offer, call.maximum_rate)].actual++;
+    }
+    if (rate !== null) {
+      rate_distribution[bucketIndex(rate, call.maximum_rate)].projected++;
+    }
+  }
+  rate_distribution.forEach(bucket => {
+    bucket.delta = bucket.projected - bucket.actual;
+  });
+
+  return {
+    calls_replayed: calls.length,
+    actual,
+    projected,
+    delta: {
+      accepted: projected.accepted - actual.accepted,
+      acceptance_rate: projected.acceptance_rate - actual.acceptance_rate,
+      avg_rate: projected.avg_rate - actual.avg_rate,
+      total_margin: projected.total_margin - actual.total_margin,
+      avg_margin_pct: projected.avg_margin_pct - actual.avg_margin_pct
+    },
+    rate_distribution,
+    calls: replays.map(({ call, rate, rounds }) => ({
+      id: call.id,
+      actual_rate: call.successful ? call.final_offer : null,
+      projected_rate: rate,
+      projected_rounds: rounds
+    }))
+  };
+}
@@ -0,0 +1,226 @@
+import { z } from 'zod';
+import { runQuery, getQuery, allQuery } from './database';
+import { Load } from './schemas';
+import { FieldError } from './loadValidation';
+import { text, numeric, parseInput } from './validation';
+
+export const STRATEGY_TYPES = ['split_difference', 'fixed_step', 'decaying'] as const;
+
+export type StrategyType = typeof STRATEGY_TYPES[number];
+
+export interface NegotiationStrategy {
+  id: number | null;
+  name: string;
+  type: StrategyType;
+  // split_difference: share of the gap conceded each round.
+  // decaying: share conceded in round 1, multiplied by decay_rate every round after.
+  concession_fraction: number;
+  // fixed_step: amount added to our offer each round
+  step_amount: number | null;
+  decay_rate: number | null;
+  // Never counter below loadboard_rate * (1 + floor_pct / 100); null for no
+  // floor at all
+  floor_pct: number | null;
+  rounding_increment: number;
+}
+
+export type StrategyInput = Omit<NegotiationStrategy, 'id'>;
+
+export const ASSIGNMENT_SCOPES = ['load', 'equipment_type', 'global'] as const;
+
+export type AssignmentScope = typeof ASSIGNMENT_SCOPES[number];
+
+export interface StrategyAssignment {
+  scope: AssignmentScope;
+  scope_value: string;
+  strategy_id: number;
+}
+
+// The original /api/negotiate behaviour, used when nothing is assigned. It has
+// no floor: the original only ever conceded from offered_rate, even below the
+// load's loadboard_rate.
+export const DEFAULT_STRATEGY: NegotiationStrategy = {
+  id: null,
+  name: 'default',
+  type: 'split_difference',
+  concession_fraction: 0.5,
+  step_amount: null,
+  decay_rate: null,
+  floor_pct: null,
+  rounding_increment: 100
+};
+
+export interface NegotiationContext {
+  loadboard_rate: number;
+  maximum_rate: number;
+  offered_rate: number;
+  counter_offer: number;
+  round: number;
+}
+
+/**
+ * Computes our counter offer. Every strategy concedes from offered_rate
+ * towards the carrier's counter (capped at maximum_rate), then the result is
+ * rounded, raised to the floor (if any) and finally clamped so it never exceeds
+ * maximum_rate or the counter itself.
+ */
+export function calculateCounterRate(strategy: NegotiationStrategy, context: NegotiationContext): number {
+  const { loadboard_rate, maximum_rate, offered_rate, counter_offer, round } = context;
+  const target = Math.min(counter_offer, maximum_rate);
+  const gap = target - offered_rate;
+
+  let provisional_rate: number;
+  switch (strategy.type) {
+    case 'fixed_step':
+      provisional_rate = offered_rate + Math.min(strategy.step_amount || 0, Math.max(gap, 0));
+      break;
+    case 'decaying': {
+      const fraction = strategy.concession_fraction * Math.pow(strategy.decay_rate ?? 1, Math.max(round - 1, 0));
+      provisional_rate = offered_rate + gap * fraction;
+      break;
+    }
+    case 'split_difference':
+    default:
+      provisional_rate = offered_rate + gap * strategy.concession_fraction;
+      break;
+  }
+
+  const increment = strategy.rounding_increment > 0 ? strategy.rounding_increment : 1;
+  let new_rate = Math.round(provisional_rate / increment) * increment;
+  if (strategy.floor_pct !== null) {
+    new_rate = Math.max(new_rate, loadboard_rate * (1 + strategy.floor_pct / 100));
+  }
+
+  return Math.min(new_rate, maximum_rate, counter_offer);
+}
+
+// The writable fields of a strategy; parameters a type does not use may be left out
+const strategyFields = {
+  name: text(z.string()),
+  type: text(z.enum(STRATEGY_TYPES)),
+  concession_fraction: numeric(z.number().gt(0).max(1).default(0.5)),
+  step_amount: numeric(z.number().positive().nullable().default(null)),
+  decay_rate: numeric(z.number().gt(0).max(1).nullable().default(null)),
+  floor_pct: numeric(z.number().nonnegative().default(0)),
+  rounding_increment: numeric(z.number().positive().default(100))
+};
+
+export const strategyInputSchema = z.object(strategyFields).superRefine((strategy, ctx) => {
+  if (strategy.type === 'fixed_step' && strategy.step_amount === null) {
+    ctx.addIssue({ code: 'custom', path: ['step_amount'], message: 'is required for fixed_step strategies' });
+  }
+  if (strategy.type === 'decaying' && strategy.decay_rate === null) {
+    ctx.addIssue({ code: 'custom', path: ['decay_rate'], message: 'is required for decaying strategies' });
+  }
+});
+
+/**
+ * Validates a strategy. With `existing`, fields left out of the input keep
+ * their current values and the merged strategy is validated as a whole.
+ */
+export function validateStrategyInput(input: unknown, existing?: StrategyInput): { strategy: StrategyInput | null; errors: FieldError[] } {
+  let merged = input;
+  if (existing && typeof input === 'object' && input !== null && !Array.isArray(input)) {
+    const raw = input as Record<string, unknown>;
+    merged = Object.fromEntries((Object.keys(strategyFields) as Array<keyof StrategyInput>)
+      .map(field => [field, raw[field] === undefined ? existing[field] : raw[field]]));
+  }
+
+  const { data, errors } = parseInput(strategyInputSchema, merged);
+  return { strategy: data, errors };
+}
+
+export async function listStrategies(): Promise<NegotiationStrategy[]> {
+  return allQuery<NegotiationStrategy>('SELECT * FROM NEGOTIATION_STRATEGIES ORDER BY id');
+}
+
+export async function getStrategy(id: number): Promise<NegotiationStrategy | null> {
+  return getQuery<NegotiationStrategy>('SELECT * FROM NEGOTIATION_STRATEGIES WHERE id = ?', [id]);
+}
+
+const STRATEGY_COLUMNS: Array<keyof StrategyInput> = [
+  'name', 'type', 'concession_fraction', 'step_amount', 'decay_rate', 'floor_pct', 'rounding_increment'
+];
+
+export async function createStrategy(strategy: StrategyInput): Promise<NegotiationStrategy> {
+  const result = await runQuery(`
+    INSERT INTO NEGOTIATION_STRATEGIES (${STRATEGY_COLUMNS.join(', ')})
+    VALUES (${STRATEGY_COLUMNS.map(() => '?').join(', ')})
+  `, STRATEGY_COLUMNS.map(column => strategy[column]));
+
+  return { id: result.lastID, ...strategy };
+}
+
+export async function updateStrategy(id: number, strategy: StrategyInput): Promise<NegotiationStrategy | null> {
+  const result = await runQuery(`
+    UPDATE NEGOTIATION_STRATEGIES
+    SET ${STRATEGY_COLUMNS.map(column => `${column} = ?`).join(', ')}, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `, [...STRATEGY_COLUMNS.map(column => strategy[column]), id]);
+
+  return result.changes > 0 ? { id, ...strategy } : null;
+}
+
+export async function deleteStrategy(id: number): Promise<boolean> {
+  const result = await runQuery('DELETE FROM NEGOTIATION_STRATEGIES WHERE id = ?', [id]);
+  return result.changes > 0;
+}
+
+export async function isStrategyAssigned(id: number): Promise<boolean> {
+  const row = await getQuery('SELECT 1 FROM STRATEGY_ASSIGNMENTS WHERE strategy_id = ? LIMIT 1', [id]);
+  return row !== null;
+}
+
+// Equipment types are matched case-insensitively, global has no value
+export function normalizeScopeValue(scope: AssignmentScope, value: string | undefined): string {
+  if (scope === 'global') {
+    return '';
+  }
+  const trimmed = (value || '').trim();
+  return scope === 'equipment_type' ? trimmed.toLowerCase() : trimmed;
+}
+
+export async function listAssignments(): Promise<StrategyAssignment[]> {
+  return allQuery<StrategyAssignment>(`
+    SELECT scope, scope_value, strategy_id FROM STRATEGY_ASSIGNMENTS ORDER BY scope, scope_value
+  `);
+}
+
+export async function setAssignment(scope: AssignmentScope, scope_value: string, strategy_id: number): Promise<StrategyAssignment> {
+  await runQuery(`
+    INSERT INTO STRATEGY_ASSIGNMENTS (scope, scope_value, strategy_id)
+    VALUES (?, ?, ?)
+    ON CONFLICT (scope, scope_value) DO UPDATE SET strategy_id = excluded.strategy_id
+  `, [scope, scope_value, strategy_id]);
+
+  return { scope, scope_value, strategy_id };
+}
+
+export async function removeAssignment(scope: AssignmentScope, scope_value: string): Promise<boolean> {
+  const result = await runQuery('DELETE FROM STRATEGY_ASSIGNMENTS WHERE scope = ? AND scope_value = ?', [scope, scope_value]);
+  return result.changes > 0;
+}
+
+/**
+ * The strategy that applies to a load: one assigned to the load itself wins
+ * over one assigned to its equipment type, which wins over the global one.
+ * Falls back to DEFAULT_STRATEGY when nothing is assigned.
+ */
+export async function resolveStrategy(load: Pick<Load, 'load_id' | 'equipment_type'>): Promise<NegotiationStrategy> {
+  const strategy = await getQuery<NegotiationStrategy>(`
+    SELECT s.*
+    FROM STRATEGY_ASSIGNMENTS a
+    JOIN NEGOTIATION_STRATEGIES s ON s.id = a.strategy_id
+    WHERE (a.scope = 'load' AND a.scope_value = ?)
+       OR (a.scope = 'equipment_type' AND a.scope_value = ?)
+       OR a.scope = 'global'
+    ORDER BY CASE a.scope WHEN 'load' THEN 0 WHEN 'equipment_type' THEN 1 ELSE 2 END
+    LIMIT 1
+  `, [String(load.load_id), load.equipment_type.trim().toLowerCase()]);
+
+  return strategy || DEFAULT_STRATEGY;
+}
+
+export function describeStrategy(strategy: NegotiationStrategy): { id: number | null; name: string; type: StrategyType } {
+  return { id: strategy.id, name: strategy.name, type: strategy.type };
+}
@@ -0,0 +1,339 @@
+import { Application, Request, Response, NextFunction, RequestHandler } from 'express';
+import { z } from 'zod';
+import type { RequestSchemas } from './validation';
+import type { ApiKeyScope } from './apiKeys';
+import type { UserRole } from './users';
+import { loadSchema, carrierEligibilitySchema } from './schemas';
+import { loadInputSchema } from './loadValidation';
+
+const { version } = require('../package.json');
+
+// What requireScope and requireRole let through, kept on the middleware
+export interface RouteAccess {
+  // Needed by GET and HEAD requests, and by every method without writeScope
+  scope: ApiKeyScope;
+  writeScope?: ApiKeyScope;
+  // Dashboard users need at least this role
+  role: UserRole;
+}
+
+export interface ResponseDoc {
+  description: string;
+  schema?: z.ZodType;
+  contentType?: string;
+}
+
+export interface RouteDoc {
+  operationId: string;
+  summary: string;
+  description?: string;
+  tag: string;
+  // Success and route-specific error responses. 400 for routes using
+  // validate() or a requestBody schema, 401/403 for protected routes,
+  // 429 and 500 are added.
+  responses: Record<number, string | ResponseDoc>;
+  // Bodies that are not checked by validate(), e.g. CSV imports;
+  // schema describes the JSON form when there is one
+  requestBody?: { description: string; contentTypes: string[]; schema?: z.ZodType };
+}
+
+export interface DocumentedHandler extends RequestHandler {
+  doc: RouteDoc;
+}
+
+/** Attaches the OpenAPI description of a route; does nothing at request time. */
+export function describeRoute(doc: RouteDoc): DocumentedHandler {
+  const handler = (req: Request, res: Response, next: NextFunction): void => next();
+  return Object.assign(handler, { doc });
+}
+
+type RouteHandle = RequestHandler & {
+  doc?: RouteDoc;
+  schemas?: RequestSchemas;
+  access?: RouteAccess;
+  stack?: Layer[];
+};
+
+interface Layer {
+  handle: RouteHandle;
+  regexp: RegExp & { fast_slash?: boolean };
+  route?: { path: string; methods: Record<string, boolean>; stack: Layer[] };
+}
+
+interface Operation {
+  method: string;
+  path: string;
+  doc?: RouteDoc;
+  schemas: RequestSchemas;
+  access?: RouteAccess;
+}
+
+// Schemas shared by several operations, referenced by name
+const COMPONENT_SCHEMAS: Record<string, z.ZodType> = {
+  Load: loadSchema,
+  LoadInput: loadInputSchema,
+  CarrierEligibility: carrierEligibilitySchema
+};
+
+const ERROR_SCHEMAS = {
+  Error: {
+    type: 'object',
+    properties: { error: { type: 'string' } },
+    required: ['error']
+  },
+  ValidationError: {
+    type: 'object',
+    properties: {
+      error: { type: 'string', const: 'Invalid request' },
+      details: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { field: { type: 'string' }, message: { type: 'string' } },
+          required: ['field', 'message']
+        }
+      }
+    },
+    required: ['error', 'details']
+  }
+};
+
+// Express 4 only keeps the compiled pattern of app.use() paths, e.g.
+// /^\/api\/negotiations\/?(?=\/|$)/i for '/api/negotiations'
+function mountPath(layer: Layer): string {
+  if (layer.regexp.fast_slash) {
+    return '';
+  }
+  return layer.regexp.source
+    .replace(/^\^/, '')
+    .replace('\\/?(?=\\/|$)', '')
+    .replace(/\\\//g, '/');
+}
+
+function collectOperations(stack: Layer[], prefix: string, inherited: RouteAccess | undefined, operations: Operation[]): void {
+  const mountAccess = new Map<string, RouteAccess>();
+
+  for (const layer of stack) {
+    if (layer.route) {
+      const handles = layer.route.stack.map(entry => entry.handle);
+      const doc = handles.find(handle => handle.doc)?.doc;
+      const schemas = handles.find(handle => handle.schemas)?.schemas ?? {};
+      const access = handles.find(handle => handle.access)?.access ?? inherited;
+      // A router's '/' route is served at the mount path itself
+      const path = layer.route.path === '/' && prefix !== '' ? prefix : prefix + layer.route.path;
+      for (const method of Object.keys(layer.route.methods).filter(name => name !== '_all')) {
+        operations.push({ method, path, doc, schemas, access });
+      }
+    } else if (layer.handle.stack) {
+      const mount = mountPath(layer);
+      collectOperations(layer.handle.stack, prefix + mount, mountAccess.get(mount) ?? inherited, operations);
+    } else if (layer.handle.access) {
+      mountAccess.set(mountPath(layer), layer.handle.access);
+    }
+  }
+}
+
+// '/assignments/:scope/:value?' is documented as '/assignments/{scope}' and '/assignments/{scope}/{value}'
+function pathVariants(path: string): Array<{ path: string; params: string[]; suffix: string }> {
+  const optional = path.match(/\/:(\w+)\?$/);
+  const variants = optional
+    ? [{ path: path.slice(0, optional.index), suffix: '' }, { path: path.replace(/\?$/, ''), suffix: `With${pascalCase(optional[1])}` }]
+    : [{ path, suffix: '' }];
+  return variants.map(variant => ({
+    path: variant.path.replace(/:(\w+)/g, '{$1}'),
+    params: [...variant.path.matchAll(/:(\w+)/g)].map(match => match[1]),
+    suffix: variant.suffix
+  }));
+}
+
+function pascalCase(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+// For routes without describeRoute(), e.g. 'getApiLoadsById'
+function defaultOperationId(method: string, path: string): string {
+  const words = path.split(/[^\w:]+/).filter(Boolean).map(word =>
+    word.startsWith(':') ? `By${pascalCase(word.slice(1))}` : pascalCase(word.replace(/_(\w)/g, (_, c: string) => c.toUpperCase())));
+  return method + words.join('');
+}
+
+const SAFE_INTEGER_BOUNDS = [Number.MAX_SAFE_INTEGER, Number.MIN_SAFE_INTEGER];
+
+type JsonSchema = Record<string, any>;
+
+function toJsonSchemas(registry: z.core.$ZodRegistry<{ id: string }>): Record<string, JsonSchema> {
+  const { schemas } = z.toJSONSchema(registry, {
+    io: 'input',
+    unrepresentable: 'any',
+    uri: id => `#/components/schemas/${id}`,
+    // z.number().int() implies safe-integer bounds, which only add noise
+    override: ({ jsonSchema }) => {
+      for (const key of ['minimum', 'maximum'] as const) {
+        if (SAFE_INTEGER_BOUNDS.includes(jsonSchema[key] as number)) {
+          delete jsonSchema[key];
+        }
+      }
+    }
+  });
+  for (const schema of Object.values(schemas)) {
+    delete schema.$schema;
+    delete schema.$id;
+  }
+  return schemas;
+}
+
+function describeAccess(access: RouteAccess, method: string): { scope: ApiKeyScope; note: string } {
+  const scope = access.writeScope && method !== 'get' ? access.writeScope : access.scope;
+  return {
+    scope,
+    note: `Requires an API key with the \`${scope}\` scope or a dashboard session with the \`${access.role}\` role.`
+  };
+}
+
+function responseObject(status: number, response: string | ResponseDoc, schemaRef?: JsonSchema): JsonSchema {
+  const { description, contentType = 'application/json' } = typeof response === 'string' ? { description: response } : response;
+  const schema = schemaRef ?? (status >= 400 ? { $ref: '#/components/schemas/Error' } : undefined);
+  return schema ? { description, content: { [contentType]: { schema } } } : { description };
+}
+
+/**
+ * Builds the OpenAPI 3.1 document from the routes registered on the app:
+ * paths and methods from the routers, parameters and bodies from the
+ * validate() schemas, security from requireScope/requireRole and the rest
+ * from describeRoute().
+ */
+export function buildOpenApiDocument(app: Application): JsonSchema {
+  const operations: Operation[] = [];
+  const router = (app as unknown as { _router: { stack: Layer[] } })._router;
+  collectOperations(router.stack, '', undefined, operations);
+
+  // Every schema goes through one registry so shared ones become $refs
+  const registry = z.registry<{ id: string }>();
+  const ids = new Map<z.ZodType, string>();
+  const register = (schema: z.ZodType, id: string): string => {
+    const existing = ids.get(schema);
+    if (existing) {
+      return existing;
+    }
+    ids.set(schema, id);
+    registry.add(schema, { id });
+    return id;
+  };
+  for (const [id, schema] of Object.entries(COMPONENT_SCHEMAS)) {
+    register(schema, id);
+  }
+
+  const apiOperations = operations.filter(operation => operation.path.startsWith('/api/'));
+  const inlined = new Set<string>();
+  const bodies = new Set<string>();
+  const operationIds = new Map<Operation, string>();
+  for (const operation of apiOperations) {
+    const { method, path, doc, schemas } = operation;
+    operationIds.set(operation, doc ? doc.operationId : defaultOperationId(method, path));
+    const name = pascalCase(operationIds.get(operation) as string);
+    // Bodies first, so a schema shared with the query string is named after the body
+    for (const part of ['body', 'params', 'query'] as const) {
+      const schema = schemas[part];
+      if (schema) {
+        const id = register(schema, `${name}${pascalCase(part)}`);
+        (part === 'body' ? bodies : inlined).add(id);
+      }
+    }
+    if (doc?.requestBody?.schema) {
+      register(doc.requestBody.schema, `${name}Body`);
+    }
+    for (const [status, response] of Object.entries(doc?.responses ?? {})) {
+      if (typeof response !== 'string' && response.schema) {
+        register(response.schema, `${name}Response${status === '200' ? '' : status}`);
+      }
+    }
+  }
+
+  const jsonSchemas = toJsonSchemas(registry);
+  const ref = (schema: z.ZodType): JsonSchema => ({ $ref: `#/components/schemas/${ids.get(schema)}` });
+
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const operation of apiOperations) {
+    const { method, doc, schemas, access } = operation;
+
+    for (const variant of pathVariants(operation.path)) {
+      const parameters: JsonSchema[] = [];
+      const paramsSchema = schemas.params ? jsonSchemas[ids.get(schemas.params) as string] : undefined;
+      for (const param of variant.params) {
+        parameters.push({ name: param, in: 'path', required: true, schema: paramsSchema?.properties?.[param] ?? { type: 'string' } });
+      }
+      if (schemas.query) {
+        const querySchema = jsonSchemas[ids.get(schemas.query) as string];
+        for (const [name, schema] of Object.entries<JsonSchema>(querySchema.properties ?? {})) {
+          const { description, ...rest } = schema;
+          parameters.push({ name, in: 'query', required: (querySchema.required ?? []).includes(name), description, schema: rest });
+        }
+      }
+
+      const responses: Record<string, JsonSchema> = {};
+      for (const [status, response] of Object.entries(doc?.responses ?? { 200: 'Success' })) {
+        const schema = typeof response !== 'string' && response.schema ? ref(response.schema) : undefined;
+        responses[status] = responseObject(Number(status), response, schema);
+      }
+      if ((Object.keys(schemas).length > 0 || doc?.requestBody?.schema) && !responses[400]) {
+        responses[400] = responseObject(400, 'Invalid request', { $ref: '#/components/schemas/ValidationError' });
+      }
+      if (access) {
+        responses[401] ??= responseObject(401, 'Missing or invalid API key or session');
+        responses[403] ??= responseObject(403, 'The API key lacks the scope or the user lacks the role');
+      }
+      responses[429] = responseObject(429, 'Rate limit exceeded; retry after the Retry-After header');
+      responses[500] = responseObject(500, 'Internal server error');
+
+      const security = access ? describeAccess(access, method) : undefined;
+      const description = [doc?.description, security?.note].filter(Boolean).join('\n\n');
+      const entry: JsonSchema = {
+        operationId: operationIds.get(operation) + variant.suffix,
+        summary: doc?.summary ?? `${method.toUpperCase()} ${variant.path}`,
+        description: description || undefined,
+        tags: doc ? [doc.tag] : undefined,
+        parameters: parameters.length > 0 ? parameters : undefined,
+        security: security ? [{ apiKey: [security.scope] }, { session: [access?.role] }] : [],
+        responses
+      };
+      if (schemas.body) {
+        // DELETE clients may send the same fields in the query string instead
+        entry.requestBody = { required: method !== 'delete', content: { 'application/json': { schema: ref(schemas.body) } } };
+      } else if (doc?.requestBody) {
+        const { description: bodyDescription, contentTypes, schema } = doc.requestBody;
+        const jsonSchema = schema ? ref(schema) : { type: 'object' };
+        entry.requestBody = {
+          required: true,
+          description: bodyDescription,
+          content: Object.fromEntries(contentTypes.map(type => [type, { schema: type === 'application/json' ? jsonSchema : { type: 'string' } }]))
+        };
+      }
+
+      paths[variant.path] = { ...paths[variant.path], [method]: entry };
+    }
+  }
+
+  // Path and query schemas were expanded into parameters above, unless a body refers to them too
+  for (const id of inlined) {
+    if (!bodies.has(id)) {
+      delete jsonSchemas[id];
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Loads API',
+      version,
+      description: 'Load search, rate negotiation and call records for the inbound carrier voice agent.'
+    },
+    paths,
+    components: {
+      schemas: { ...ERROR_SCHEMAS, ...jsonSchemas },
+      securitySchemes: {
+        apiKey: { type: 'apiKey', in: 'header', name: 'x-api-key' },
+        session: { type: 'apiKey', in: 'cookie', name: 'session' }
+      }
+    }
+  };
+}
@@ -0,0 +1,315 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { z } from 'zod';
+import { runQuery, getQuery, allQuery } from './database';
+import { FieldError } from './loadValidation';
+import { text, numeric, parseInput } from './validation';
+import { ApiKey } from './apiKeys';
+import { User } from './users';
+
+// What a rule counts: requests per client IP, requests per API key (or
+// dashboard user), or failed authentication attempts per client IP
+export const RATE_LIMIT_SUBJECTS = ['ip', 'key', 'auth_failure'] as const;
+
+export type RateLimitSubject = typeof RATE_LIMIT_SUBJECTS[number];
+
+export interface RateLimitRule {
+  id: number;
+  // Applies to this path and everything below it, e.g. /api or /api/negotiate
+  path_prefix: string;
+  // HTTP method or '*'
+  method: string;
+  subject: RateLimitSubject;
+  // Bucket size: how many requests can be made in a burst
+  capacity: number;
+  // Tokens added back per minute
+  refill_per_minute: number;
+  enabled: boolean;
+}
+
+export type RateLimitRuleInput = Omit<RateLimitRule, 'id'>;
+
+interface RateLimitRuleRow extends Omit<RateLimitRule, 'enabled'> {
+  enabled: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updated: number;
+  capacity: number;
+  refill_per_minute: number;
+}
+
+interface BucketState {
+  rule: RateLimitRule;
+  allowed: boolean;
+  remaining: number;
+  // Seconds until the bucket is full again
+  reset: number;
+  // Seconds until the next request is allowed
+  retry_after: number;
+}
+
+// Installed at startup while the table is empty, then managed through /api/rate-limits
+export const DEFAULT_RATE_LIMIT_RULES: RateLimitRuleInput[] = [
+  { path_prefix: '/api', method: '*', subject: 'ip', capacity: 300, refill_per_minute: 300, enabled: true },
+  { path_prefix: '/api', method: '*', subject: 'key', capacity: 120, refill_per_minute: 600, enabled: true },
+  { path_prefix: '/api/negotiate', method: 'GET', subject: 'key', capacity: 30, refill_per_minute: 120, enabled: true },
+  { path_prefix: '/api/negotiations', method: '*', subject: 'key', capacity: 30, refill_per_minute: 120, enabled: true },
+  { path_prefix: '/api/callsdata', method: 'POST', subject: 'key', capacity: 20, refill_per_minute: 60, enabled: true },
+  { path_prefix: '/api', method: '*', subject: 'auth_failure', capacity: 10, refill_per_minute: 1, enabled: true }
+];
+
+const HTTP_METHODS = ['*', 'GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE'] as const;
+
+const RULE_COLUMNS: Array<keyof RateLimitRuleInput> = [
+  'path_prefix', 'method', 'subject', 'capacity', 'refill_per_minute', 'enabled'
+];
+
+const buckets = new Map<string, Bucket>();
+let cachedRules: RateLimitRule[] | null = null;
+
+function toRule(row: RateLimitRuleRow): RateLimitRule {
+  return { ...row, enabled: row.enabled === 1 };
+}
+
+export const rateLimitRuleInputSchema = z.object({
+  path_prefix: text(z.string().regex(/^\/api/, 'must start with /api').transform(prefix => prefix.replace(/\/+$/, ''))),
+  method: text(z.string().toUpperCase().pipe(z.enum(HTTP_METHODS)).default('*')).describe('An HTTP method, or * for all'),
+  subject: text(z.enum(RATE_LIMIT_SUBJECTS)),
+  capacity: numeric(z.number().positive()),
+  refill_per_minute: numeric(z.number().positive()),
+  enabled: z.boolean().default(true)
+});
+
+/**
+ * Validates a rule. With `existing`, fields left out of the input keep their
+ * current values and the merged rule is validated as a whole.
+ */
+export function validateRateLimitRuleInput(input: unknown, existing?: RateLimitRuleInput): { rule: RateLimitRuleInput | null; errors: FieldError[] } {
+  let merged = input;
+  if (existing && typeof input === 'object' && input !== null && !Array.isArray(input)) {
+    const raw = input as Record<string, unknown>;
+    merged = Object.fromEntries(RULE_COLUMNS.map(field => [field, raw[field] === undefined ? existing[field] : raw[field]]));
+  }
+
+  const { data, errors } = parseInput(rateLimitRuleInputSchema, merged);
+  return { rule: data, errors };
+}
+
+export async function listRateLimitRules(): Promise<RateLimitRule[]> {
+  const rows = await allQuery<RateLimitRuleRow>('SELECT * FROM RATE_LIMIT_RULES ORDER BY id');
+  return rows.map(toRule);
+}
+
+export async function getRateLimitRule(id: number): Promise<RateLimitRule | null> {
+  const row = await getQuery<RateLimitRuleRow>('SELECT * FROM RATE_LIMIT_RULES WHERE id = ?', [id]);
+  return row ? toRule(row) : null;
+}
+
+function ruleValues(rule: RateLimitRuleInput): unknown[] {
+  return RULE_COLUMNS.map(column => (column === 'enabled' ? (rule.enabled ? 1 : 0) : rule[column]));
+}
+
+// Rule changes take effect on the next request; existing buckets of the rule
+// are dropped so a new capacity applies immediately
+function invalidateRules(id?: number): void {
+  cachedRules = null;
+  if (id !== undefined) {
+    for (const key of buckets.keys()) {
+      if (key.startsWith(`${id}:`)) {
+        buckets.delete(key);
+      }
+    }
+  }
+}
+
+export async function createRateLimitRule(rule: RateLimitRuleInput): Promise<RateLimitRule> {
+  const result = await runQuery(`
+    INSERT INTO RATE_LIMIT_RULES (${RULE_COLUMNS.join(', ')})
+    VALUES (${RULE_COLUMNS.map(() => '?').join(', ')})
+  `, ruleValues(rule));
+  invalidateRules();
+  return { id: result.lastID, ...rule };
+}
+
+export async function updateRateLimitRule(id: number, rule: RateLimitRuleInput): Promise<RateLimitRule | null> {
+  const result = await runQuery(`
+    UPDATE RATE_LIMIT_RULES SET ${RULE_COLUMNS.map(column => `${column} = ?`).join(', ')} WHERE id = ?
+  `, [...ruleValues(rule), id]);
+  invalidateRules(id);
+  return result.changes > 0 ? { id, ...rule } : null;
+}
+
+export async function deleteRateLimitRule(id: number): Promise<boolean> {
+  const result = await runQuery('DELETE FROM RATE_LIMIT_RULES WHERE id = ?', [id]);
+  invalidateRules(id);
+  return result.changes > 0;
+}
+
+export async function seedRateLimitRules(): Promise<void> {
+  const row = await getQuery<{ count: number }>('SELECT COUNT(*) as count FROM RATE_LIMIT_RULES');
+  if (row && row.count === 0) {
+    for (const rule of DEFAULT_RATE_LIMIT_RULES) {
+      await createRateLimitRule(rule);
+    }
+    console.log(`Installed ${DEFAULT_RATE_LIMIT_RULES.length} default rate limit rules`);
+  }
+}
+
+async function getRules(): Promise<RateLimitRule[]> {
+  if (!cachedRules) {
+    cachedRules = (await listRateLimitRules()).filter(rule => rule.enabled);
+  }
+  return cachedRules;
+}
+
+/**
+ * The rule for a subject that applies to a request: the longest matching
+ * path prefix wins, and a rule for the exact method wins over '*'.
+ */
+async function matchRule(req: Request, subject: RateLimitSubject): Promise<RateLimitRule | null> {
+  const path = req.originalUrl.split('?')[0].replace(/\/+$/, '');
+  let best: RateLimitRule | null = null;
+  for (const rule of await getRules()) {
+    if (rule.subject !== subject) {
+      continue;
+    }
+    if (path !== rule.path_prefix && !path.startsWith(`${rule.path_prefix}/`)) {
+      continue;
+    }
+    if (rule.method !== '*' && rule.method !== req.method) {
+      continue;
+    }
+    if (!best || rule.path_prefix.length > best.path_prefix.length ||
+        (rule.path_prefix.length === best.path_prefix.length && best.method === '*' && rule.method !== '*')) {
+      best = rule;
+    }
+  }
+  return best;
+}
+
+// Refills the bucket for the time elapsed, then takes `cost` tokens if there
+// are enough of them
+function takeToken(rule: RateLimitRule, identity: string, cost: number): BucketState {
+  const key = `${rule.id}:${identity}`;
+  const now = Date.now();
+  const bucket = buckets.get(key) || { tokens: rule.capacity, updated: now, capacity: rule.capacity, refill_per_minute: rule.refill_per_minute };
+
+  bucket.tokens = Math.min(rule.capacity, bucket.tokens + ((now - bucket.updated) / 60000) * rule.refill_per_minute);
+  bucket.updated = now;
+
+  const allowed = bucket.tokens >= cost;
+  if (allowed) {
+    bucket.tokens -= cost;
+  }
+  buckets.set(key, bucket);
+
+  const perSecond = rule.refill_per_minute / 60;
+  return {
+    rule,
+    allowed,
+    remaining: Math.floor(bucket.tokens),
+    reset: Math.ceil((rule.capacity - bucket.tokens) / perSecond),
+    retry_after: bucket.tokens >= 1 ? 0 : Math.ceil((1 - bucket.tokens) / perSecond)
+  };
+}
+
+// Buckets that have refilled completely carry no state and can be dropped
+export function pruneRateLimitBuckets(): void {
+  const now = Date.now();
+  for (const [key, bucket] of buckets) {
+    if (bucket.tokens + ((now - bucket.updated) / 60000) * bucket.refill_per_minute >= bucket.capacity) {
+      buckets.delete(key);
+    }
+  }
+}
+
+function clientIp(req: Request): string {
+  return req.ip || req.socket.remoteAddress || 'unknown';
+}
+
+// Sets the RateLimit-* headers from the bucket closest to running out, so
+// clients see the limit they will hit first
+function setHeaders(res: Response, state: BucketState): void {
+  const current = res.locals.rateLimit as BucketState | undefined;
+  if (current && current.remaining / current.rule.capacity <= state.remaining / state.rule.capacity) {
+    return;
+  }
+  res.locals.rateLimit = state;
+  const window = Math.ceil((state.rule.capacity / state.rule.refill_per_minute) * 60);
+  res.setHeader('RateLimit-Limit', String(state.rule.capacity));
+  res.setHeader('RateLimit-Remaining', String(state.remaining));
+  res.setHeader('RateLimit-Reset', String(state.reset));
+  res.setHeader('RateLimit-Policy', `${state.rule.capacity};w=${window}`);
+}
+
+function rejectRequest(res: Response, state: BucketState, error: string): void {
+  res.setHeader('Retry-After', String(Math.max(state.retry_after, 1)));
+  res.status(429).json({ error, retry_after: Math.max(state.retry_after, 1) });
+}
+
+async function limit(req: Request, res: Response, next: NextFunction, subject: RateLimitSubject, identity: string): Promise<void> {
+  try {
+    const rule = await matchRule(req, subject);
+    if (rule) {
+      const state = takeToken(rule, identity, 1);
+      setHeaders(res, state);
+      if (!state.allowed) {
+        rejectRequest(res, state, 'Too many requests, please retry later');
+        return;
+      }
+    }
+  } catch (error) {
+    // Never turn away traffic because the limiter itself failed
+    console.error('Error applying rate limit:', error);
+  }
+  next();
+}
+
+// Per client IP, before authentication
+export const rateLimitByIp: RequestHandler = (req, res, next) => limit(req, res, next, 'ip', clientIp(req));
+
+// Per API key or dashboard user, after authentication
+export const rateLimitByKey: RequestHandler = (req, res, next) => {
+  const apiKey = res.locals.apiKey as ApiKey | undefined;
+  const user = res.locals.user as User | undefined;
+  if (apiKey) {
+    return limit(req, res, next, 'key', `key:${apiKey.id ?? 'bootstrap'}`);
+  }
+  if (user) {
+    return limit(req, res, next, 'key', `user:${user.id}`);
+  }
+  next();
+};
+
+/**
+ * Blocks an IP that has used up its failed-authentication allowance, before
+ * its credentials are even looked at.
+ */
+export const authFailureGuard: RequestHandler = async (req, res, next) => {
+  try {
+    const rule = await matchRule(req, 'auth_failure');
+    if (rule) {
+      const state = takeToken(rule, clientIp(req), 0);
+      if (state.remaining < 1) {
+        rejectRequest(res, state, 'Too many failed authentication attempts, please retry later');
+        return;
+      }
+    }
+  } catch (error) {
+    console.error('Error checking authentication failures:', error);
+  }
+  next();
+};
+
+// Counts a rejected API key, session or password against the client IP
+export async function recordAuthFailure(req: Request): Promise<void> {
+  try {
+    const rule = await matchRule(req, 'auth_failure');
+    if (rule) {
+      takeToken(rule, clientIp(req), 1);
+    }
+  } catch (error) {
+    console.error('Error recording authentication failure:', error);
+  }
+}
@@ -0,0 +1,86 @@
+import express, { Request, Response } from 'express';
+import {
+  listRateLimitRules, getRateLimitRule, createRateLimitRule, updateRateLimitRule, deleteRateLimitRule,
+  validateRateLimitRuleInput, rateLimitRuleInputSchema, RateLimitRuleInput
+} from './rateLimit';
+import { rateLimitRuleIdParamsSchema, RateLimitRuleIdParams } from './schemas';
+import { validate, sendValidationError } from './validation';
+import { describeRoute } from './openapi';
+
+export const rateLimitRouter = express.Router();
+
+rateLimitRouter.get('/', describeRoute({
+  operationId: 'listRateLimitRules',
+  summary: 'List rate limit rules',
+  tag: 'Rate limits',
+  responses: { 200: 'All rules' }
+}), async (req: Request, res: Response) => {
+  try {
+    res.json(await listRateLimitRules());
+  } catch (error) {
+    console.error('Error fetching rate limit rules:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+rateLimitRouter.post('/', describeRoute({
+  operationId: 'createRateLimitRule',
+  summary: 'Add a rate limit rule',
+  tag: 'Rate limits',
+  responses: { 201: 'The created rule' }
+}), validate({ body: rateLimitRuleInputSchema }), async (req: Request, res: Response) => {
+  try {
+    res.status(201).json(await createRateLimitRule(res.locals.body as RateLimitRuleInput));
+  } catch (error) {
+    console.error('Error creating rate limit rule:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Partial update, e.g. { "capacity": 60 } or { "enabled": false }
+rateLimitRouter.patch('/:id', describeRoute({
+  operationId: 'updateRateLimitRule',
+  summary: 'Update a rate limit rule',
+  tag: 'Rate limits',
+  requestBody: { description: 'Any rule fields, e.g. { "capacity": 60 } or { "enabled": false }', contentTypes: ['application/json'] },
+  responses: { 200: 'The updated rule', 404: 'Rate limit rule not found' }
+}), validate({ params: rateLimitRuleIdParamsSchema }), async (req: Request, res: Response) => {
+  try {
+    const { id } = res.locals.params as RateLimitRuleIdParams;
+    const existing = await getRateLimitRule(id);
+    if (!existing) {
+      res.status(404).json({ error: 'Rate limit rule not found' });
+      return;
+    }
+
+    const { rule, errors } = validateRateLimitRuleInput(req.body, existing);
+    if (!rule) {
+      sendValidationError(res, errors);
+      return;
+    }
+
+    res.json(await updateRateLimitRule(existing.id, rule));
+  } catch (error) {
+    console.error('Error updating rate limit rule:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+rateLimitRouter.delete('/:id', describeRoute({
+  operationId: 'deleteRateLimitRule',
+  summary: 'Delete a rate limit rule',
+  tag: 'Rate limits',
+  responses: { 200: 'Rule deleted', 404: 'Rate limit rule not found' }
+}), validate({ params: rateLimitRuleIdParamsSchema }), async (req: Request, res: Response) => {
+  try {
+    const { id } = res.locals.params as RateLimitRuleIdParams;
+    if (!await deleteRateLimitRule(id)) {
+      res.status(404).json({ error: 'Rate limit rule not found' });
+      return;
+    }
+    res.json({ message: 'Rate limit rule deleted successfully', id });
+  } catch (error) {
+    console.error('Error deleting rate limit rule:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
@@ -0,0 +1,117 @@
+import express, { Request, Response } from 'express';
+import {
+  listReports, getReport, generateReport, sendReport, reportPeriodRange, InvalidReportDateError, REPORT_TZ
+} from './reports';
+import { requireScope } from './apiKeyRoutes';
+import { validate, sendValidationError } from './validation';
+import { describeRoute } from './openapi';
+import {
+  reportIdParamsSchema, reportListQuerySchema, reportInputSchema, reportSchema, reportListResultSchema, ReportIdParams,
+  ReportListQuery, ReportInput
+} from './schemas';
+
+export const reportRouter = express.Router();
+
+reportRouter.get('/', describeRoute({
+  operationId: 'listReports',
+  summary: 'List performance reports',
+  description: 'Newest period first, without the rendered bodies.',
+  tag: 'Reports',
+  responses: { 200: { description: 'A page of reports and the total count', schema: reportListResultSchema } }
+}), validate({ query: reportListQuerySchema }), async (req: Request, res: Response) => {
+  try {
+    res.json(await listReports(res.locals.query as ReportListQuery));
+  } catch (error) {
+    console.error('Error fetching reports:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Generating and sending email is left to admins
+reportRouter.post('/', describeRoute({
+  operationId: 'generateReport',
+  summary: 'Generate a report now',
+  description: 'Generates the report of the period again when it exists, e.g. after late call updates, '
+    + 'and with send emails it to REPORT_RECIPIENTS.',
+  tag: 'Reports',
+  responses: { 201: { description: 'The report', schema: reportSchema } }
+}), requireScope('admin'), validate({ body: reportInputSchema }), async (req: Request, res: Response) => {
+  try {
+    const input = res.locals.body as ReportInput;
+    const tz = input.tz ?? REPORT_TZ;
+    const report = await generateReport(input.period, tz, reportPeriodRange(input.period, tz, input.date));
+    res.status(201).json(input.send ? await sendReport(report) : report);
+  } catch (error) {
+    if (error instanceof InvalidReportDateError) {
+      sendValidationError(res, [{ field: 'date', message: error.message }]);
+      return;
+    }
+    console.error('Error generating report:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+reportRouter.get('/:id', describeRoute({
+  operationId: 'getReport',
+  summary: 'Fetch a report with its HTML and text',
+  tag: 'Reports',
+  responses: { 200: { description: 'The report', schema: reportSchema }, 404: 'Report not found' }
+}), validate({ params: reportIdParamsSchema }), async (req: Request, res: Response) => {
+  try {
+    const report = await getReport((res.locals.params as ReportIdParams).id);
+    if (!report) {
+      res.status(404).json({ error: 'Report not found' });
+      return;
+    }
+    res.json(report);
+  } catch (error) {
+    console.error('Error fetching report:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// The email as it is sent, to view in a browser
+reportRouter.get('/:id/html', describeRoute({
+  operationId: 'getReportHtml',
+  summary: 'View a report as HTML',
+  tag: 'Reports',
+  responses: { 200: 'The HTML body of the email', 404: 'Report not found' }
+}), validate({ params: reportIdParamsSchema }), async (req: Request, res: Response) => {
+  try {
+    const report = await getReport((res.locals.params as ReportIdParams).id);
+    if (!report) {
+      res.status(404).json({ error: 'Report not found' });
+      return;
+    }
+    res.type('html').send(report.html);
+  } catch (error) {
+    console.error('Error fetching report:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+reportRouter.post('/:id/send', describeRoute({
+  operationId: 'sendReport',
+  summary: 'Email a report again',
+  description: 'Sends to the current REPORT_RECIPIENTS. A report that could not be sent comes back with '
+    + 'status failed and the error in last_error.',
+  tag: 'Reports',
+  responses: {
+    200: { description: 'The report after sending', schema: reportSchema },
+    404: 'Report not found',
+    502: 'The mail transport failed'
+  }
+}), requireScope('admin'), validate({ params: reportIdParamsSchema }), async (req: Request, res: Response) => {
+  try {
+    const report = await getReport((res.locals.params as ReportIdParams).id);
+    if (!report) {
+      res.status(404).json({ error: 'Report not found' });
+      return;
+    }
+    const sent = await sendReport(report);
+    res.status(sent.status === 'failed' ? 502 : 200).json(sent);
+  } catch (error) {
+    console.error('Error sending report:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
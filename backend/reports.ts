@@ -0,0 +1,345 @@
+import { runQuery, getQuery, allQuery, getRevenueSummary, getRevenueBreakdown } from './database';
+import { getDashboardData } from './dashboard';
+import { TimeRange, TimeBucketRange, calendarBucket, previousTimeRange, parseDateBound, isTimeZone } from './timeBuckets';
+import { CronSchedule, parseCron, cronMatches } from './cron';
+import { getMailTransport } from './mailer';
+import {
+  Report, ReportPeriod, ReportStatus, ReportSummary, ReportListQuery, ReportListResult, REPORT_PERIODS
+} from './schemas';
+
+// Daily and weekly performance reports. Each covers the last complete local
+// day or Monday-to-Sunday week, is rendered as HTML and plain text when it is
+// generated, stored in REPORTS and emailed to REPORT_RECIPIENTS through the
+// configured mail transport. Generation runs on a cron schedule per period.
+
+export const REPORT_TZ = process.env.REPORT_TZ || 'UTC';
+
+const RECIPIENTS = (process.env.REPORT_RECIPIENTS || '').split(',').map(address => address.trim()).filter(Boolean);
+
+const FROM = process.env.REPORT_FROM || 'reports@localhost';
+
+// In REPORT_TZ; 'off' disables a period
+const CRON_EXPRESSIONS: Record<ReportPeriod, string> = {
+  daily: process.env.REPORT_DAILY_CRON || '0 7 * * *',
+  weekly: process.env.REPORT_WEEKLY_CRON || '0 7 * * 1'
+};
+
+const PERIOD_BUCKETS: Record<ReportPeriod, 'day' | 'week'> = { daily: 'day', weekly: 'week' };
+
+const TOP_LANES = 5;
+
+// Minutes of schedule checked at most after the process was stalled
+const MAX_CATCH_UP_MINUTES = 60;
+
+interface ReportRow extends Omit<Report, 'summary' | 'recipients'> {
+  summary: string;
+  recipients: string | null;
+}
+
+const LIST_COLUMNS = `
+  id, period, label, tz, range_start, range_end, summary, subject, status, recipients, sent_at, last_error,
+  created_at, updated_at
+`;
+
+function toReport(row: ReportRow): Report {
+  return {
+    ...row,
+    summary: JSON.parse(row.summary),
+    recipients: row.recipients ? row.recipients.split(',') : []
+  };
+}
+
+export class InvalidReportDateError extends Error {}
+
+/**
+ * The day or week in tz containing date, or without one the last that is
+ * complete. Periods that have not started yet are rejected.
+ */
+export function reportPeriodRange(period: ReportPeriod, tz: string, date?: string, now = new Date()): TimeBucketRange {
+  const bucket = PERIOD_BUCKETS[period];
+  if (date === undefined) {
+    const current = calendarBucket(now, bucket, tz);
+    return calendarBucket(new Date(current.start.getTime() - 1), bucket, tz);
+  }
+  const day = parseDateBound(date, tz, false);
+  if (!day || day > now) {
+    throw new InvalidReportDateError('date must be a past date');
+  }
+  return calendarBucket(day, bucket, tz);
+}
+
+/** The report's figures, from the same queries as the dashboard and revenue analytics. */
+export async function buildReportSummary(range: TimeRange, tz: string): Promise<ReportSummary> {
+  const query = { range, bucket: 'day' as const, tz };
+  const dashboard = await getDashboardData(query);
+  const revenue = await getRevenueSummary(query);
+  const previousRevenue = await getRevenueSummary({ ...query, range: previousTimeRange(range) });
+  const lanes = await getRevenueBreakdown('lane', query);
+
+  const laneCalls = new Map(dashboard.conversion.byLane.map(lane => [
+    `${lane.origin.toLowerCase()}|${lane.destination.toLowerCase()}`, lane.calls
+  ]));
+
+  return {
+    calls: dashboard.totalCalls,
+    successRate: dashboard.successRate,
+    revenue: revenue.revenue,
+    avgDuration: dashboard.avgDuration,
+    sentiment: dashboard.sentimentDistribution,
+    bookings: revenue.bookings,
+    rate_per_mile: revenue.rate_per_mile,
+    margin_left_on_table: revenue.margin_left_on_table,
+    previous: {
+      calls: dashboard.comparison.totalCalls.previous,
+      successRate: dashboard.comparison.successRate.previous,
+      revenue: previousRevenue.revenue
+    },
+    topLanes: lanes.rows.slice(0, TOP_LANES).map(lane => ({
+      lane: lane.group,
+      calls: laneCalls.get(`${lane.origin?.toLowerCase()}|${lane.destination?.toLowerCase()}`) ?? 0,
+      bookings: lane.bookings,
+      revenue: lane.revenue,
+      rate_per_mile: lane.rate_per_mile
+    }))
+  };
+}
+
+const currency = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+
+function formatPercent(value: number): string {
+  return `${value.toFixed(1)}%`;
+}
+
+function formatDuration(seconds: number): string {
+  const rounded = Math.round(seconds);
+  return `${Math.floor(rounded / 60)}m ${rounded % 60}s`;
+}
+
+// '+12.5%' against the previous period, or '' when there is nothing to compare to
+function formatChange(current: number, previous: number): string {
+  if (previous === 0) {
+    return '';
+  }
+  const change = ((current - previous) / Math.abs(previous)) * 100;
+  return ` (${change >= 0 ? '+' : ''}${change.toFixed(1)}% vs previous)`;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/** Subject, HTML and plain-text bodies of a report. */
+export function renderReport(period: ReportPeriod, label: string, tz: string, summary: ReportSummary): {
+  subject: string;
+  html: string;
+  text: string;
+} {
+  const title = period === 'daily' ? `Daily report for ${label}` : `Weekly report for the week of ${label}`;
+  const { sentiment } = summary;
+  const sentimentTotal = sentiment.positive + sentiment.neutral + sentiment.negative;
+  const share = (count: number) => formatPercent(sentimentTotal > 0 ? (count / sentimentTotal) * 100 : 0);
+
+  const metrics: Array<[string, string]> = [
+    ['Calls', `${summary.calls}${formatChange(summary.calls, summary.previous.calls)}`],
+    ['Success rate', `${formatPercent(summary.successRate)}${formatChange(summary.successRate, summary.previous.successRate)}`],
+    ['Average call', formatDuration(summary.avgDuration)],
+    ['Sentiment', `${share(sentiment.positive)} positive, ${share(sentiment.neutral)} neutral, ${share(sentiment.negative)} negative`],
+    ['Bookings', String(summary.bookings)],
+    ['Booked revenue', `${currency.format(summary.revenue)}${formatChange(summary.revenue, summary.previous.revenue)}`],
+    ['Rate per mile', summary.rate_per_mile !== null ? `$${summary.rate_per_mile.toFixed(2)}` : '–'],
+    ['Paid above loadboard', currency.format(summary.margin_left_on_table)]
+  ];
+  const lanes = summary.topLanes.map(lane => ({
+    cells: [lane.lane, String(lane.calls), String(lane.bookings), currency.format(lane.revenue)],
+    line: `- ${lane.lane}: ${currency.format(lane.revenue)} from ${plural(lane.bookings, 'booking')}, `
+      + `pitched on ${plural(lane.calls, 'call')}`
+  }));
+
+  const text = [
+    title,
+    `Times in ${tz}`,
+    '',
+    ...metrics.map(([name, value]) => `${name}: ${value}`),
+    '',
+    'Top lanes by booked revenue',
+    ...(lanes.length > 0 ? lanes.map(lane => lane.line) : ['No bookings in this period']),
+    ''
+  ].join('\n');
+
+  const cell = 'padding:6px 12px;border-bottom:1px solid #e5e7eb;text-align:left';
+  const row = (values: string[], tag = 'td') =>
+    `<tr>${values.map(value => `<${tag} style="${cell}">${escapeHtml(value)}</${tag}>`).join('')}</tr>`;
+  const html = `<!DOCTYPE html>
+<html>
+<body style="font-family:Arial,sans-serif;color:#111827;background:#f9fafb;padding:24px">
+<h1 style="font-size:22px">${escapeHtml(title)}</h1>
+<p style="color:#6b7280">Times in ${escapeHtml(tz)}</p>
+<table style="border-collapse:collapse;background:#ffffff">
+${metrics.map(([name, value]) => row([name, value])).join('\n')}
+</table>
+<h2 style="font-size:18px">Top lanes by booked revenue</h2>
+${lanes.length > 0
+    ? `<table style="border-collapse:collapse;background:#ffffff">
+${row(['Lane', 'Calls', 'Bookings', 'Revenue'], 'th')}
+${lanes.map(lane => row(lane.cells)).join('\n')}
+</table>`
+    : '<p>No bookings in this period</p>'}
+</body>
+</html>
+`;
+
+  return { subject: title, html, text };
+}
+
+export async function listReports(query: ReportListQuery): Promise<ReportListResult> {
+  const conditions: string[] = [];
+  const params: any[] = [];
+  if (query.period) {
+    conditions.push('period = ?');
+    params.push(query.period);
+  }
+  if (query.status) {
+    conditions.push('status = ?');
+    params.push(query.status);
+  }
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const rows = await allQuery<ReportRow>(`
+    SELECT ${LIST_COLUMNS} FROM REPORTS ${where} ORDER BY range_start DESC, id DESC LIMIT ? OFFSET ?
+  `, [...params, query.limit, query.offset]);
+  const count = await getQuery<{ total: number }>(`SELECT COUNT(*) as total FROM REPORTS ${where}`, params);
+  return { reports: rows.map(toReport), total: count?.total ?? 0 };
+}
+
+export async function getReport(id: number): Promise<Report | null> {
+  const row = await getQuery<ReportRow>('SELECT * FROM REPORTS WHERE id = ?', [id]);
+  return row ? toReport(row) : null;
+}
+
+async function findReport(period: ReportPeriod, tz: string, range: TimeRange): Promise<Report | null> {
+  const row = await getQuery<{ id: number }>(
+    'SELECT id FROM REPORTS WHERE period = ? AND tz = ? AND range_start = ?',
+    [period, tz, range.start.toISOString()]
+  );
+  return row ? getReport(row.id) : null;
+}
+
+/**
+ * Builds and stores the report of the period. A report already stored for it
+ * is generated again, keeping its id and delivery status, since late call
+ * updates can change the figures.
+ */
+export async function generateReport(period: ReportPeriod, tz: string, range: TimeBucketRange): Promise<Report> {
+  const summary = await buildReportSummary(range, tz);
+  const { subject, html, text } = renderReport(period, range.label, tz, summary);
+  await runQuery(`
+    INSERT INTO REPORTS (period, label, tz, range_start, range_end, summary, subject, html, text)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT (period, tz, range_start) DO UPDATE SET
+      summary = excluded.summary, subject = excluded.subject, html = excluded.html, text = excluded.text,
+      updated_at = CURRENT_TIMESTAMP
+  `, [period, range.label, tz, range.start.toISOString(), range.end.toISOString(), JSON.stringify(summary), subject, html, text]);
+  return (await findReport(period, tz, range)) as Report;
+}
+
+/**
+ * Emails the report to REPORT_RECIPIENTS and records the outcome. Without
+ * recipients it is left as generated. Transport errors are recorded on the
+ * report rather than thrown.
+ */
+export async function sendReport(report: Report): Promise<Report> {
+  if (RECIPIENTS.length === 0) {
+    return report;
+  }
+  let status: ReportStatus = 'sent';
+  let error: string | null = null;
+  try {
+    await getMailTransport().send({
+      from: FROM,
+      to: RECIPIENTS,
+      subject: report.subject,
+      html: report.html as string,
+      text: report.text as string
+    });
+  } catch (err) {
+    status = 'failed';
+    error = err instanceof Error ? err.message : String(err);
+    console.error(`Error sending report ${report.id}:`, err);
+  }
+  await runQuery(`
+    UPDATE REPORTS
+    SET status = ?, recipients = ?, last_error = ?, sent_at = CASE WHEN ? = 'sent' THEN CURRENT_TIMESTAMP ELSE sent_at END,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `, [status, RECIPIENTS.join(','), error, status, report.id]);
+  return (await getReport(report.id)) as Report;
+}
+
+const schedules = new Map<ReportPeriod, CronSchedule>();
+
+/** Parses the cron schedules from the environment; invalid ones are reported and left out. */
+export function loadReportSchedules(): Map<ReportPeriod, CronSchedule> {
+  schedules.clear();
+  if (!isTimeZone(REPORT_TZ)) {
+    console.error(`Reports are not scheduled: REPORT_TZ ${REPORT_TZ} is not a time zone`);
+    return schedules;
+  }
+  for (const period of REPORT_PERIODS) {
+    const expression = CRON_EXPRESSIONS[period];
+    if (expression === 'off') {
+      continue;
+    }
+    try {
+      schedules.set(period, parseCron(expression));
+    } catch (error) {
+      console.error(`The ${period} report is not scheduled:`, error instanceof Error ? error.message : error);
+    }
+  }
+  return schedules;
+}
+
+let lastCheckedMinute: number | null = null;
+let running = false;
+
+/**
+ * Generates and sends the reports whose schedule fired since the last check.
+ * A report already stored for the period, e.g. before a restart, is not
+ * generated or sent again. Resolves to the number of reports generated.
+ */
+export async function runScheduledReports(now = new Date()): Promise<number> {
+  const minute = Math.floor(now.getTime() / 60000);
+  if (running || lastCheckedMinute === minute) {
+    return 0;
+  }
+  const from = lastCheckedMinute === null ? minute : Math.max(lastCheckedMinute + 1, minute - MAX_CATCH_UP_MINUTES);
+  lastCheckedMinute = minute;
+
+  const due = [...schedules].filter(([, schedule]) => {
+    for (let checked = from; checked <= minute; checked++) {
+      if (cronMatches(schedule, new Date(checked * 60000), REPORT_TZ)) {
+        return true;
+      }
+    }
+    return false;
+  }).map(([period]) => period);
+
+  running = true;
+  try {
+    let generated = 0;
+    for (const period of due) {
+      const range = reportPeriodRange(period, REPORT_TZ, undefined, now);
+      if (await findReport(period, REPORT_TZ, range)) {
+        continue;
+      }
+      await sendReport(await generateReport(period, REPORT_TZ, range));
+      generated++;
+    }
+    return generated;
+  } finally {
+    running = false;
+  }
+}
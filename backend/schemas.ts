@@ -0,0 +1,836 @@
+import { z } from 'zod';
+import { text, numeric, identifier, list } from './validation';
+import { loadFields, dateBound, normalizeDateBound } from './loadValidation';
+import { LOAD_STATUSES } from './loadStatus';
+import { TIME_BUCKETS, MAX_TIME_BUCKETS, isTimeZone, resolveTimeRange, timeBuckets, toSqlTimestamp } from './timeBuckets';
+import { API_KEY_SCOPES } from './apiKeys';
+import { strategyInputSchema, ASSIGNMENT_SCOPES } from './negotiationStrategies';
+
+// Request and response schemas for the load, negotiation and call routes.
+// The API's TypeScript types are inferred from them so they cannot drift
+// from what the routes accept.
+
+const positiveInteger = z.number().int().positive();
+
+// "MC-123456", "MC123456" and 123456 all mean MC number 123456
+export function parseMcNumber(value: unknown): number | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  const digits = String(value).trim().replace(/^MC[-\s#]*/i, '');
+  const mc = Number(digits);
+  return digits !== '' && Number.isInteger(mc) && mc > 0 ? mc : null;
+}
+
+const mcNumberSchema = z.union([z.string(), z.number()]).transform((value, ctx) => {
+  const mc_number = parseMcNumber(value);
+  if (mc_number === null) {
+    ctx.addIssue({ code: 'custom', message: 'must be a positive integer, optionally prefixed with MC' });
+    return z.NEVER;
+  }
+  return mc_number;
+});
+
+export const loadStatusSchema = z.enum(LOAD_STATUSES);
+
+export const loadSchema = z.object({
+  load_id: positiveInteger,
+  ...loadFields,
+  // Resolved from origin/destination through the bundled gazetteer,
+  // null when the city is not in it
+  origin_lat: z.number().nullable(),
+  origin_lng: z.number().nullable(),
+  destination_lat: z.number().nullable(),
+  destination_lng: z.number().nullable(),
+  // Lifecycle status, see LOAD_TRANSITIONS; only available loads are offered
+  status: loadStatusSchema
+});
+
+export type Load = z.output<typeof loadSchema>;
+
+export const loadIdParamsSchema = z.object({
+  id: numeric(positiveInteger)
+});
+
+// Bulk import rows that carry a load_id update that load
+export const importedLoadIdSchema = numeric(positiveInteger.optional());
+
+export type LoadIdParams = z.output<typeof loadIdParamsSchema>;
+
+export const loadSortSchema = z.enum(['load_id', 'rate_per_mile', 'pickup_datetime', 'loadboard_rate']);
+
+export type LoadSort = z.output<typeof loadSortSchema>;
+
+const nonNegativeFilter = numeric(z.number().nonnegative().optional());
+
+export const loadSearchQuerySchema = z.object({
+  origin: text(z.string().optional()).describe('Partial city match with aliases such as LA or philly; "City, ST" also requires the state'),
+  destination: text(z.string().optional()).describe('Partial city match with aliases such as LA or philly; "City, ST" also requires the state'),
+  equipment_type: text(z.string().optional()).describe('e.g. Dry Van, Reefer, Flatbed; common aliases match'),
+  pickup_from: dateBound(false).describe('Earliest pickup, a date or date-time'),
+  pickup_to: dateBound(true).describe('Latest pickup; a bare date covers the whole day'),
+  min_weight: nonNegativeFilter,
+  max_weight: nonNegativeFilter,
+  min_miles: nonNegativeFilter,
+  max_miles: nonNegativeFilter,
+  sort: text(loadSortSchema.optional()),
+  order: text(z.enum(['asc', 'desc']).optional()),
+  limit: numeric(z.number().int().min(1).max(100).optional()),
+  cursor: text(z.string().optional()).describe('next_cursor of the previous page'),
+  mc_number: text(mcNumberSchema.optional()).describe('Caller MC number; ineligible carriers get 403')
+});
+
+export type LoadSearchQuery = z.output<typeof loadSearchQuerySchema>;
+
+// The center is either lat/lng or a city/state/ZIP resolved through the gazetteer
+export const nearbyLoadsQuerySchema = loadSearchQuerySchema.extend({
+  lat: numeric(z.number().min(-90).max(90).optional()),
+  lng: numeric(z.number().min(-180).max(180).optional()),
+  city: text(z.string().optional()).describe('City, "City, ST" or ZIP code, used when lat/lng are not given'),
+  radius_miles: numeric(z.number().positive().max(1000).default(100)).describe('Maximum deadhead distance to pickup')
+}).superRefine((query, ctx) => {
+  if (query.lat !== undefined && query.lng === undefined) {
+    ctx.addIssue({ code: 'custom', path: ['lng'], message: 'is required with lat' });
+  } else if (query.lng !== undefined && query.lat === undefined) {
+    ctx.addIssue({ code: 'custom', path: ['lat'], message: 'is required with lng' });
+  } else if (query.lat === undefined && query.city === undefined) {
+    ctx.addIssue({ code: 'custom', path: ['city'], message: 'is required unless lat and lng are given' });
+  }
+});
+
+export type NearbyLoadsQuery = z.output<typeof nearbyLoadsQuerySchema>;
+
+export const loadTransitionSchema = z.object({
+  status: text(loadStatusSchema),
+  reason: text(z.string().optional())
+});
+
+export type LoadTransitionInput = z.output<typeof loadTransitionSchema>;
+
+export const loadHoldSchema = z.object({
+  call_id: identifier(z.string()),
+  ttl_seconds: numeric(z.number().int().min(1).max(3600).optional()).describe('Hold length; defaults to LOAD_HOLD_TTL_SECONDS'),
+  mc_number: text(mcNumberSchema.optional()).describe('Caller MC number; ineligible carriers get 403')
+});
+
+export type LoadHoldInput = z.output<typeof loadHoldSchema>;
+
+export const loadBookingSchema = z.object({
+  call_id: identifier(z.string())
+});
+
+export type LoadBookingInput = z.output<typeof loadBookingSchema>;
+
+// DELETE clients may send call_id in the query string or the body
+export const holdReleaseSchema = z.object({
+  call_id: identifier(z.string().optional())
+});
+
+export type HoldRelease = z.output<typeof holdReleaseSchema>;
+
+export const negotiateQuerySchema = z.object({
+  load_id: numeric(positiveInteger),
+  offered_rate: numeric(z.number().positive()).describe('Rate we last offered the carrier'),
+  counter_offer: numeric(z.number().positive()).describe("Carrier's counter offer"),
+  // Only used by strategies whose concession depends on the round
+  round: numeric(positiveInteger.default(1)).describe('Negotiation round, starting at 1'),
+  mc_number: text(mcNumberSchema.optional()).describe('Caller MC number; ineligible carriers get 403')
+});
+
+export type NegotiateQuery = z.output<typeof negotiateQuerySchema>;
+
+export const negotiationCreateSchema = z.object({
+  load_id: numeric(positiveInteger),
+  mc_number: text(mcNumberSchema.optional()).describe('Caller MC number; ineligible carriers get 403'),
+  max_rounds: numeric(z.number().int().min(1).max(10).optional()).describe('Defaults to NEGOTIATION_MAX_ROUNDS'),
+  call_id: identifier(z.string().optional()).describe('Links the session to the call for POST /api/callsdata')
+});
+
+export type NegotiationCreateInput = z.output<typeof negotiationCreateSchema>;
+
+export const counterOfferSchema = z.object({
+  counter_offer: numeric(z.number().positive()).describe("Carrier's counter offer")
+});
+
+export type CounterOfferInput = z.output<typeof counterOfferSchema>;
+
+export const AUTHORITY_STATUSES = ['active', 'inactive', 'revoked', 'pending'] as const;
+
+export type AuthorityStatus = typeof AUTHORITY_STATUSES[number];
+
+const AUTHORITY_ALIASES: Record<string, AuthorityStatus> = {
+  a: 'active', active: 'active', authorized: 'active',
+  i: 'inactive', inactive: 'inactive', 'not authorized': 'inactive', none: 'inactive',
+  r: 'revoked', revoked: 'revoked',
+  p: 'pending', pending: 'pending'
+};
+
+function parseDate(value: string): string | null {
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  if (iso) {
+    return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  }
+  // FMCSA files use MM/DD/YYYY
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value);
+  if (us) {
+    return `${us[3]}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`;
+  }
+  return null;
+}
+
+function parseFlag(value: unknown): boolean | null {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  const text = String(value).trim().toLowerCase();
+  if (['1', 'true', 'y', 'yes'].includes(text)) {
+    return true;
+  }
+  if (['0', 'false', 'n', 'no', ''].includes(text)) {
+    return false;
+  }
+  return null;
+}
+
+export const carrierListQuerySchema = z.object({
+  q: text(z.string().optional()).describe('Company name, MC or DOT number'),
+  authority_status: text(z.enum(AUTHORITY_STATUSES).optional()),
+  limit: numeric(z.number().int().min(1).max(500).default(50)),
+  offset: numeric(z.number().int().nonnegative().default(0))
+});
+
+export type CarrierListQuery = z.output<typeof carrierListQuerySchema>;
+
+export const carrierParamsSchema = z.object({
+  mc_number: mcNumberSchema
+});
+
+export type CarrierParams = z.output<typeof carrierParamsSchema>;
+
+// Snapshot files use loose formats: MC prefixes, single-letter statuses,
+// MM/DD/YYYY dates and equipment as a ;- or |-separated string
+const carrierFields = {
+  dot_number: numeric(positiveInteger.nullable().default(null)),
+  company_name: identifier(z.string()),
+  authority_status: text(z.preprocess(
+    value => typeof value === 'string' ? AUTHORITY_ALIASES[value.toLowerCase()] ?? value : value,
+    z.enum(AUTHORITY_STATUSES)
+  ).default('inactive')),
+  insurance_expiry: text(z.string().transform((value, ctx) => {
+    const date = parseDate(value);
+    if (!date) {
+      ctx.addIssue({ code: 'custom', message: 'must be a date (YYYY-MM-DD or MM/DD/YYYY)' });
+      return z.NEVER;
+    }
+    return date;
+  }).nullable().default(null)).describe('YYYY-MM-DD or MM/DD/YYYY; null when no insurance is on file'),
+  equipment: z.preprocess(
+    value => typeof value === 'string' ? value.split(/[;|]/) : value ?? undefined,
+    z.array(identifier(z.string().optional())).transform(items => items.filter((item): item is string => item !== undefined)).default([])
+  ).describe('A list, or separated by ; or |'),
+  do_not_use: z.preprocess(
+    value => value === undefined || value === null ? undefined : parseFlag(value) ?? value,
+    z.boolean().default(false)
+  ).describe('Internal block list; snapshot imports never change it')
+};
+
+export const carrierInputSchema = z.object({
+  mc_number: text(mcNumberSchema),
+  ...carrierFields
+});
+
+// PUT body; the MC number comes from the path
+export const carrierBodySchema = z.object(carrierFields);
+
+export type CarrierBody = z.output<typeof carrierBodySchema>;
+
+export const carrierUpdateSchema = carrierBodySchema.partial();
+
+export const CALL_SENTIMENTS = ['positive', 'neutral', 'negative'] as const;
+
+export const callSentimentSchema = z.enum(CALL_SENTIMENTS);
+
+// Why a call ended; only booked calls are successful
+export const CALL_OUTCOMES = [
+  'booked', 'rate_too_high', 'no_matching_load', 'carrier_ineligible', 'transferred', 'hung_up'
+] as const;
+
+export const callOutcomeSchema = z.enum(CALL_OUTCOMES);
+
+export type CallOutcome = z.output<typeof callOutcomeSchema>;
+
+// Voice agents report the result as a boolean or a word such as 'success'
+const CALL_SUCCESS_WORDS = ['success', 'successful', 'true', 'yes', '1'];
+const CALL_FAILURE_WORDS = ['failure', 'failed', 'fail', 'unsuccessful', 'false', 'no', '0'];
+
+const callResultSchema = z.preprocess(
+  value => {
+    const word = typeof value === 'string' || typeof value === 'number' ? String(value).toLowerCase() : value;
+    return CALL_SUCCESS_WORDS.includes(word as string) ? true : CALL_FAILURE_WORDS.includes(word as string) ? false : value;
+  },
+  z.boolean({
+    error: issue => issue.input === undefined
+      ? undefined
+      : `must be a boolean or one of: ${[...CALL_SUCCESS_WORDS, ...CALL_FAILURE_WORDS].join(', ')}`
+  })
+);
+
+const loadIdList = list(z.array(numeric(positiveInteger)).optional());
+
+const lowerCase = (value: unknown) => typeof value === 'string' ? value.trim().toLowerCase() : value;
+
+// Stored as plain text; turn lists are flattened to 'speaker: text' lines
+const transcriptSchema = z.union([
+  z.string(),
+  z.array(z.object({ speaker: z.string(), text: z.string() }))
+]).transform(value => typeof value === 'string' ? value : value.map(turn => `${turn.speaker}: ${turn.text}`).join('\n'));
+
+const tagList = list(z.array(z.preprocess(lowerCase, z.string().max(50))).max(20).optional())
+  .transform(tags => tags && [...new Set(tags)]);
+
+export const callSchema = z.object({
+  id: identifier(z.string()).describe('Call id from the voice platform'),
+  duration: numeric(z.number().nonnegative()).describe('Seconds'),
+  mc_number: text(mcNumberSchema),
+  final_offer: numeric(z.number().positive()),
+  final_counter_offer: numeric(z.number().positive()),
+  offer_iterations: numeric(z.number().int().nonnegative()),
+  successful: text(callResultSchema).describe("A boolean or a word such as 'success'/'failure' or 'yes'/'no'"),
+  sentiment: z.preprocess(lowerCase, callSentimentSchema).describe('Case-insensitive'),
+  outcome: text(z.preprocess(lowerCase, callOutcomeSchema).nullish()),
+  negotiation_id: identifier(z.string().nullish()).describe('Session from /api/negotiations; its offers replace the offer fields'),
+  // The load that was discussed (and booked, when successful)
+  load_id: numeric(positiveInteger.nullish()),
+  // Every load pitched on the call; load_id is always included
+  pitched_load_ids: loadIdList,
+  transcript: text(transcriptSchema.nullish()).describe('Plain text, or a list of { speaker, text } turns'),
+  current_location: text(z.string().nullish()).describe("Carrier's location when called, as said on the call"),
+  equipment_type: text(z.string().nullish()).describe("Carrier's equipment, e.g. Dry Van"),
+  tags: tagList.describe('Free-form labels, an array or comma-separated list')
+});
+
+export type Call = z.output<typeof callSchema>;
+
+// What PATCH /api/calls/:id accepts: any call fields. Fields fixed when the
+// call was recorded, such as the offers, may only repeat the stored values.
+export const callUpdateSchema = callSchema.omit({ id: true }).partial();
+
+export type CallUpdate = z.output<typeof callUpdateSchema>;
+
+// What POST /api/callsdata accepts. The offer fields are only required when
+// the call did not go through a negotiation session, which derives them.
+// successful and outcome imply each other, so either one is enough.
+export const callDataSchema = callSchema.extend({
+  final_offer: numeric(z.number().positive().optional()),
+  final_counter_offer: numeric(z.number().positive().optional()),
+  offer_iterations: numeric(z.number().int().nonnegative().optional()),
+  successful: text(callResultSchema.optional()).describe("A boolean or a word such as 'success'/'failure' or 'yes'/'no'; defaults from outcome")
+}).superRefine((call, ctx) => {
+  if (call.successful === undefined && !call.outcome) {
+    ctx.addIssue({ code: 'custom', path: ['successful'], message: 'is required without an outcome' });
+  } else if (call.successful !== undefined && call.outcome && call.successful !== (call.outcome === 'booked')) {
+    ctx.addIssue({ code: 'custom', path: ['outcome'], message: `contradicts successful: ${call.successful}` });
+  }
+}).transform(call => ({
+  ...call,
+  successful: call.successful ?? call.outcome === 'booked',
+  outcome: call.outcome ?? (call.successful ? 'booked' as const : null)
+}));
+
+export type CallData = z.output<typeof callDataSchema>;
+
+export const callSortSchema = z.enum(['created_at', 'duration', 'mc_number', 'final_offer', 'offer_iterations', 'sentiment', 'outcome']);
+
+export type CallSort = z.output<typeof callSortSchema>;
+
+export const callListQuerySchema = z.object({
+  q: text(z.string().optional()).describe('Full-text search over transcripts; every word must match'),
+  outcome: list(z.array(z.preprocess(lowerCase, callOutcomeSchema)).optional()).describe('One or more, comma-separated'),
+  sentiment: text(z.preprocess(lowerCase, callSentimentSchema).optional()),
+  successful: text(callResultSchema.optional()),
+  mc_number: text(mcNumberSchema.optional()),
+  load_id: numeric(positiveInteger.optional()).describe('Calls that discussed or were pitched the load'),
+  equipment_type: text(z.string().optional()),
+  tag: text(z.preprocess(lowerCase, z.string()).optional()),
+  from: dateBound(false).describe('Earliest call time (UTC), a date or date-time'),
+  to: dateBound(true).describe('Latest call time (UTC); a bare date covers the whole day'),
+  min_duration: nonNegativeFilter.describe('Seconds'),
+  max_duration: nonNegativeFilter.describe('Seconds'),
+  sort: text(callSortSchema.optional()).describe('Defaults to created_at, or to relevance when searching with q'),
+  order: text(z.enum(['asc', 'desc']).optional()).describe('Defaults to desc'),
+  limit: numeric(z.number().int().min(1).max(100).default(50)),
+  offset: numeric(z.number().int().nonnegative().default(0))
+});
+
+export type CallListQuery = z.output<typeof callListQuerySchema>;
+
+// Read in the query's tz, so unlike dateBound() it is only checked here and
+// converted once the whole query is known
+const localDateBound = text(z.string().optional())
+  .refine(value => value === undefined || normalizeDateBound(value, false) !== null, 'must be a date (YYYY-MM-DD) or date-time');
+
+const timeRangeFieldsSchema = z.object({
+  from: localDateBound.describe('Start of the range in tz, a date or date-time; defaults to the last 24 hours, 7 days, 12 weeks or 12 months by bucket'),
+  to: localDateBound.describe('End of the range in tz, inclusive; a bare date covers the whole day. Defaults to now'),
+  bucket: text(z.enum(TIME_BUCKETS).default('day')).describe('Weeks start on Monday'),
+  tz: text(z.string().default('UTC')).refine(isTimeZone, 'must be an IANA time zone such as America/Chicago')
+});
+
+function toTimeRangeQuery(query: z.output<typeof timeRangeFieldsSchema>, ctx: z.RefinementCtx) {
+  const range = resolveTimeRange(query.from, query.to, query.bucket, query.tz);
+  if (!range || range.start >= range.end) {
+    ctx.addIssue({ code: 'custom', path: ['from'], message: 'must be before to' });
+    return z.NEVER;
+  }
+  if (timeBuckets(range, query.bucket, query.tz).length > MAX_TIME_BUCKETS) {
+    ctx.addIssue({ code: 'custom', path: ['bucket'], message: `must split the range into at most ${MAX_TIME_BUCKETS} buckets` });
+    return z.NEVER;
+  }
+  return { range, bucket: query.bucket, tz: query.tz };
+}
+
+export const timeRangeQuerySchema = timeRangeFieldsSchema.transform(toTimeRangeQuery);
+
+export type TimeRangeQuery = z.output<typeof timeRangeQuerySchema>;
+
+export const EXPORT_FORMATS = ['csv', 'jsonl'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+const exportFormatSchema = text(z.enum(EXPORT_FORMATS).default('csv')).describe('csv (with a byte order mark for Excel) or jsonl, one JSON object per line');
+
+// The list filters, without paging or sorting
+export const callExportQuerySchema = callListQuerySchema.omit({ sort: true, order: true, limit: true, offset: true }).extend({
+  format: exportFormatSchema
+});
+
+export type CallExportQuery = z.output<typeof callExportQuerySchema>;
+
+export const loadExportQuerySchema = loadSearchQuerySchema.omit({
+  sort: true, order: true, limit: true, cursor: true, mc_number: true
+}).extend({
+  status: list(z.array(loadStatusSchema).optional()).describe('One or more, comma-separated; defaults to available, like the search'),
+  format: exportFormatSchema
+});
+
+export type LoadExportQuery = z.output<typeof loadExportQuerySchema>;
+
+export const dashboardExportQuerySchema = timeRangeFieldsSchema.extend({ format: exportFormatSchema })
+  .transform((query, ctx) => ({ ...toTimeRangeQuery(query, ctx), format: query.format }));
+
+export type DashboardExportQuery = z.output<typeof dashboardExportQuerySchema>;
+
+export const REVENUE_DIMENSIONS = ['lane', 'equipment', 'commodity'] as const;
+
+export type RevenueDimension = typeof REVENUE_DIMENSIONS[number];
+
+export const revenueDimensionParamsSchema = z.object({
+  dimension: z.enum(REVENUE_DIMENSIONS)
+});
+
+export type RevenueDimensionParams = z.output<typeof revenueDimensionParamsSchema>;
+
+export const REPORT_PERIODS = ['daily', 'weekly'] as const;
+
+export type ReportPeriod = typeof REPORT_PERIODS[number];
+
+// generated: stored but not sent, e.g. without recipients
+export const REPORT_STATUSES = ['generated', 'sent', 'failed'] as const;
+
+export type ReportStatus = typeof REPORT_STATUSES[number];
+
+export const reportIdParamsSchema = z.object({
+  id: numeric(positiveInteger)
+});
+
+export type ReportIdParams = z.output<typeof reportIdParamsSchema>;
+
+export const reportListQuerySchema = z.object({
+  period: text(z.enum(REPORT_PERIODS).optional()),
+  status: text(z.enum(REPORT_STATUSES).optional()),
+  limit: numeric(z.number().int().min(1).max(100).default(20)),
+  offset: numeric(z.number().int().nonnegative().default(0))
+});
+
+export type ReportListQuery = z.output<typeof reportListQuerySchema>;
+
+export const reportInputSchema = z.object({
+  period: z.enum(REPORT_PERIODS),
+  date: text(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'must be a date (YYYY-MM-DD)').optional())
+    .describe('A day in the period, in tz; defaults to the last complete period'),
+  tz: text(z.string().optional()).refine(tz => tz === undefined || isTimeZone(tz), 'must be an IANA time zone such as America/Chicago')
+    .describe('Defaults to REPORT_TZ'),
+  send: z.boolean().default(true).describe('Email the report to REPORT_RECIPIENTS')
+});
+
+export type ReportInput = z.output<typeof reportInputSchema>;
+
+// Response bodies
+
+// Event types webhooks can subscribe to; load.booked is load.status_changed
+// narrowed to bookings, with the load attached
+export const WEBHOOK_EVENTS = ['call.created', 'call.updated', 'load.booked', 'load.status_changed', 'negotiation.updated'] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'delivered', 'failed'] as const;
+
+export type WebhookDeliveryStatus = typeof WEBHOOK_DELIVERY_STATUSES[number];
+
+export const webhookIdParamsSchema = z.object({
+  id: numeric(positiveInteger)
+});
+
+export type WebhookIdParams = z.output<typeof webhookIdParamsSchema>;
+
+export const webhookDeliveryParamsSchema = webhookIdParamsSchema.extend({
+  delivery_id: numeric(positiveInteger)
+});
+
+export type WebhookDeliveryParams = z.output<typeof webhookDeliveryParamsSchema>;
+
+const webhookFields = {
+  url: text(z.url({ protocol: /^https?$/, error: 'must be an http or https URL' })),
+  events: list(z.array(z.enum(WEBHOOK_EVENTS)).min(1)).describe('One or more, comma-separated'),
+  secret: text(z.string().min(16).max(256)).describe('Signs every delivery; generated when not given'),
+  description: text(z.string().max(200).nullish()),
+  active: z.boolean().describe('Inactive webhooks get no new deliveries and pending ones wait')
+};
+
+export const webhookInputSchema = z.object({
+  ...webhookFields,
+  secret: webhookFields.secret.optional(),
+  active: webhookFields.active.default(true)
+});
+
+export type WebhookInput = z.output<typeof webhookInputSchema>;
+
+export const webhookUpdateSchema = z.object(webhookFields).partial();
+
+export type WebhookUpdate = z.output<typeof webhookUpdateSchema>;
+
+export const webhookDeliveryListQuerySchema = z.object({
+  status: text(z.enum(WEBHOOK_DELIVERY_STATUSES).optional()),
+  event: text(z.enum(WEBHOOK_EVENTS).optional()),
+  limit: numeric(z.number().int().min(1).max(100).default(50)),
+  offset: numeric(z.number().int().nonnegative().default(0))
+});
+
+export type WebhookDeliveryListQuery = z.output<typeof webhookDeliveryListQuerySchema>;
+
+export const strategyIdParamsSchema = z.object({
+  id: numeric(positiveInteger)
+});
+
+export type StrategyIdParams = z.output<typeof strategyIdParamsSchema>;
+
+// Backtests a stored strategy (strategy_id) or an unsaved one (strategy)
+export const strategySimulationSchema = z.object({
+  strategy_id: numeric(positiveInteger.optional()).describe('A stored strategy; takes precedence over strategy'),
+  strategy: z.preprocess(
+    value => value && typeof value === 'object' && !Array.isArray(value) ? { name: 'simulation', ...value } : value,
+    strategyInputSchema.optional()
+  ).describe('An unsaved strategy; name is optional'),
+  from: dateBound(false).describe('Earliest call, a date or date-time'),
+  to: dateBound(true).describe('Latest call; a bare date covers the whole day')
+}).refine(body => body.strategy_id !== undefined || body.strategy !== undefined, 'must include strategy_id or strategy');
+
+export type StrategySimulationInput = z.output<typeof strategySimulationSchema>;
+
+// value is the load_id or equipment type; the global scope has none
+export const strategyAssignmentParamsSchema = z.object({
+  scope: z.enum(ASSIGNMENT_SCOPES),
+  value: text(z.string().optional())
+}).refine(params => params.scope === 'global' || params.value !== undefined, {
+  path: ['value'],
+  message: 'is required for the load and equipment_type scopes'
+});
+
+export type StrategyAssignmentParams = z.output<typeof strategyAssignmentParamsSchema>;
+
+export const strategyAssignmentSchema = z.object({
+  strategy_id: numeric(positiveInteger)
+});
+
+export type StrategyAssignmentInput = z.output<typeof strategyAssignmentSchema>;
+
+export const apiKeyIdParamsSchema = z.object({
+  id: numeric(positiveInteger)
+});
+
+export type ApiKeyIdParams = z.output<typeof apiKeyIdParamsSchema>;
+
+export const apiKeyInputSchema = z.object({
+  name: text(z.string()),
+  scopes: z.preprocess(
+    value => typeof value === 'string' ? value.split(/[\s,]+/).filter(Boolean) : value,
+    z.array(z.enum(API_KEY_SCOPES)).min(1)
+  ).transform(scopes => [...new Set(scopes)]).describe('A list, or separated by spaces or commas; admin grants every scope'),
+  expires_at: text(z.string().optional()).transform((value, ctx) => {
+    if (value === undefined) {
+      return null;
+    }
+    const expires_at = new Date(value);
+    if (isNaN(expires_at.getTime())) {
+      ctx.addIssue({ code: 'custom', message: 'must be a date-time' });
+      return z.NEVER;
+    }
+    if (expires_at.getTime() <= Date.now()) {
+      ctx.addIssue({ code: 'custom', message: 'must be in the future' });
+      return z.NEVER;
+    }
+    return toSqlTimestamp(expires_at);
+  }).describe('Never expires when left out')
+});
+
+export type ApiKeyInput = z.output<typeof apiKeyInputSchema>;
+
+export const apiKeyRotationSchema = z.object({
+  grace_period_seconds: numeric(z.number().int().nonnegative().optional())
+    .describe('How long the old key keeps working; defaults to API_KEY_ROTATION_GRACE_SECONDS')
+});
+
+export type ApiKeyRotationInput = z.output<typeof apiKeyRotationSchema>;
+
+export const loginSchema = z.object({
+  email: text(z.string()),
+  password: z.string().min(1)
+});
+
+export type LoginInput = z.output<typeof loginSchema>;
+
+export const userIdParamsSchema = z.object({
+  id: numeric(positiveInteger)
+});
+
+export type UserIdParams = z.output<typeof userIdParamsSchema>;
+
+export const rateLimitRuleIdParamsSchema = z.object({
+  id: numeric(positiveInteger)
+});
+
+export type RateLimitRuleIdParams = z.output<typeof rateLimitRuleIdParamsSchema>;
+
+export const carrierEligibilitySchema = z.object({
+  mc_number: positiveInteger,
+  status: z.enum(['eligible', 'ineligible', 'unknown']),
+  reasons: z.array(z.string()),
+  company_name: z.string().nullable()
+}).describe('Registry check of the carrier given by mc_number; unknown carriers are allowed');
+
+const rankedLoadSchema = loadSchema.extend({
+  rate_per_mile: z.number()
+});
+
+export const loadSearchResultSchema = z.object({
+  loads: z.array(rankedLoadSchema),
+  total: z.number().int(),
+  // Pass as cursor to fetch the next page; null on the last page
+  next_cursor: z.string().nullable()
+});
+
+export type LoadSearchResult = z.output<typeof loadSearchResultSchema>;
+
+export const loadSearchResponseSchema = loadSearchResultSchema.extend({
+  carrier: carrierEligibilitySchema.optional()
+});
+
+export const nearbyLoadsResultSchema = z.object({
+  loads: z.array(rankedLoadSchema.extend({ deadhead_miles: z.number() })),
+  total: z.number().int()
+});
+
+export type NearbyLoadsResult = z.output<typeof nearbyLoadsResultSchema>;
+
+export const nearbyLoadsResponseSchema = nearbyLoadsResultSchema.extend({
+  center: z.object({ lat: z.number(), lng: z.number(), city: z.string().optional(), state: z.string().optional() }),
+  radius_miles: z.number(),
+  carrier: carrierEligibilitySchema.optional()
+});
+
+export const negotiateResponseSchema = z.object({
+  new_rate: z.number().describe('Rate to offer the carrier next'),
+  strategy: z.object({ id: z.number().int().nullable(), name: z.string(), type: z.string() }),
+  carrier: carrierEligibilitySchema.optional()
+});
+
+export const callRecordSchema = z.object({
+  id: z.string(),
+  duration: z.number(),
+  mc_number: positiveInteger,
+  final_offer: z.number(),
+  final_counter_offer: z.number(),
+  offer_iterations: z.number().int(),
+  successful: z.boolean(),
+  sentiment: callSentimentSchema,
+  outcome: callOutcomeSchema.nullable(),
+  negotiation_id: z.string().nullable(),
+  load_id: positiveInteger.nullable(),
+  pitched_load_ids: z.array(positiveInteger),
+  current_location: z.string().nullable(),
+  equipment_type: z.string().nullable(),
+  tags: z.array(z.string()),
+  created_at: z.string(),
+  // Matching part of the transcript, only when searching with q
+  snippet: z.string().optional()
+});
+
+export type CallRecord = z.output<typeof callRecordSchema>;
+
+export const callDetailSchema = callRecordSchema.omit({ snippet: true }).extend({
+  transcript: z.string().nullable()
+});
+
+export type CallDetail = z.output<typeof callDetailSchema>;
+
+export const callListResultSchema = z.object({
+  calls: z.array(callRecordSchema),
+  total: z.number().int()
+});
+
+export type CallListResult = z.output<typeof callListResultSchema>;
+
+const timeRangeResultSchema = z.object({
+  start: z.string(),
+  // Exclusive
+  end: z.string(),
+  bucket: z.enum(TIME_BUCKETS),
+  tz: z.string()
+});
+
+// Over booked calls, at the rate they were booked for (final_offer). Averages
+// are null without bookings.
+const revenueMetricsSchema = z.object({
+  bookings: z.number().int(),
+  revenue: z.number().describe('Booked rates added up, in USD'),
+  avg_rate: z.number().nullable(),
+  avg_loadboard_rate: z.number().nullable(),
+  avg_maximum_rate: z.number().nullable(),
+  rate_per_mile: z.number().nullable().describe('Booked revenue over the miles of the booked loads'),
+  loadboard_rate_per_mile: z.number().nullable(),
+  margin_left_on_table: z.number().describe('What was paid above the loadboard rates, in USD')
+});
+
+export const revenueSummarySchema = revenueMetricsSchema.extend({
+  range: timeRangeResultSchema,
+  timeline: z.array(revenueMetricsSchema.extend({
+    // Local start of the bucket
+    label: z.string(),
+    start: z.string(),
+    end: z.string()
+  }))
+});
+
+export type RevenueSummary = z.output<typeof revenueSummarySchema>;
+
+export const revenueBreakdownSchema = z.object({
+  dimension: z.enum(REVENUE_DIMENSIONS),
+  rows: z.array(revenueMetricsSchema.extend({
+    group: z.string().describe('origin → destination for lanes, otherwise the equipment or commodity type'),
+    origin: z.string().optional(),
+    destination: z.string().optional()
+  }))
+});
+
+export type RevenueBreakdown = z.output<typeof revenueBreakdownSchema>;
+
+// The secret is only returned when the webhook is created or its secret changed
+export const webhookSchema = z.object({
+  id: positiveInteger,
+  url: z.string(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)),
+  description: z.string().nullable(),
+  active: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  secret: z.string().optional()
+});
+
+export type Webhook = z.output<typeof webhookSchema>;
+
+export const webhookDeliverySchema = z.object({
+  id: positiveInteger,
+  webhook_id: positiveInteger,
+  // Shared by redeliveries, so receivers can drop duplicates
+  event_id: z.string(),
+  event: z.enum(WEBHOOK_EVENTS),
+  payload: z.unknown().describe('The JSON body sent'),
+  status: z.enum(WEBHOOK_DELIVERY_STATUSES),
+  attempts: z.number().int(),
+  next_attempt_at: z.string().nullable().describe('When a pending delivery is tried next'),
+  last_attempt_at: z.string().nullable(),
+  response_status: z.number().int().nullable(),
+  last_error: z.string().nullable(),
+  delivered_at: z.string().nullable(),
+  redelivery_of: positiveInteger.nullable(),
+  created_at: z.string()
+});
+
+export type WebhookDelivery = z.output<typeof webhookDeliverySchema>;
+
+export const webhookDeliveryListResultSchema = z.object({
+  deliveries: z.array(webhookDeliverySchema),
+  total: z.number().int()
+});
+
+export type WebhookDeliveryListResult = z.output<typeof webhookDeliveryListResultSchema>;
+
+const reportMetricsSchema = z.object({
+  calls: z.number().int(),
+  successRate: z.number().describe('Percent'),
+  revenue: z.number().describe('Booked revenue in USD')
+});
+
+export const reportSummarySchema = reportMetricsSchema.extend({
+  avgDuration: z.number().describe('Seconds'),
+  sentiment: z.object({ positive: z.number().int(), neutral: z.number().int(), negative: z.number().int() }),
+  bookings: z.number().int(),
+  rate_per_mile: z.number().nullable(),
+  margin_left_on_table: z.number(),
+  // The period of the same length just before
+  previous: reportMetricsSchema,
+  topLanes: z.array(z.object({
+    lane: z.string(),
+    calls: z.number().int().describe('Calls the lane was pitched on'),
+    bookings: z.number().int(),
+    revenue: z.number(),
+    rate_per_mile: z.number().nullable()
+  })).describe('By booked revenue')
+});
+
+export type ReportSummary = z.output<typeof reportSummarySchema>;
+
+// html and text are left out of lists
+export const reportSchema = z.object({
+  id: positiveInteger,
+  period: z.enum(REPORT_PERIODS),
+  label: z.string().describe('The local day, or the Monday the week starts'),
+  tz: z.string(),
+  range_start: z.string(),
+  // Exclusive
+  range_end: z.string(),
+  summary: reportSummarySchema,
+  subject: z.string(),
+  html: z.string().optional(),
+  text: z.string().optional(),
+  status: z.enum(REPORT_STATUSES),
+  recipients: z.array(z.string()),
+  sent_at: z.string().nullable(),
+  last_error: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string()
+});
+
+export type Report = z.output<typeof reportSchema>;
+
+export const reportListResultSchema = z.object({
+  reports: z.array(reportSchema),
+  total: z.number().int()
+});
+
+export type ReportListResult = z.output<typeof reportListResultSchema>;
+
+export const messageResponseSchema = z.object({
+  message: z.string(),
+  id: z.union([z.string(), z.number()]).optional()
+});
@@ -1,173 +1,781 @@
 import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import path from 'path';
-import { initializeDatabase, getLoads, getLoadById, insertCall, getDashboardData } from './database';
+import {
+  initializeDatabase, getLoads, getLoadById, createLoad, updateLoad, deleteLoad,
+  upsertLoads, getNearbyLoads, findMissingLoadIds, LoadUpsert, InvalidCursorError,
+  transitionLoad, getLoadStatusHistory, expireLoads, holdLoad, bookLoad, releaseHold, releaseExpiredHolds,
+  insertCall, isUniqueViolation
+} from './database';
+import { LOAD_TRANSITIONS, LoadTransitionError, LoadHoldError } from './loadStatus';
+import { validateLoadInput, loadInputSchema, FieldError } from './loadValidation';
+import { validate, parseInput, sendValidationError } from './validation';
+import {
+  importedLoadIdSchema, loadIdParamsSchema, loadSearchQuerySchema, nearbyLoadsQuerySchema, loadTransitionSchema, loadHoldSchema,
+  loadBookingSchema, holdReleaseSchema, negotiateQuerySchema, callDataSchema, loadSchema, loadSearchResponseSchema,
+  nearbyLoadsResponseSchema, negotiateResponseSchema, messageResponseSchema, timeRangeQuerySchema,
+  LoadIdParams, LoadSearchQuery, NearbyLoadsQuery, LoadTransitionInput, LoadHoldInput, LoadBookingInput, HoldRelease,
+  NegotiateQuery, CallData, TimeRangeQuery
+} from './schemas';
+import { parseCsv } from './csv';
+import { resolveLocation } from './gazetteer';
+import { getNegotiation, getNegotiationForCall, closeNegotiation, summarizeNegotiation } from './negotiation';
+import { calculateCounterRate, resolveStrategy, describeStrategy } from './negotiationStrategies';
+import { negotiationRouter } from './negotiationRoutes';
+import { strategyRouter } from './strategyRoutes';
+import { carrierRouter } from './carrierRoutes';
+import { enforceCarrierEligibility } from './carriers';
+import { authenticateApiKey } from './apiKeys';
+import { apiKeyRouter, requireScope } from './apiKeyRoutes';
+import { getSessionUser, countUsers, createUser, deleteExpiredSessions } from './users';
+import { authRouter, userRouter, requireRole, readSessionToken } from './userRoutes';
+import {
+  rateLimitByIp, rateLimitByKey, authFailureGuard, recordAuthFailure, seedRateLimitRules, pruneRateLimitBuckets
+} from './rateLimit';
+import { rateLimitRouter } from './rateLimitRoutes';
+import { migrateUp } from './migrator';
+import { callRouter } from './callRoutes';
+import { getCall, findCallConflicts } from './calls';
+import { analyticsRouter } from './analyticsRoutes';
+import { eventRouter } from './eventRoutes';
+import { exportRouter } from './exportRoutes';
+import { subscribe, addEventOutbox } from './events';
+import { webhookRouter } from './webhookRoutes';
+import { enqueueWebhookDeliveries, deliverDueWebhooks } from './webhooks';
+import { reportRouter } from './reportRoutes';
+import { loadReportSchedules, runScheduledReports } from './reports';
+import { getDashboardData } from './dashboard';
+import { docsRouter } from './docsRoutes';
+import { describeRoute } from './openapi';
 
 require('dotenv').config();
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 const API_KEY = process.env.API_KEY;
+const LOAD_EXPIRY_INTERVAL_MINUTES = Number(process.env.LOAD_EXPIRY_INTERVAL_MINUTES) || 5;
+const LOAD_HOLD_TTL_SECONDS = Number(process.env.LOAD_HOLD_TTL_SECONDS) || 300;
+// Expired holds are also released as soon as someone touches the load
+const HOLD_SWEEP_INTERVAL_MS = 30 * 1000;
+// Retries of failed webhook deliveries are picked up this often
+const WEBHOOK_RETRY_INTERVAL_MS = 15 * 1000;
+// Report schedules are checked this often; they have minute resolution
+const REPORT_CHECK_INTERVAL_MS = 20 * 1000;
 
 if (!API_KEY) {
   console.error('ERROR: API_KEY environment variable is not set');
   process.exit(1);
 }
 
+// Number of proxies in front of the app (1 on fly.io), so req.ip is the client
+app.set('trust proxy', Number(process.env.TRUST_PROXY_HOPS) || 0);
+
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Bulk load imports can be large, so allow bigger bodies than the 100kb default
+app.use(express.json({ limit: '5mb' }));
+
+function isPublicPath(path: string): boolean {
+  return path.startsWith('/auth/') || path === '/docs' || path.startsWith('/docs/');
+}
+
+// Authentication middleware. Machine clients send an x-api-key from the
+// API_KEYS table (the API_KEY environment variable is always accepted as an
+// admin key); dashboard users send the session cookie set by /api/auth/login.
+// Each route then checks what it needs with requireScope or requireRole.
+async function authMiddleware(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const providedKey = req.headers['x-api-key'];
+  const sessionToken = readSessionToken(req);
+  
+  try {
+    if (typeof providedKey === 'string' && providedKey !== '') {
+      res.locals.apiKey = (await authenticateApiKey(providedKey, API_KEY)) ?? undefined;
+    } else if (sessionToken) {
+      res.locals.user = (await getSessionUser(sessionToken)) ?? undefined;
+    }
 
-// API key authentication middleware
-function apiKeyMiddleware(req: Request, res: Response, next: NextFunction): void {
-  // Skip authentication for dashboard endpoint
-  if (req.originalUrl === '/api/dashboard' || req.path === '/dashboard') {
-    next();
+    // Guessed keys count towards the IP's failed attempts; stale session
+    // cookies are routine and do not
+    if (providedKey && !res.locals.apiKey) {
+      await recordAuthFailure(req);
+    }
+  } catch (error) {
+    console.error('Error authenticating request:', error);
+    res.status(500).json({ error: 'Internal server error' });
     return;
   }
   
-  const providedKey = req.headers['x-api-key'];
-  
-  if (!providedKey || providedKey !== API_KEY) {
-    res.status(401).json({ error: 'Unauthorized: Invalid or missing API key' });
+  // Login, logout and the session check handle signed-out requests
+  // themselves, and the API docs are public
+  if (!res.locals.apiKey && !res.locals.user && !isPublicPath(req.path)) {
+    res.status(401).json({ error: 'Unauthorized: Invalid or missing API key or session' });
     return;
   }
   
   next();
 }
 
-// Apply API key middleware to all API routes
-app.use('/api', apiKeyMiddleware);
+// Apply rate limits and authentication to all API routes
+app.use('/api', rateLimitByIp, authFailureGuard, authMiddleware, rateLimitByKey);
 
 // API Routes
-app.get('/api/loads', async (req: Request, res: Response) => {
+app.use('/api/negotiations', requireScope('negotiate'), negotiationRouter);
+app.use('/api/negotiation-strategies', requireScope('admin'), strategyRouter);
+app.use('/api/carriers', requireScope('carriers:read', 'carriers:write'), carrierRouter);
+app.use('/api/api-keys', requireScope('admin'), apiKeyRouter);
+app.use('/api/auth', authRouter);
+app.use('/api/users', requireRole('admin', 'admin'), userRouter);
+app.use('/api/rate-limits', requireScope('admin'), rateLimitRouter);
+app.use('/api/webhooks', requireScope('admin'), webhookRouter);
+app.use('/api/calls', requireRole('analyst', 'calls:read', 'calls:write'), callRouter);
+app.use('/api/analytics', requireRole('analyst', 'analytics:read'), analyticsRouter);
+app.use('/api/events', requireRole('viewer', 'analytics:read'), eventRouter);
+app.use('/api/exports', exportRouter);
+app.use('/api/reports', requireRole('analyst', 'analytics:read'), reportRouter);
+app.use('/api/docs', docsRouter);
+
+app.get('/api/loads', describeRoute({
+  operationId: 'searchLoads',
+  summary: 'Search available loads',
+  description: 'Only available loads are returned. Pages are fetched with next_cursor.',
+  tag: 'Loads',
+  responses: {
+    200: { description: 'A page of loads with rate_per_mile', schema: loadSearchResponseSchema },
+    403: 'Carrier is not eligible, or the key lacks the scope or the user the role'
+  }
+}), requireScope('loads:read'), validate({ query: loadSearchQuerySchema }), async (req: Request, res: Response) => {
   try {
-    const origin = req.query.origin as string | undefined;
-    const destination = req.query.destination as string | undefined;
-    
-    const loads = await getLoads(origin, destination);
-    res.json(loads);
+    const { mc_number, ...filters } = res.locals.query as LoadSearchQuery;
+
+    const carrier = await enforceCarrierEligibility(mc_number, res);
+    if (carrier === undefined) {
+      return;
+    }
+
+    const result = await getLoads(filters);
+    res.json(carrier ? { ...result, carrier } : result);
   } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      sendValidationError(res, [{ field: 'cursor', message: 'cursor is invalid' }]);
+      return;
+    }
     console.error('Error fetching loads:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-app.get('/api/negotiate', async (req: Request, res: Response) => {
+// Loads picking up near a point, sorted by deadhead distance. The point is
+// either lat/lng or a city/state/ZIP resolved through the bundled gazetteer.
+app.get('/api/loads/nearby', describeRoute({
+  operationId: 'searchNearbyLoads',
+  summary: 'Available loads picking up near a point',
+  description: 'Sorted by deadhead distance from the center to the pickup.',
+  tag: 'Loads',
+  responses: {
+    200: { description: 'Loads within radius_miles with their deadhead_miles', schema: nearbyLoadsResponseSchema },
+    403: 'Carrier is not eligible, or the key lacks the scope or the user the role',
+    404: 'Unknown location'
+  }
+}), requireScope('loads:read'), validate({ query: nearbyLoadsQuerySchema }), async (req: Request, res: Response) => {
+  try {
+    const { lat, lng, city, radius_miles, mc_number, ...filters } = res.locals.query as NearbyLoadsQuery;
+
+    let center: { lat: number; lng: number; city?: string; state?: string };
+    if (lat !== undefined && lng !== undefined) {
+      center = { lat, lng };
+    } else {
+      const place = resolveLocation(city as string);
+      if (!place) {
+        res.status(404).json({ error: `Unknown location: ${city}` });
+        return;
+      }
+      center = place;
+    }
+
+    const carrier = await enforceCarrierEligibility(mc_number, res);
+    if (carrier === undefined) {
+      return;
+    }
+
+    const result = await getNearbyLoads(center, radius_miles, filters);
+    res.json(carrier ? { center, radius_miles, ...result, carrier } : { center, radius_miles, ...result });
+  } catch (error) {
+    console.error('Error fetching nearby loads:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.get('/api/loads/:id', describeRoute({
+  operationId: 'getLoad',
+  summary: 'Fetch a load',
+  tag: 'Loads',
+  responses: { 200: { description: 'The load', schema: loadSchema }, 404: 'Load not found' }
+}), requireScope('loads:read'), validate({ params: loadIdParamsSchema }), async (req: Request, res: Response) => {
   try {
-    const load_id = req.query.load_id ? Number(req.query.load_id) : undefined;
-    const offered_rate = req.query.offered_rate ? Number(req.query.offered_rate) : undefined;
-    const counter_offer = req.query.counter_offer ? Number(req.query.counter_offer) : undefined;
+    const { id: load_id } = res.locals.params as LoadIdParams;
 
-    // Validate required fields
-    if (load_id === undefined || offered_rate === undefined || counter_offer === undefined) {
-      res.status(400).json({ error: 'Missing required fields: load_id, offered_rate, and counter_offer are required' });
+    const load = await getLoadById(load_id);
+    if (!load) {
+      res.status(404).json({ error: 'Load not found' });
       return;
     }
 
-    // Validate types (check for NaN after Number conversion)
-    if (isNaN(load_id) || isNaN(offered_rate) || isNaN(counter_offer)) {
-      res.status(400).json({ error: 'Invalid field types: load_id, offered_rate, and counter_offer must be numbers' });
+    res.json(load);
+  } catch (error) {
+    console.error('Error fetching load:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.post('/api/loads', describeRoute({
+  operationId: 'createLoad',
+  summary: 'Create a load',
+  tag: 'Loads',
+  requestBody: { description: 'The load', contentTypes: ['application/json'], schema: loadInputSchema },
+  responses: { 201: { description: 'The created load', schema: loadSchema } }
+}), requireScope('loads:write'), async (req: Request, res: Response) => {
+  try {
+    const { load, errors } = validateLoadInput(req.body);
+    if (!load) {
+      sendValidationError(res, errors);
       return;
     }
 
-    // Fetch load to get maximum_rate
+    const created = await createLoad(load);
+    res.status(201).json(created);
+  } catch (error) {
+    console.error('Error creating load:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Accepts a JSON array (or { loads: [...] }) or a text/csv body with a header row.
+// Rows carrying an existing load_id are updated, the rest are inserted. Invalid
+// rows are reported individually and do not block the valid ones.
+app.post('/api/loads/bulk', describeRoute({
+  operationId: 'importLoads',
+  summary: 'Create or update many loads',
+  description: 'Rows carrying an existing load_id are updated, the rest are inserted. Invalid rows are reported individually and do not block the valid ones.',
+  tag: 'Loads',
+  requestBody: { description: 'A JSON array of loads, { "loads": [...] } or text/csv with a header row', contentTypes: ['application/json', 'text/csv'] },
+  responses: {
+    201: 'Per-row results with created, updated and failed counts',
+    400: 'No valid rows; per-row errors are listed',
+    409: 'A row updates a load that is held or booked; nothing is imported'
+  }
+}), requireScope('loads:write'), express.text({ type: 'text/csv', limit: '5mb' }), async (req: Request, res: Response) => {
+  try {
+    let rows: unknown[];
+    if (req.is('text/csv')) {
+      rows = parseCsv(typeof req.body === 'string' ? req.body : '');
+    } else if (Array.isArray(req.body)) {
+      rows = req.body;
+    } else if (req.body && Array.isArray(req.body.loads)) {
+      rows = req.body.loads;
+    } else {
+      sendValidationError(res, [{ field: 'body', message: 'body must be a JSON array of loads, { "loads": [...] } or text/csv' }]);
+      return;
+    }
+
+    if (rows.length === 0) {
+      sendValidationError(res, [{ field: 'body', message: 'body has no loads to import' }]);
+      return;
+    }
+
+    const valid: Array<LoadUpsert & { row: number }> = [];
+    const failed: Array<{ row: number; errors: FieldError[] }> = [];
+
+    rows.forEach((raw, index) => {
+      const row = index + 1;
+      const { load, errors } = validateLoadInput(raw);
+
+      const rawId = raw && typeof raw === 'object' ? (raw as Record<string, unknown>).load_id : undefined;
+      const { data: load_id, errors: idErrors } = parseInput(importedLoadIdSchema, rawId, 'load_id');
+      errors.push(...idErrors);
+
+      if (load && errors.length === 0) {
+        valid.push({ row, load_id: load_id ?? undefined, load });
+      } else {
+        failed.push({ row, errors });
+      }
+    });
+
+    const written = valid.length > 0 ? await upsertLoads(valid) : [];
+
+    const results = [
+      ...valid.map((entry, i) => ({
+        row: entry.row,
+        status: written[i].created ? 'created' : 'updated',
+        load_id: written[i].load_id
+      })),
+      ...failed.map(entry => ({ row: entry.row, status: 'error', errors: entry.errors }))
+    ].sort((a, b) => a.row - b.row);
+
+    res.status(written.length > 0 ? 201 : 400).json({
+      created: written.filter(w => w.created).length,
+      updated: written.filter(w => !w.created).length,
+      failed: failed.length,
+      results
+    });
+  } catch (error) {
+    if (error instanceof LoadHoldError) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+    console.error('Error importing loads:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.put('/api/loads/:id', describeRoute({
+  operationId: 'replaceLoad',
+  summary: 'Replace a load',
+  tag: 'Loads',
+  requestBody: { description: 'The load', contentTypes: ['application/json'], schema: loadInputSchema },
+  responses: {
+    200: { description: 'The updated load', schema: loadSchema },
+    404: 'Load not found',
+    409: 'Load is held or booked'
+  }
+}), requireScope('loads:write'), validate({ params: loadIdParamsSchema }), async (req: Request, res: Response) => {
+  try {
+    const { id: load_id } = res.locals.params as LoadIdParams;
+
+    const { load, errors } = validateLoadInput(req.body);
+    if (!load) {
+      sendValidationError(res, errors);
+      return;
+    }
+
+    const updated = await updateLoad(load_id, load);
+    if (!updated) {
+      res.status(404).json({ error: 'Load not found' });
+      return;
+    }
+
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof LoadHoldError) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+    console.error('Error updating load:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.patch('/api/loads/:id', describeRoute({
+  operationId: 'updateLoad',
+  summary: 'Update some fields of a load',
+  description: 'Fields not given keep their values; the merged load must be valid.',
+  tag: 'Loads',
+  requestBody: { description: 'Any load fields', contentTypes: ['application/json'] },
+  responses: {
+    200: { description: 'The updated load', schema: loadSchema },
+    404: 'Load not found',
+    409: 'Load is held or booked'
+  }
+}), requireScope('loads:write'), validate({ params: loadIdParamsSchema }), async (req: Request, res: Response) => {
+  try {
+    const { id: load_id } = res.locals.params as LoadIdParams;
+
+    const existing = await getLoadById(load_id);
+    if (!existing) {
+      res.status(404).json({ error: 'Load not found' });
+      return;
+    }
+
+    // Validate the merged record so cross-field rules such as
+    // maximum_rate > loadboard_rate still hold after a partial update
+    const { load, errors } = validateLoadInput(req.body, existing);
+    if (!load) {
+      sendValidationError(res, errors);
+      return;
+    }
+
+    const updated = await updateLoad(load_id, load);
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof LoadHoldError) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+    console.error('Error updating load:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.post('/api/loads/:id/transition', describeRoute({
+  operationId: 'transitionLoad',
+  summary: 'Move a load to another status',
+  tag: 'Loads',
+  responses: {
+    200: { description: 'The updated load', schema: loadSchema },
+    404: 'Load not found',
+    409: 'Transition not allowed from the current status; allowed lists the valid ones'
+  }
+}), requireScope('loads:write'), validate({ params: loadIdParamsSchema, body: loadTransitionSchema }), async (req: Request, res: Response) => {
+  try {
+    const { id: load_id } = res.locals.params as LoadIdParams;
+    const { status, reason } = res.locals.body as LoadTransitionInput;
+
+    const existing = await getLoadById(load_id);
+    if (!existing) {
+      res.status(404).json({ error: 'Load not found' });
+      return;
+    }
+
+    const load = await transitionLoad(load_id, status, reason);
+    res.json(load);
+  } catch (error) {
+    if (error instanceof LoadTransitionError) {
+      res.status(409).json({ error: error.message, allowed: LOAD_TRANSITIONS[error.from] });
+      return;
+    }
+    console.error('Error transitioning load:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.get('/api/loads/:id/history', describeRoute({
+  operationId: 'getLoadHistory',
+  summary: 'Status changes of a load',
+  tag: 'Loads',
+  responses: { 200: 'Status changes, oldest first', 404: 'Load not found' }
+}), requireScope('loads:read'), validate({ params: loadIdParamsSchema }), async (req: Request, res: Response) => {
+  try {
+    const { id: load_id } = res.locals.params as LoadIdParams;
+
     const load = await getLoadById(load_id);
     if (!load) {
       res.status(404).json({ error: 'Load not found' });
       return;
     }
 
-    const loadboard_rate = offered_rate;
-    const maximum_rate = load.maximum_rate;
-    let new_rate: number;
+    const history = await getLoadStatusHistory(load_id);
+    res.json({ load_id, status: load.status, history });
+  } catch (error) {
+    console.error('Error fetching load history:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.post('/api/loads/:id/hold', describeRoute({
+  operationId: 'holdLoad',
+  summary: 'Hold a load for a call',
+  description: 'Holding again with the same call_id extends the hold. Holds are released automatically when they expire.',
+  tag: 'Holds',
+  responses: {
+    200: 'The extended hold',
+    201: 'The new hold',
+    403: 'Carrier is not eligible, or the key lacks the scope or the user the role',
+    404: 'Load not found',
+    409: 'Load is not available or is held by another call'
+  }
+}), requireScope('negotiate'), validate({ params: loadIdParamsSchema, body: loadHoldSchema }), async (req: Request, res: Response) => {
+  try {
+    const { id: load_id } = res.locals.params as LoadIdParams;
+    const { call_id, ttl_seconds = LOAD_HOLD_TTL_SECONDS, mc_number } = res.locals.body as LoadHoldInput;
+
+    const load = await getLoadById(load_id);
+    if (!load) {
+      res.status(404).json({ error: 'Load not found' });
+      return;
+    }
+
+    const carrier = await enforceCarrierEligibility(mc_number, res);
+    if (carrier === undefined) {
+      return;
+    }
+
+    const { hold, created } = await holdLoad(load_id, call_id, {
+      ttl_seconds,
+      mc_number: carrier ? carrier.mc_number : undefined
+    });
+    res.status(created ? 201 : 200).json(hold);
+  } catch (error) {
+    if (error instanceof LoadHoldError) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+    console.error('Error holding load:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.delete('/api/loads/:id/hold', describeRoute({
+  operationId: 'releaseLoadHold',
+  summary: 'Release the hold of a call',
+  description: 'call_id may be given in the query string or the body.',
+  tag: 'Holds',
+  responses: { 200: 'Hold released', 404: 'No active hold for this call' }
+}), requireScope('negotiate'), validate({ params: loadIdParamsSchema, query: holdReleaseSchema, body: holdReleaseSchema }), async (req: Request, res: Response) => {
+  try {
+    const { id: load_id } = res.locals.params as LoadIdParams;
+
+    const call_id = (res.locals.query as HoldRelease).call_id ?? (res.locals.body as HoldRelease).call_id;
+    if (call_id === undefined) {
+      sendValidationError(res, [{ field: 'call_id', message: 'call_id is required' }]);
+      return;
+    }
+
+    const released = await releaseHold(load_id, call_id);
+    if (!released) {
+      res.status(404).json({ error: 'No active hold for this call' });
+      return;
+    }
 
-    // Apply negotiation logic
-    let provisional_rate: number;
-    if (counter_offer > maximum_rate) {
-      const difference = maximum_rate - loadboard_rate;
-      provisional_rate = loadboard_rate + (difference / 2);
+    res.json({ message: 'Hold released successfully', load_id });
+  } catch (error) {
+    console.error('Error releasing hold:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.post('/api/loads/:id/book', describeRoute({
+  operationId: 'bookLoad',
+  summary: 'Book a load held by a call',
+  tag: 'Holds',
+  responses: {
+    200: { description: 'The booked load', schema: loadSchema },
+    404: 'Load not found',
+    409: 'The call does not hold the load, or the load cannot be booked'
+  }
+}), requireScope('negotiate'), validate({ params: loadIdParamsSchema, body: loadBookingSchema }), async (req: Request, res: Response) => {
+  try {
+    const { id: load_id } = res.locals.params as LoadIdParams;
+    const { call_id } = res.locals.body as LoadBookingInput;
+
+    const existing = await getLoadById(load_id);
+    if (!existing) {
+      res.status(404).json({ error: 'Load not found' });
+      return;
+    }
+
+    const load = await bookLoad(load_id, call_id);
+    res.json(load);
+  } catch (error) {
+    if (error instanceof LoadHoldError || error instanceof LoadTransitionError) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+    console.error('Error booking load:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.delete('/api/loads/:id', describeRoute({
+  operationId: 'deleteLoad',
+  summary: 'Delete or cancel a load',
+  description: 'Available and cancelled loads that no call, negotiation or hold refers to are deleted; other loads are cancelled so their history and bookings are kept.',
+  tag: 'Loads',
+  responses: {
+    200: 'Load deleted, or cancelled with the load returned',
+    404: 'Load not found',
+    409: 'Load is held or booked, or can no longer be cancelled'
+  }
+}), requireScope('loads:write'), validate({ params: loadIdParamsSchema }), async (req: Request, res: Response) => {
+  try {
+    const { id: load_id } = res.locals.params as LoadIdParams;
+
+    const removal = await deleteLoad(load_id);
+    if (!removal) {
+      res.status(404).json({ error: 'Load not found' });
+      return;
+    }
+
+    if (removal.deleted) {
+      res.json({ message: 'Load deleted successfully', load_id });
     } else {
-      const difference = counter_offer - loadboard_rate;
-      provisional_rate = loadboard_rate + (difference / 2);
+      res.json({ message: 'Load cancelled', load: removal.load });
+    }
+  } catch (error) {
+    if (error instanceof LoadHoldError || error instanceof LoadTransitionError) {
+      res.status(409).json({ error: error.message });
+      return;
     }
-    // Round to nearest hundred
-    new_rate = Math.round(provisional_rate / 100) * 100;
-    // Ensure new_rate does not exceed either maximum_rate or counter_offer
-    new_rate = Math.min(new_rate, maximum_rate, counter_offer);
+    console.error('Error deleting load:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    res.json({new_rate});
+app.get('/api/negotiate', describeRoute({
+  operationId: 'negotiateRate',
+  summary: 'Our next offer for a counter offer',
+  description: 'Stateless; use /api/negotiations to have rounds tracked.',
+  tag: 'Negotiations',
+  responses: {
+    200: { description: 'The next offer and the strategy that produced it', schema: negotiateResponseSchema },
+    403: 'Carrier is not eligible, or the key lacks the scope or the user the role',
+    404: 'Load not found',
+    409: 'Load is not available'
+  }
+}), requireScope('negotiate'), validate({ query: negotiateQuerySchema }), async (req: Request, res: Response) => {
+  try {
+    const { load_id, offered_rate, counter_offer, round, mc_number } = res.locals.query as NegotiateQuery;
+
+    const carrier = await enforceCarrierEligibility(mc_number, res);
+    if (carrier === undefined) {
+      return;
+    }
+
+    // Fetch load to get maximum_rate
+    const load = await getLoadById(load_id);
+    if (!load) {
+      res.status(404).json({ error: 'Load not found' });
+      return;
+    }
+
+    if (load.status !== 'available') {
+      res.status(409).json({ error: `Load is not available (status: ${load.status})` });
+      return;
+    }
+
+    const strategy = await resolveStrategy(load);
+    const new_rate = calculateCounterRate(strategy, {
+      loadboard_rate: load.loadboard_rate,
+      maximum_rate: load.maximum_rate,
+      offered_rate,
+      counter_offer,
+      round
+    });
+
+    res.json(carrier
+      ? { new_rate, strategy: describeStrategy(strategy), carrier }
+      : { new_rate, strategy: describeStrategy(strategy) });
   } catch (error) {
     console.error('Error negotiating rate:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-app.post('/api/callsdata', async (req: Request, res: Response) => {
+app.post('/api/callsdata', describeRoute({
+  operationId: 'recordCall',
+  summary: 'Record the outcome of a call',
+  description: 'A successful call books its load. Sending a call again with the same id is safe: identical data '
+    + 'gets the original response, with Idempotent-Replayed: true, and different data a 409 listing the conflicts.',
+  tag: 'Calls',
+  responses: {
+    201: { description: 'Call recorded', schema: messageResponseSchema },
+    409: 'The load cannot be booked, or a call with this id was recorded with different data'
+  }
+}), requireScope('calls:write'), validate({ body: callDataSchema }), async (req: Request, res: Response) => {
   try {
-    const { id, duration, mc_number, final_offer, final_counter_offer, offer_iterations, successful, sentiment } = req.body;
+    const call = res.locals.body as CallData;
+    let { final_offer, final_counter_offer, offer_iterations } = call;
+
+    // When the call went through a negotiation session (given explicitly or
+    // opened with this call's id), the offer fields are derived from the
+    // session instead of being self-reported
+    let negotiation = null;
+    if (call.negotiation_id) {
+      negotiation = await getNegotiation(call.negotiation_id);
+      if (!negotiation) {
+        sendValidationError(res, [{ field: 'negotiation_id', message: 'negotiation_id does not match a negotiation' }]);
+        return;
+      }
+    } else {
+      negotiation = await getNegotiationForCall(call.id);
+    }
+    if (negotiation) {
+      ({ final_offer, final_counter_offer, offer_iterations } = summarizeNegotiation(negotiation));
+    }
 
-    // Validate required fields
-    if (id === undefined || duration === undefined || mc_number === undefined || 
-        final_offer === undefined || final_counter_offer === undefined || 
-        offer_iterations === undefined || successful === undefined || sentiment === undefined) {
-      res.status(400).json({ error: 'Missing required fields: id, duration, mc_number, final_offer, final_counter_offer, offer_iterations, successful, and sentiment are required' });
+    const offers = { final_offer, final_counter_offer, offer_iterations };
+    const missing = (Object.keys(offers) as Array<keyof typeof offers>).filter(field => offers[field] === undefined);
+    if (missing.length > 0) {
+      sendValidationError(res, missing.map(field => ({ field, message: `${field} is required without a negotiation session` })));
       return;
     }
 
-    // Convert string inputs to appropriate data types
-    // Convert id to string
-    const normalizedId = String(id);
-    
-    // Convert numeric fields from strings to numbers
-    const normalizedDuration = typeof duration === 'string' ? Number(duration) : duration;
-    const normalizedMcNumber = typeof mc_number === 'string' ? Number(mc_number) : mc_number;
-    const normalizedFinalOffer = typeof final_offer === 'string' ? Number(final_offer) : final_offer;
-    const normalizedFinalCounterOffer = typeof final_counter_offer === 'string' ? Number(final_counter_offer) : final_counter_offer;
-    const normalizedOfferIterations = typeof offer_iterations === 'string' ? Number(offer_iterations) : offer_iterations;
-    
-    // Convert successful to boolean (handle both string and boolean inputs)
-    let normalizedSuccessful: boolean;
-    if (typeof successful === 'string') {
-      const lowerSuccess = successful.toLowerCase();
-      normalizedSuccessful = lowerSuccess === 'success';
-    } else {
-      res.status(400).json({ error: 'Invalid field type: successful must be a string' });
+    // The discussed load defaults to the one negotiated on the call
+    const load_id = call.load_id ?? negotiation?.load_id ?? null;
+    const pitched_load_ids = call.pitched_load_ids ?? [];
+
+    const missingLoadIds = await findMissingLoadIds([...pitched_load_ids, ...(load_id !== null ? [load_id] : [])]);
+    if (missingLoadIds.length > 0) {
+      sendValidationError(res, missingLoadIds.map(missingId => ({
+        field: missingId === load_id ? 'load_id' : 'pitched_load_ids',
+        message: `load ${missingId} does not exist`
+      })));
       return;
     }
-    
-    // Convert sentiment to string
-    const normalizedSentiment = String(sentiment);
 
-    // Validate converted types
-    if (isNaN(normalizedDuration) || isNaN(normalizedMcNumber) || isNaN(normalizedFinalOffer) || 
-        isNaN(normalizedFinalCounterOffer) || isNaN(normalizedOfferIterations)) {
-      res.status(400).json({ error: 'Invalid numeric values: duration, mc_number, final_offer, final_counter_offer, and offer_iterations must be valid numbers' });
+    const record = {
+      ...call,
+      final_offer: final_offer as number,
+      final_counter_offer: final_counter_offer as number,
+      offer_iterations: offer_iterations as number,
+      negotiation_id: negotiation ? negotiation.id : null,
+      load_id,
+      pitched_load_ids
+    };
+
+    // A retry of a call that was already recorded. Only the fields PATCH
+    // cannot change are compared, so a retry still matches an enriched call.
+    const replayCall = async (): Promise<boolean> => {
+      const stored = await getCall(call.id);
+      if (!stored) {
+        return false;
+      }
+      const { id, ...sent } = record;
+      const conflicts = findCallConflicts(stored, sent);
+      if (conflicts.length > 0) {
+        res.status(409).json({
+          error: `Call ${id} was already recorded with different data; use PATCH /api/calls/${id} to change it`,
+          conflicts
+        });
+        return true;
+      }
+      res.setHeader('Idempotent-Replayed', 'true');
+      res.status(201).json({ message: 'Call data saved successfully', id });
+      return true;
+    };
+
+    if (await replayCall()) {
       return;
     }
 
     // Insert call data into database
-    await insertCall({
-      id: normalizedId,
-      duration: normalizedDuration,
-      mc_number: normalizedMcNumber,
-      final_offer: normalizedFinalOffer,
-      final_counter_offer: normalizedFinalCounterOffer,
-      offer_iterations: normalizedOfferIterations,
-      successful: normalizedSuccessful,
-      sentiment: normalizedSentiment
-    });
+    try {
+      await insertCall(record);
+    } catch (error) {
+      // The same call sent twice at once
+      if (isUniqueViolation(error) && await replayCall()) {
+        return;
+      }
+      throw error;
+    }
+
+    // A session still open when the call ends is closed with the call's outcome
+    if (negotiation && negotiation.status === 'open') {
+      await closeNegotiation(negotiation.id, call.successful ? 'accepted' : 'rejected');
+    }
 
-    res.status(201).json({ message: 'Call data saved successfully', id: normalizedId });
+    res.status(201).json({ message: 'Call data saved successfully', id: call.id });
   } catch (error) {
+    if (error instanceof LoadTransitionError) {
+      res.status(409).json({ error: `Load cannot be booked: it is already ${error.from}` });
+      return;
+    }
+    if (error instanceof LoadHoldError) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
     console.error('Error saving call data:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-app.get('/api/dashboard', async (req: Request, res: Response) => {
+app.get('/api/dashboard', describeRoute({
+  operationId: 'getDashboard',
+  summary: 'Call and booking metrics for the dashboard',
+  description: 'Totals over the range, a timeline split into buckets in tz, and the change from the period of the same length before.',
+  tag: 'Dashboard',
+  responses: { 200: 'Aggregated call metrics' }
+}), requireRole('viewer', 'analytics:read'), validate({ query: timeRangeQuerySchema }), async (req: Request, res: Response) => {
   try {
-    const dashboardData = await getDashboardData();
+    const dashboardData = await getDashboardData(res.locals.query as TimeRangeQuery);
     res.json(dashboardData);
   } catch (error) {
     console.error('Error fetching dashboard data:', error);
@@ -187,10 +795,79 @@ if (process.env.NODE_ENV === 'production') {
   });
 }
 
+async function expireOverdueLoads(): Promise<void> {
+  try {
+    const expired = await expireLoads();
+    if (expired > 0) {
+      console.log(`Expired ${expired} loads past their pickup time`);
+    }
+  } catch (error) {
+    console.error('Error expiring loads:', error);
+  }
+}
+
+async function releaseStaleHolds(): Promise<void> {
+  try {
+    const released = await releaseExpiredHolds();
+    if (released > 0) {
+      console.log(`Released ${released} expired load holds`);
+    }
+  } catch (error) {
+    console.error('Error releasing expired holds:', error);
+  }
+}
+
+async function deliverWebhooks(): Promise<void> {
+  try {
+    await deliverDueWebhooks();
+  } catch (error) {
+    console.error('Error delivering webhooks:', error);
+  }
+}
+
+async function runReports(): Promise<void> {
+  try {
+    await runScheduledReports();
+  } catch (error) {
+    console.error('Error running scheduled reports:', error);
+  }
+}
+
+// Creates the first dashboard admin from ADMIN_EMAIL and ADMIN_PASSWORD when
+// there are no users yet; later users are managed through /api/users
+async function ensureAdminUser(): Promise<void> {
+  const email = process.env.ADMIN_EMAIL;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!email || !password || (await countUsers()) > 0) {
+    return;
+  }
+
+  await createUser({ email: email.trim().toLowerCase(), name: 'Admin', role: 'admin', disabled: false, password });
+  console.log(`Created admin user ${email}`);
+}
+
 // Initialize database and start server
 async function startServer(): Promise<void> {
   try {
+    await migrateUp();
     await initializeDatabase();
+    await ensureAdminUser();
+    await seedRateLimitRules();
+    // Webhook deliveries are queued with each change and sent once it commits
+    addEventOutbox(enqueueWebhookDeliveries);
+    subscribe(() => {
+      deliverWebhooks();
+    });
+    await expireOverdueLoads();
+    setInterval(expireOverdueLoads, LOAD_EXPIRY_INTERVAL_MINUTES * 60 * 1000).unref();
+    setInterval(releaseStaleHolds, HOLD_SWEEP_INTERVAL_MS).unref();
+    setInterval(deliverWebhooks, WEBHOOK_RETRY_INTERVAL_MS).unref();
+    loadReportSchedules();
+    setInterval(runReports, REPORT_CHECK_INTERVAL_MS).unref();
+    setInterval(pruneRateLimitBuckets, 60 * 1000).unref();
+    setInterval(() => {
+      deleteExpiredSessions().catch(error => console.error('Error deleting expired sessions:', error));
+    }, 60 * 60 * 1000).unref();
     app.listen(PORT, () => {
       console.log(`Server running on port ${PORT}`);
     });
@@ -0,0 +1,218 @@
+import express, { Request, Response } from 'express';
+import {
+  listStrategies, getStrategy, createStrategy, updateStrategy, deleteStrategy, isStrategyAssigned,
+  validateStrategyInput, listAssignments, setAssignment, removeAssignment, normalizeScopeValue,
+  strategyInputSchema, NegotiationStrategy, StrategyInput
+} from './negotiationStrategies';
+import { simulateStrategy } from './negotiationSimulator';
+import { isUniqueViolation } from './database';
+import {
+  strategyIdParamsSchema, strategySimulationSchema, strategyAssignmentParamsSchema, strategyAssignmentSchema,
+  StrategyIdParams, StrategySimulationInput, StrategyAssignmentParams, StrategyAssignmentInput
+} from './schemas';
+import { validate, sendValidationError } from './validation';
+import { describeRoute } from './openapi';
+
+export const strategyRouter = express.Router();
+
+strategyRouter.get('/', describeRoute({
+  operationId: 'listStrategies',
+  summary: 'List negotiation strategies',
+  tag: 'Strategies',
+  responses: { 200: 'All strategies' }
+}), async (req: Request, res: Response) => {
+  try {
+    res.json(await listStrategies());
+  } catch (error) {
+    console.error('Error fetching strategies:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+strategyRouter.post('/', describeRoute({
+  operationId: 'createStrategy',
+  summary: 'Create a negotiation strategy',
+  tag: 'Strategies',
+  responses: { 201: 'The created strategy', 409: 'A strategy with this name already exists' }
+}), validate({ body: strategyInputSchema }), async (req: Request, res: Response) => {
+  try {
+    res.status(201).json(await createStrategy(res.locals.body as StrategyInput));
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      res.status(409).json({ error: 'A strategy with this name already exists' });
+      return;
+    }
+    console.error('Error creating strategy:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Backtest a stored strategy ({ strategy_id }) or an unsaved one
+// ({ strategy: {...} }) against recorded calls, optionally within from/to
+strategyRouter.post('/simulate', describeRoute({
+  operationId: 'simulateStrategy',
+  summary: 'Backtest a strategy against recorded calls',
+  tag: 'Strategies',
+  responses: { 200: 'Simulated outcomes compared with the recorded ones', 404: 'Strategy not found' }
+}), validate({ body: strategySimulationSchema }), async (req: Request, res: Response) => {
+  try {
+    const { strategy_id, strategy: input, from, to } = res.locals.body as StrategySimulationInput;
+
+    let strategy: NegotiationStrategy | null;
+    if (strategy_id !== undefined) {
+      strategy = await getStrategy(strategy_id);
+      if (!strategy) {
+        res.status(404).json({ error: 'Strategy not found' });
+        return;
+      }
+    } else {
+      strategy = { id: null, ...input as StrategyInput };
+    }
+
+    const report = await simulateStrategy(strategy, { from, to });
+    res.json({ strategy, ...report });
+  } catch (error) {
+    console.error('Error simulating strategy:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+strategyRouter.get('/assignments', describeRoute({
+  operationId: 'listStrategyAssignments',
+  summary: 'List strategy assignments',
+  tag: 'Strategies',
+  responses: { 200: 'Assignments by load, equipment type and the global default' }
+}), async (req: Request, res: Response) => {
+  try {
+    res.json(await listAssignments());
+  } catch (error) {
+    console.error('Error fetching strategy assignments:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PUT /assignments/global, /assignments/load/:load_id or
+// /assignments/equipment_type/:equipment_type with { strategy_id }
+strategyRouter.put('/assignments/:scope/:value?', describeRoute({
+  operationId: 'setStrategyAssignment',
+  summary: 'Assign a strategy to a load, an equipment type or globally',
+  tag: 'Strategies',
+  responses: { 200: 'The assignment', 404: 'Strategy not found' }
+}), validate({ params: strategyAssignmentParamsSchema, body: strategyAssignmentSchema }), async (req: Request, res: Response) => {
+  try {
+    const { scope, value } = res.locals.params as StrategyAssignmentParams;
+    const { strategy_id } = res.locals.body as StrategyAssignmentInput;
+
+    if (!await getStrategy(strategy_id)) {
+      res.status(404).json({ error: 'Strategy not found' });
+      return;
+    }
+
+    res.json(await setAssignment(scope, normalizeScopeValue(scope, value), strategy_id));
+  } catch (error) {
+    console.error('Error assigning strategy:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+strategyRouter.delete('/assignments/:scope/:value?', describeRoute({
+  operationId: 'removeStrategyAssignment',
+  summary: 'Remove a strategy assignment',
+  tag: 'Strategies',
+  responses: { 200: 'Assignment removed', 404: 'Assignment not found' }
+}), validate({ params: strategyAssignmentParamsSchema }), async (req: Request, res: Response) => {
+  try {
+    const { scope, value } = res.locals.params as StrategyAssignmentParams;
+
+    const removed = await removeAssignment(scope, normalizeScopeValue(scope, value));
+    if (!removed) {
+      res.status(404).json({ error: 'Assignment not found' });
+      return;
+    }
+
+    res.json({ message: 'Assignment removed successfully' });
+  } catch (error) {
+    console.error('Error removing strategy assignment:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+strategyRouter.get('/:id', describeRoute({
+  operationId: 'getStrategy',
+  summary: 'Fetch a negotiation strategy',
+  tag: 'Strategies',
+  responses: { 200: 'The strategy', 404: 'Strategy not found' }
+}), validate({ params: strategyIdParamsSchema }), async (req: Request, res: Response) => {
+  try {
+    const { id } = res.locals.params as StrategyIdParams;
+    const strategy = await getStrategy(id);
+    if (!strategy) {
+      res.status(404).json({ error: 'Strategy not found' });
+      return;
+    }
+
+    res.json(strategy);
+  } catch (error) {
+    console.error('Error fetching strategy:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+strategyRouter.put('/:id', describeRoute({
+  operationId: 'updateStrategy',
+  summary: 'Replace a negotiation strategy',
+  tag: 'Strategies',
+  requestBody: { description: 'name, type and the parameters of that type', contentTypes: ['application/json'], schema: strategyInputSchema },
+  responses: { 200: 'The updated strategy', 404: 'Strategy not found', 409: 'A strategy with this name already exists' }
+}), validate({ params: strategyIdParamsSchema }), async (req: Request, res: Response) => {
+  try {
+    const { id } = res.locals.params as StrategyIdParams;
+    const existing = await getStrategy(id);
+    if (!existing) {
+      res.status(404).json({ error: 'Strategy not found' });
+      return;
+    }
+
+    // Fields left out keep their current value
+    const { strategy, errors } = validateStrategyInput(req.body, existing);
+    if (!strategy) {
+      sendValidationError(res, errors);
+      return;
+    }
+
+    res.json(await updateStrategy(id, strategy));
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      res.status(409).json({ error: 'A strategy with this name already exists' });
+      return;
+    }
+    console.error('Error updating strategy:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+strategyRouter.delete('/:id', describeRoute({
+  operationId: 'deleteStrategy',
+  summary: 'Delete a negotiation strategy',
+  tag: 'Strategies',
+  responses: { 200: 'Strategy deleted', 404: 'Strategy not found', 409: 'Strategy is still assigned' }
+}), validate({ params: strategyIdParamsSchema }), async (req: Request, res: Response) => {
+  try {
+    const { id } = res.locals.params as StrategyIdParams;
+
+    if (await isStrategyAssigned(id)) {
+      res.status(409).json({ error: 'Strategy is still assigned; remove its assignments first' });
+      return;
+    }
+
+    if (!await deleteStrategy(id)) {
+      res.status(404).json({ error: 'Strategy not found' });
+      return;
+    }
+
+    res.json({ message: 'Strategy deleted successfully', id });
+  } catch (error) {
+    console.error('Error deleting strategy:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
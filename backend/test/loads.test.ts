@@ -0,0 +1,176 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { spawn, ChildProcess } from 'child_process';
+import { mkdtempSync, rmSync } from 'fs';
+import type { AddressInfo } from 'net';
+
+// Runs the API server against a fresh database and talks to it over HTTP, so
+// the status codes are the ones clients see. server.ts starts listening when
+// it is loaded, so it runs as a child process.
+
+const API_KEY = 'test-admin-key';
+
+const directory = mkdtempSync(path.join(os.tmpdir(), 'loads-test-'));
+
+let server: ChildProcess;
+let baseUrl: string;
+
+async function freePort(): Promise<number> {
+  const probe = net.createServer();
+  await new Promise<void>(resolve => probe.listen(0, '127.0.0.1', resolve));
+  const { port } = probe.address() as AddressInfo;
+  await new Promise(resolve => probe.close(resolve));
+  return port;
+}
+
+async function request(method: string, url: string, body?: unknown): Promise<{ status: number; headers: Headers; body: any }> {
+  const response = await fetch(`${baseUrl}${url}`, {
+    method,
+    headers: { 'x-api-key': API_KEY, 'content-type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  return { status: response.status, headers: response.headers, body: await response.json() };
+}
+
+async function createLoad(): Promise<number> {
+  const pickup = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+  const delivery = new Date(pickup.getTime() + 2 * 24 * 60 * 60 * 1000);
+  const { status, body } = await request('POST', '/api/loads', {
+    origin: 'Chicago, IL',
+    destination: 'Dallas, TX',
+    pickup_datetime: pickup.toISOString(),
+    delivery_datetime: delivery.toISOString(),
+    equipment_type: 'Dry Van',
+    loadboard_rate: 1500,
+    weight: 20000,
+    commodity_type: 'Paper',
+    num_of_pieces: 10,
+    miles: 925,
+    dimensions: '48x40x60',
+    maximum_rate: 1800
+  });
+  assert.equal(status, 201);
+  return body.load_id;
+}
+
+function callData(id: string, load_id: number) {
+  return {
+    id,
+    duration: 240,
+    mc_number: 123456,
+    final_offer: 1600,
+    final_counter_offer: 1650,
+    offer_iterations: 2,
+    successful: true,
+    sentiment: 'positive',
+    load_id
+  };
+}
+
+before(async () => {
+  const port = await freePort();
+  baseUrl = `http://127.0.0.1:${port}`;
+  server = spawn(process.execPath, ['-r', 'ts-node/register/transpile-only', path.join(__dirname, '..', 'server.ts')], {
+    env: { ...process.env, DATABASE_PATH: path.join(directory, 'test.db'), API_KEY, PORT: String(port) },
+    stdio: ['ignore', 'pipe', 'inherit']
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    let output = '';
+    server.stdout?.on('data', chunk => {
+      output += chunk;
+      if (output.includes(`Server running on port ${port}`)) {
+        resolve();
+      }
+    });
+    server.on('exit', code => reject(new Error(`Server exited with code ${code}`)));
+  });
+});
+
+after(async () => {
+  if (server.exitCode === null) {
+    await new Promise(resolve => {
+      server.on('exit', resolve);
+      server.kill();
+    });
+  }
+  rmSync(directory, { recursive: true, force: true });
+});
+
+test('a held load cannot be held by another call, edited or deleted', async () => {
+  const load_id = await createLoad();
+
+  const hold = await request('POST', `/api/loads/${load_id}/hold`, { call_id: 'call-hold-1' });
+  assert.equal(hold.status, 201);
+  assert.equal((await request('GET', `/api/loads/${load_id}`)).body.status, 'pending');
+
+  const extended = await request('POST', `/api/loads/${load_id}/hold`, { call_id: 'call-hold-1' });
+  assert.equal(extended.status, 200);
+
+  const other = await request('POST', `/api/loads/${load_id}/hold`, { call_id: 'call-hold-2' });
+  assert.equal(other.status, 409);
+  assert.match(other.body.error, /held by another call/);
+
+  assert.equal((await request('PATCH', `/api/loads/${load_id}`, { loadboard_rate: 1400 })).status, 409);
+  assert.equal((await request('DELETE', `/api/loads/${load_id}`)).status, 409);
+  assert.equal((await request('GET', `/api/loads/${load_id}`)).body.loadboard_rate, 1500);
+});
+
+test('only the call that holds a load can book it, and only once', async () => {
+  const load_id = await createLoad();
+
+  const unheld = await request('POST', `/api/loads/${load_id}/book`, { call_id: 'call-book-1' });
+  assert.equal(unheld.status, 409);
+  assert.match(unheld.body.error, /no active hold/);
+
+  assert.equal((await request('POST', `/api/loads/${load_id}/hold`, { call_id: 'call-book-1' })).status, 201);
+  assert.equal((await request('POST', `/api/loads/${load_id}/book`, { call_id: 'call-book-2' })).status, 409);
+
+  const booked = await request('POST', `/api/loads/${load_id}/book`, { call_id: 'call-book-1' });
+  assert.equal(booked.status, 200);
+  assert.equal(booked.body.status, 'booked');
+
+  assert.equal((await request('POST', `/api/loads/${load_id}/book`, { call_id: 'call-book-1' })).status, 409);
+  assert.equal((await request('POST', `/api/loads/${load_id}/hold`, { call_id: 'call-book-3' })).status, 409);
+  assert.equal((await request('DELETE', `/api/loads/${load_id}`)).status, 409);
+});
+
+test('sending the same call again replays the original response', async () => {
+  const load_id = await createLoad();
+  const call = callData('call-replay-1', load_id);
+
+  const first = await request('POST', '/api/callsdata', call);
+  assert.equal(first.status, 201);
+  assert.equal(first.headers.get('idempotent-replayed'), null);
+  assert.equal((await request('GET', `/api/loads/${load_id}`)).body.status, 'booked');
+
+  const replay = await request('POST', '/api/callsdata', call);
+  assert.equal(replay.status, 201);
+  assert.equal(replay.headers.get('idempotent-replayed'), 'true');
+  assert.deepEqual(replay.body, first.body);
+
+  const history = await request('GET', `/api/loads/${load_id}/history`);
+  assert.equal(history.body.history.filter((change: { to_status: string }) => change.to_status === 'booked').length, 1);
+});
+
+test('sending a call again with different data is a conflict', async () => {
+  const load_id = await createLoad();
+  const call = callData('call-replay-2', load_id);
+  assert.equal((await request('POST', '/api/callsdata', call)).status, 201);
+
+  const changed = await request('POST', '/api/callsdata', { ...call, final_offer: 1700 });
+  assert.equal(changed.status, 409);
+  assert.deepEqual(changed.body.conflicts, [{ field: 'final_offer', stored: 1600, received: 1700 }]);
+});
+
+test('a successful call cannot book a load another call has booked', async () => {
+  const load_id = await createLoad();
+  assert.equal((await request('POST', '/api/callsdata', callData('call-first', load_id))).status, 201);
+
+  const second = await request('POST', '/api/callsdata', callData('call-second', load_id));
+  assert.equal(second.status, 409);
+  assert.match(second.body.error, /already booked/);
+});
@@ -0,0 +1,184 @@
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { mkdtempSync, rmSync } from 'fs';
+import { createHmac } from 'crypto';
+import type { AddressInfo } from 'net';
+import type { Webhook, WebhookDelivery } from '../schemas';
+import type { LiveEvent } from '../events';
+
+// Delivers to a local HTTP receiver, against a fresh database. The database
+// is picked when ../database is first loaded, so the modules are loaded in
+// before() once DATABASE_PATH is set.
+
+const SECRET = 'whsec_test_0123456789abcdef';
+
+const directory = mkdtempSync(path.join(os.tmpdir(), 'webhooks-test-'));
+
+interface Received {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+let received: Received[] = [];
+let responseStatus = 200;
+
+const receiver = http.createServer((req, res) => {
+  let body = '';
+  req.setEncoding('utf8');
+  req.on('data', chunk => {
+    body += chunk;
+  });
+  req.on('end', () => {
+    received.push({ headers: req.headers, body });
+    res.statusCode = responseStatus;
+    res.end(responseStatus < 300 ? 'ok' : 'unavailable');
+  });
+});
+
+let database: typeof import('../database');
+let events: typeof import('../events');
+let webhooks: typeof import('../webhooks');
+let webhook: Webhook;
+
+const statusChange: LiveEvent = {
+  type: 'load.status_changed',
+  data: { load_id: 1, from_status: 'available', to_status: 'expired', reason: 'test', changed_at: '2030-01-01 00:00:00' }
+};
+
+// 'YYYY-MM-DD HH:MM:SS' in UTC to milliseconds
+function parseTimestamp(value: string | null): number {
+  return Date.parse(`${(value as string).replace(' ', 'T')}Z`);
+}
+
+async function publish(event: LiveEvent): Promise<void> {
+  await database.withTransaction(async () => {
+    events.publishEvent(event);
+  });
+}
+
+async function latestDelivery(): Promise<WebhookDelivery> {
+  const { deliveries } = await webhooks.listWebhookDeliveries(webhook.id, { limit: 1, offset: 0 });
+  return deliveries[0];
+}
+
+// Makes every pending delivery due now instead of after its backoff
+async function skipBackoff(): Promise<void> {
+  await database.runQuery("UPDATE WEBHOOK_DELIVERIES SET next_attempt_at = '2000-01-01 00:00:00' WHERE status = 'pending'");
+}
+
+before(async () => {
+  process.env.DATABASE_PATH = path.join(directory, 'test.db');
+  database = await import('../database');
+  events = await import('../events');
+  webhooks = await import('../webhooks');
+  const { migrateUp } = await import('../migrator');
+  await migrateUp();
+  events.addEventOutbox(webhooks.enqueueWebhookDeliveries);
+
+  await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+  const { port } = receiver.address() as AddressInfo;
+  webhook = await webhooks.createWebhook({
+    url: `http://127.0.0.1:${port}/hooks`,
+    events: ['load.status_changed'],
+    secret: SECRET,
+    active: true
+  });
+});
+
+after(async () => {
+  await new Promise(resolve => receiver.close(resolve));
+  await new Promise(resolve => database.getDatabase().close(resolve));
+  rmSync(directory, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  received = [];
+  responseStatus = 200;
+});
+
+test('signs each delivery with the webhook secret', async () => {
+  await publish(statusChange);
+  assert.equal(await webhooks.deliverDueWebhooks(), 1);
+
+  assert.equal(received.length, 1);
+  const [{ headers, body }] = received;
+  assert.equal(headers['x-webhook-event'], 'load.status_changed');
+  assert.deepEqual(JSON.parse(body).data, statusChange.data);
+
+  const match = /^t=(\d+),v1=([0-9a-f]{64})$/.exec(headers['x-webhook-signature'] as string);
+  assert.ok(match, 'signature header has a timestamp and a v1 signature');
+  const expected = createHmac('sha256', SECRET).update(`${match[1]}.${body}`).digest('hex');
+  assert.equal(match[2], expected);
+  assert.ok(Math.abs(Number(match[1]) - Date.now() / 1000) < 60);
+
+  const delivery = await latestDelivery();
+  assert.equal(delivery.status, 'delivered');
+  assert.equal(delivery.attempts, 1);
+  assert.equal(delivery.event_id, headers['x-webhook-id']);
+});
+
+test('retries a failed delivery with exponential backoff', async () => {
+  responseStatus = 503;
+  await publish(statusChange);
+
+  // 30 seconds after the first failure, then 60 after the second
+  for (const [attempts, delaySeconds] of [[1, 30], [2, 60]]) {
+    const attemptedAt = Date.now();
+    assert.equal(await webhooks.deliverDueWebhooks(), 0);
+    const delivery = await latestDelivery();
+    assert.equal(delivery.status, 'pending');
+    assert.equal(delivery.attempts, attempts);
+    assert.equal(delivery.response_status, 503);
+    assert.match(delivery.last_error as string, /^HTTP 503/);
+    const delay = (parseTimestamp(delivery.next_attempt_at) - attemptedAt) / 1000;
+    assert.ok(Math.abs(delay - delaySeconds) <= 2, `retried after ${delay}s instead of ${delaySeconds}s`);
+
+    // Not due yet
+    assert.equal(await webhooks.deliverDueWebhooks(), 0);
+    assert.equal((await latestDelivery()).attempts, attempts);
+    await skipBackoff();
+  }
+
+  responseStatus = 200;
+  assert.equal(await webhooks.deliverDueWebhooks(), 1);
+  const delivery = await latestDelivery();
+  assert.equal(delivery.status, 'delivered');
+  assert.equal(delivery.attempts, 3);
+  assert.equal(delivery.next_attempt_at, null);
+  assert.equal(received.length, 3);
+  assert.equal(new Set(received.map(request => request.body)).size, 1, 'every attempt sends the same payload');
+});
+
+test('redelivers the payload as a new delivery of the same event', async () => {
+  await publish(statusChange);
+  await webhooks.deliverDueWebhooks();
+  const original = await latestDelivery();
+
+  const redelivery = await webhooks.redeliverWebhook(original);
+  assert.notEqual(redelivery.id, original.id);
+  assert.equal(redelivery.redelivery_of, original.id);
+  assert.equal(redelivery.event_id, original.event_id);
+  assert.equal(redelivery.status, 'pending');
+
+  assert.equal(await webhooks.deliverDueWebhooks(), 1);
+  assert.equal(received.length, 2);
+  assert.equal(received[1].body, received[0].body);
+  assert.equal(received[1].headers['x-webhook-id'], original.event_id);
+  assert.equal(received[1].headers['x-webhook-delivery'], String(redelivery.id));
+  assert.equal((await webhooks.getWebhookDelivery(webhook.id, original.id))?.status, 'delivered');
+});
+
+test('queues nothing for a change that is rolled back', async () => {
+  const before = (await webhooks.listWebhookDeliveries(webhook.id, { limit: 1, offset: 0 })).total;
+  await assert.rejects(database.withTransaction(async () => {
+    events.publishEvent(statusChange);
+    throw new Error('rolled back');
+  }), /rolled back/);
+
+  assert.equal((await webhooks.listWebhookDeliveries(webhook.id, { limit: 1, offset: 0 })).total, before);
+  assert.equal(await webhooks.deliverDueWebhooks(), 0);
+  assert.equal(received.length, 0);
+});
@@ -0,0 +1,268 @@
+import { normalizeDateBound } from './loadValidation';
+
+// Time ranges for the analytics routes. Bucket boundaries are worked out here
+// in the requested timezone and handed to SQLite as UTC instants, since
+// SQLite itself only knows UTC and the server's local time.
+
+export const TIME_BUCKETS = ['hour', 'day', 'week', 'month'] as const;
+
+export type TimeBucket = typeof TIME_BUCKETS[number];
+
+// Buckets a range may be split into, so an hourly range cannot span years
+export const MAX_TIME_BUCKETS = 500;
+
+// Buckets covered when the range start is not given
+const DEFAULT_BUCKET_COUNTS: Record<TimeBucket, number> = {
+  hour: 24,
+  day: 7,
+  week: 12,
+  month: 12
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** A span of time; end is exclusive. */
+export interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
+export interface TimeBucketRange extends TimeRange {
+  // Local start of the bucket: 'YYYY-MM-DD', or 'YYYY-MM-DD HH:00' for hours
+  label: string;
+}
+
+export interface WallTime {
+  year: number;
+  // 1-12
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(tz: string): Intl.DateTimeFormat {
+  let cached = formatters.get(tz);
+  if (!cached) {
+    cached = new Intl.DateTimeFormat('en-US', {
+      timeZone: tz,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(tz, cached);
+  }
+  return cached;
+}
+
+export function isTimeZone(tz: string): boolean {
+  try {
+    formatter(tz);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function wallTime(instant: Date, tz: string): WallTime {
+  const parts: Record<string, number> = {};
+  for (const part of formatter(tz).formatToParts(instant)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second
+  };
+}
+
+function wallTimeAsUtc(wall: WallTime): number {
+  return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+}
+
+// How far tz is ahead of UTC at the instant
+function offsetAt(instant: number, tz: string): number {
+  const wholeSecond = Math.floor(instant / 1000) * 1000;
+  return wallTimeAsUtc(wallTime(new Date(wholeSecond), tz)) - wholeSecond;
+}
+
+// The instant the clocks in tz show the wall time. A time skipped by a DST
+// change resolves to the hour after; a repeated one to either occurrence.
+function zonedTimeToUtc(wall: WallTime, tz: string): Date {
+  const asUtc = wallTimeAsUtc(wall);
+  const guess = asUtc - offsetAt(asUtc, tz);
+  return new Date(asUtc - offsetAt(guess, tz));
+}
+
+// Date.UTC normalizes overflowing fields, e.g. day 32 or month 0
+function addToWallTime(wall: WallTime, bucket: Exclude<TimeBucket, 'hour'>, count: number): WallTime {
+  const shifted = new Date(Date.UTC(
+    wall.year,
+    wall.month - 1 + (bucket === 'month' ? count : 0),
+    wall.day + (bucket === 'day' ? count : bucket === 'week' ? 7 * count : 0),
+    wall.hour,
+    wall.minute,
+    wall.second
+  ));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    hour: shifted.getUTCHours(),
+    minute: shifted.getUTCMinutes(),
+    second: shifted.getUTCSeconds()
+  };
+}
+
+// Weeks start on Monday
+function bucketStart(instant: Date, bucket: TimeBucket, tz: string): WallTime {
+  const wall = { ...wallTime(instant, tz), minute: 0, second: 0 };
+  switch (bucket) {
+    case 'hour':
+      return wall;
+    case 'day':
+      return { ...wall, hour: 0 };
+    case 'week': {
+      const weekday = new Date(Date.UTC(wall.year, wall.month - 1, wall.day)).getUTCDay();
+      return addToWallTime({ ...wall, hour: 0 }, 'day', -((weekday + 6) % 7));
+    }
+    case 'month':
+      return { ...wall, day: 1, hour: 0 };
+  }
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function formatLabel(wall: WallTime, bucket: TimeBucket): string {
+  const date = `${wall.year}-${pad(wall.month)}-${pad(wall.day)}`;
+  return bucket === 'hour' ? `${date} ${pad(wall.hour)}:00` : date;
+}
+
+/**
+ * A range bound as a date or date-time. Without an offset it is read as local
+ * time in tz; a bare date starts the day, or with endOfDay covers all of it.
+ */
+export function parseDateBound(value: string, tz: string, endOfDay: boolean): Date | null {
+  const normalized = normalizeDateBound(value, endOfDay);
+  if (!normalized) {
+    return null;
+  }
+  const [year, month, day, hour, minute, second] = normalized.split(/[- :]/).map(Number);
+  const wall = { year, month, day, hour, minute, second };
+  // normalizeDateBound already converted values with an offset to UTC
+  return /(Z|[+-]\d{2}:?\d{2})$/i.test(value.trim())
+    ? new Date(wallTimeAsUtc(wall))
+    : zonedTimeToUtc(wall, tz);
+}
+
+/**
+ * The range between from and to (inclusive, to the second). Without to it
+ * ends now; without from it covers the bucket's default number of buckets.
+ */
+export function resolveTimeRange(from: string | undefined, to: string | undefined, bucket: TimeBucket, tz: string, now = new Date()): TimeRange | null {
+  const end = to === undefined ? new Date(now) : parseDateBound(to, tz, true);
+  if (!end) {
+    return null;
+  }
+  // created_at only has whole seconds, so the range ends after the last one
+  end.setTime(Math.floor(end.getTime() / 1000) * 1000 + 1000);
+  if (from !== undefined) {
+    const start = parseDateBound(from, tz, false);
+    return start ? { start, end } : null;
+  }
+
+  const last = bucketStart(new Date(end.getTime() - 1), bucket, tz);
+  const count = DEFAULT_BUCKET_COUNTS[bucket] - 1;
+  const start = bucket === 'hour'
+    ? new Date(zonedTimeToUtc(last, tz).getTime() - count * HOUR_MS)
+    : zonedTimeToUtc(addToWallTime(last, bucket, -count), tz);
+  return { start, end };
+}
+
+/** The range of the same length immediately before. */
+export function previousTimeRange(range: TimeRange): TimeRange {
+  return {
+    start: new Date(2 * range.start.getTime() - range.end.getTime()),
+    end: range.start
+  };
+}
+
+/**
+ * Splits the range into calendar buckets in tz, the first and last clipped to
+ * the range. Stops after MAX_TIME_BUCKETS + 1, so callers can reject the range.
+ */
+export function timeBuckets(range: TimeRange, bucket: TimeBucket, tz: string): TimeBucketRange[] {
+  const buckets: TimeBucketRange[] = [];
+  let wall = bucketStart(range.start, bucket, tz);
+  let start = zonedTimeToUtc(wall, tz);
+
+  while (start < range.end && buckets.length <= MAX_TIME_BUCKETS) {
+    let next: Date;
+    // Hours step in real time, so DST changes neither skip nor repeat one
+    if (bucket === 'hour') {
+      next = new Date(start.getTime() + HOUR_MS);
+      wall = wallTime(start, tz);
+    } else {
+      next = zonedTimeToUtc(addToWallTime(wall, bucket, 1), tz);
+    }
+    buckets.push({
+      label: formatLabel(wall, bucket),
+      start: start < range.start ? range.start : start,
+      end: next > range.end ? range.end : next
+    });
+    if (bucket !== 'hour') {
+      wall = addToWallTime(wall, bucket, 1);
+    }
+    start = next;
+  }
+  return buckets;
+}
+
+/** The calendar day, week or month in tz that contains the instant. */
+export function calendarBucket(instant: Date, bucket: Exclude<TimeBucket, 'hour'>, tz: string): TimeBucketRange {
+  const wall = bucketStart(instant, bucket, tz);
+  return {
+    label: formatLabel(wall, bucket),
+    start: zonedTimeToUtc(wall, tz),
+    end: zonedTimeToUtc(addToWallTime(wall, bucket, 1), tz)
+  };
+}
+
+/** The clock and calendar in tz at the instant; weekday 0 is Sunday. */
+export function localTime(instant: Date, tz: string): WallTime & { weekday: number } {
+  const wall = wallTime(instant, tz);
+  return { ...wall, weekday: new Date(Date.UTC(wall.year, wall.month - 1, wall.day)).getUTCDay() };
+}
+
+/**
+ * An instant in the 'YYYY-MM-DD HH:MM:SS' UTC format of the timestamp
+ * columns, comparable with SQLite's CURRENT_TIMESTAMP.
+ */
+export function toSqlTimestamp(instant: Date): string {
+  return instant.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+/**
+ * A buckets(idx, bucket_start, bucket_end) common table expression, so rows
+ * can be LEFT JOINed onto every bucket and empty ones still show up.
+ */
+export function bucketsCte(buckets: TimeBucketRange[]): { sql: string; params: Array<number | string> } {
+  return {
+    sql: `buckets(idx, bucket_start, bucket_end) AS (VALUES ${buckets.map(() => '(?, ?, ?)').join(', ')})`,
+    params: buckets.flatMap((entry, idx) => [idx, toSqlTimestamp(entry.start), toSqlTimestamp(entry.end)])
+  };
+}
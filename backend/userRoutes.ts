@@ -0,0 +1,227 @@
+import express, { Request, Response, NextFunction, RequestHandler } from 'express';
+import {
+  listUsers, getUser, createUser, updateUser, deleteUser, validateUserInput, authenticateUser,
+  createSession, deleteSession, hasRole, userInputSchema, User, UserInput, UserRole
+} from './users';
+import { hasScope, ApiKey, ApiKeyScope } from './apiKeys';
+import { isUniqueViolation } from './database';
+import { recordAuthFailure } from './rateLimit';
+import { loginSchema, userIdParamsSchema, LoginInput, UserIdParams } from './schemas';
+import { validate, sendValidationError } from './validation';
+import { describeRoute, RouteAccess } from './openapi';
+
+export const authRouter = express.Router();
+export const userRouter = express.Router();
+
+export const SESSION_COOKIE = 'session';
+
+// Reads one cookie without pulling in cookie-parser
+export function readSessionToken(req: Request): string | null {
+  const header = req.headers.cookie;
+  if (!header) {
+    return null;
+  }
+  for (const part of header.split(';')) {
+    const index = part.indexOf('=');
+    if (index > 0 && part.slice(0, index).trim() === SESSION_COOKIE) {
+      return decodeURIComponent(part.slice(index + 1).trim());
+    }
+  }
+  return null;
+}
+
+/**
+ * Lets through dashboard users with at least the role, and machine clients
+ * whose API key has the scope. With writeScope, keys need it instead for
+ * methods other than GET and HEAD, as with requireScope.
+ */
+export function requireRole(role: UserRole, scope: ApiKeyScope, writeScope?: ApiKeyScope): RequestHandler & { access: RouteAccess } {
+  const handler = (req: Request, res: Response, next: NextFunction): void => {
+    const needed = writeScope && req.method !== 'GET' && req.method !== 'HEAD' ? writeScope : scope;
+    const user = res.locals.user as User | undefined;
+    const apiKey = res.locals.apiKey as ApiKey | undefined;
+    if ((user && hasRole(user, role)) || (apiKey && hasScope(apiKey, needed))) {
+      next();
+      return;
+    }
+    res.status(403).json({ error: user ? `Forbidden: requires the ${role} role` : `Forbidden: this API key lacks the ${needed} scope` });
+  };
+  return Object.assign(handler, { access: { scope, writeScope, role } });
+}
+
+authRouter.post('/login', describeRoute({
+  operationId: 'login',
+  summary: 'Sign in to the dashboard',
+  description: 'Sets the session cookie. Failed attempts count towards the auth_failure rate limit.',
+  tag: 'Auth',
+  responses: { 200: 'The signed-in user', 401: 'Invalid email or password' }
+}), validate({ body: loginSchema }), async (req: Request, res: Response) => {
+  try {
+    const { email, password } = res.locals.body as LoginInput;
+
+    const user = await authenticateUser(email, password);
+    if (!user) {
+      await recordAuthFailure(req);
+      res.status(401).json({ error: 'Invalid email or password' });
+      return;
+    }
+
+    const session = await createSession(user.id);
+    res.cookie(SESSION_COOKIE, session.token, {
+      httpOnly: true,
+      sameSite: 'strict',
+      secure: process.env.NODE_ENV === 'production',
+      expires: session.expires_at,
+      path: '/'
+    });
+    res.json(user);
+  } catch (error) {
+    console.error('Error logging in:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+authRouter.post('/logout', describeRoute({
+  operationId: 'logout',
+  summary: 'Sign out of the dashboard',
+  tag: 'Auth',
+  responses: { 200: 'Session ended and cookie cleared' }
+}), async (req: Request, res: Response) => {
+  try {
+    const token = readSessionToken(req);
+    if (token) {
+      await deleteSession(token);
+    }
+    res.clearCookie(SESSION_COOKIE, { path: '/' });
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Error logging out:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// The signed-in user, used by the dashboard to decide whether to show the login screen
+authRouter.get('/me', describeRoute({
+  operationId: 'getCurrentUser',
+  summary: 'The signed-in user',
+  tag: 'Auth',
+  responses: { 200: 'The signed-in user', 401: 'Not signed in' }
+}), (req: Request, res: Response) => {
+  const user = res.locals.user as User | undefined;
+  if (!user) {
+    res.status(401).json({ error: 'Not signed in' });
+    return;
+  }
+  res.json(user);
+});
+
+userRouter.get('/', describeRoute({
+  operationId: 'listUsers',
+  summary: 'List dashboard users',
+  tag: 'Users',
+  responses: { 200: 'All users' }
+}), async (req: Request, res: Response) => {
+  try {
+    res.json(await listUsers());
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+userRouter.post('/', describeRoute({
+  operationId: 'createUser',
+  summary: 'Add a dashboard user',
+  tag: 'Users',
+  responses: { 201: 'The created user', 409: 'A user with this email already exists' }
+}), validate({ body: userInputSchema }), async (req: Request, res: Response) => {
+  try {
+    res.status(201).json(await createUser(res.locals.body as UserInput & { password: string }));
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      res.status(409).json({ error: 'A user with this email already exists' });
+      return;
+    }
+    console.error('Error creating user:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+userRouter.get('/:id', describeRoute({
+  operationId: 'getUser',
+  summary: 'Fetch a dashboard user',
+  tag: 'Users',
+  responses: { 200: 'The user', 404: 'User not found' }
+}), validate({ params: userIdParamsSchema }), async (req: Request, res: Response) => {
+  try {
+    const { id } = res.locals.params as UserIdParams;
+    const user = await getUser(id);
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+    res.json(user);
+  } catch (error) {
+    console.error('Error fetching user:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Partial update; a new password or disabling the user ends their sessions
+userRouter.patch('/:id', describeRoute({
+  operationId: 'updateUser',
+  summary: 'Update a dashboard user',
+  description: 'A new password or disabling the user ends their sessions.',
+  tag: 'Users',
+  requestBody: { description: 'Any of email, name, password, role and disabled', contentTypes: ['application/json'] },
+  responses: { 200: 'The updated user', 404: 'User not found', 409: 'A user with this email already exists' }
+}), validate({ params: userIdParamsSchema }), async (req: Request, res: Response) => {
+  try {
+    const { id } = res.locals.params as UserIdParams;
+    const existing = await getUser(id);
+    if (!existing) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    const { user, errors } = validateUserInput(req.body, existing);
+    if (!user) {
+      sendValidationError(res, errors);
+      return;
+    }
+
+    res.json(await updateUser(existing.id, user));
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      res.status(409).json({ error: 'A user with this email already exists' });
+      return;
+    }
+    console.error('Error updating user:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+userRouter.delete('/:id', describeRoute({
+  operationId: 'deleteUser',
+  summary: 'Remove a dashboard user',
+  tag: 'Users',
+  responses: { 200: 'User deleted', 404: 'User not found', 409: 'You cannot delete your own account' }
+}), validate({ params: userIdParamsSchema }), async (req: Request, res: Response) => {
+  try {
+    const { id } = res.locals.params as UserIdParams;
+    const current = res.locals.user as User | undefined;
+    if (current && current.id === id) {
+      res.status(409).json({ error: 'You cannot delete your own account' });
+      return;
+    }
+
+    if (!await deleteUser(id)) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+    res.json({ message: 'User deleted successfully', id });
+  } catch (error) {
+    console.error('Error deleting user:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
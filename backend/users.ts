@@ -0,0 +1,215 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { runQuery, getQuery, allQuery } from './database';
+import { toSqlTimestamp } from './timeBuckets';
+import { FieldError } from './loadValidation';
+import { text, parseInput } from './validation';
+
+// Ordered from least to most privileged; each role can do what the ones
+// before it can
+export const USER_ROLES = ['viewer', 'analyst', 'admin'] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+export interface User {
+  id: number;
+  email: string;
+  name: string;
+  role: UserRole;
+  disabled: boolean;
+  created_at: string;
+  last_login_at: string | null;
+}
+
+export interface UserInput {
+  email: string;
+  name: string;
+  role: UserRole;
+  disabled: boolean;
+  // Only set when the password changes
+  password?: string;
+}
+
+interface UserRow extends Omit<User, 'disabled'> {
+  disabled: number;
+  password_hash: string;
+}
+
+const SESSION_TTL_HOURS = Number(process.env.SESSION_TTL_HOURS) || 12;
+const MIN_PASSWORD_LENGTH = 10;
+
+// scrypt parameters: N=16384, r=8, p=1 with a 64-byte derived key
+const SCRYPT_KEYLEN = 64;
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+
+const USER_COLUMNS = 'id, email, name, role, disabled, created_at, last_login_at';
+
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, SCRYPT_KEYLEN, SCRYPT_PARAMS, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+}
+
+// Stored as scrypt$<salt hex>$<key hex>
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt);
+  return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, key] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !key) {
+    return false;
+  }
+  const expected = Buffer.from(key, 'hex');
+  const actual = await deriveKey(password, Buffer.from(salt, 'hex'));
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function toUser(row: Omit<UserRow, 'password_hash'>): User {
+  return { ...row, disabled: row.disabled === 1 };
+}
+
+export function hasRole(user: Pick<User, 'role'>, role: UserRole): boolean {
+  return USER_ROLES.indexOf(user.role) >= USER_ROLES.indexOf(role);
+}
+
+const userFields = {
+  email: text(z.string().regex(/^[^\s@]+@[^\s@]+\.[^\s@]+$/, 'must be a valid email address').toLowerCase()),
+  name: text(z.string()),
+  role: text(z.enum(USER_ROLES).default('viewer')),
+  disabled: z.boolean().default(false),
+  password: z.string().min(MIN_PASSWORD_LENGTH, `must be at least ${MIN_PASSWORD_LENGTH} characters`)
+};
+
+export const userInputSchema = z.object(userFields);
+
+// The password is only validated when it changes
+const userUpdateSchema = userInputSchema.extend({ password: userFields.password.optional() });
+
+/**
+ * Validates a change to a user: fields left out keep their current values
+ * and the merged user is validated as a whole.
+ */
+export function validateUserInput(input: unknown, existing: User): { user: UserInput | null; errors: FieldError[] } {
+  let merged = input;
+  if (typeof input === 'object' && input !== null && !Array.isArray(input)) {
+    const raw = input as Record<string, unknown>;
+    merged = {
+      ...raw,
+      ...Object.fromEntries((['email', 'name', 'role', 'disabled'] as const)
+        .map(field => [field, raw[field] === undefined ? existing[field] : raw[field]]))
+    };
+  }
+
+  const { data, errors } = parseInput(userUpdateSchema, merged);
+  return { user: data, errors };
+}
+
+export async function listUsers(): Promise<User[]> {
+  const rows = await allQuery<UserRow>(`SELECT ${USER_COLUMNS} FROM USERS ORDER BY id`);
+  return rows.map(toUser);
+}
+
+export async function getUser(id: number): Promise<User | null> {
+  const row = await getQuery<UserRow>(`SELECT ${USER_COLUMNS} FROM USERS WHERE id = ?`, [id]);
+  return row ? toUser(row) : null;
+}
+
+export async function countUsers(): Promise<number> {
+  const row = await getQuery<{ count: number }>('SELECT COUNT(*) as count FROM USERS');
+  return row ? row.count : 0;
+}
+
+export async function createUser(input: UserInput & { password: string }): Promise<User> {
+  const result = await runQuery(`
+    INSERT INTO USERS (email, name, role, disabled, password_hash) VALUES (?, ?, ?, ?, ?)
+  `, [input.email, input.name, input.role, input.disabled ? 1 : 0, await hashPassword(input.password)]);
+
+  return (await getUser(result.lastID)) as User;
+}
+
+// Changing the password or disabling the user signs them out everywhere
+export async function updateUser(id: number, input: UserInput): Promise<User | null> {
+  const result = await runQuery(`
+    UPDATE USERS SET email = ?, name = ?, role = ?, disabled = ? WHERE id = ?
+  `, [input.email, input.name, input.role, input.disabled ? 1 : 0, id]);
+  if (result.changes === 0) {
+    return null;
+  }
+
+  if (input.password !== undefined) {
+    await runQuery('UPDATE USERS SET password_hash = ? WHERE id = ?', [await hashPassword(input.password), id]);
+  }
+  if (input.password !== undefined || input.disabled) {
+    await runQuery('DELETE FROM SESSIONS WHERE user_id = ?', [id]);
+  }
+
+  return getUser(id);
+}
+
+export async function deleteUser(id: number): Promise<boolean> {
+  await runQuery('DELETE FROM SESSIONS WHERE user_id = ?', [id]);
+  const result = await runQuery('DELETE FROM USERS WHERE id = ?', [id]);
+  return result.changes > 0;
+}
+
+/**
+ * Checks an email and password. Returns null for unknown emails, wrong
+ * passwords and disabled users alike so callers cannot tell them apart.
+ */
+export async function authenticateUser(email: string, password: string): Promise<User | null> {
+  const row = await getQuery<UserRow>('SELECT * FROM USERS WHERE email = ?', [email.trim().toLowerCase()]);
+  if (!row) {
+    // Hash anyway so unknown emails take as long as wrong passwords
+    await hashPassword(password);
+    return null;
+  }
+  if (!(await verifyPassword(password, row.password_hash)) || row.disabled === 1) {
+    return null;
+  }
+
+  await runQuery('UPDATE USERS SET last_login_at = CURRENT_TIMESTAMP WHERE id = ?', [row.id]);
+  return getUser(row.id);
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Opens a session and returns its token for the session cookie. Only a hash
+ * of the token is stored.
+ */
+export async function createSession(user_id: number): Promise<{ token: string; expires_at: Date }> {
+  const token = randomBytes(32).toString('base64url');
+  const expires_at = new Date(Date.now() + SESSION_TTL_HOURS * 60 * 60 * 1000);
+
+  await runQuery(`
+    INSERT INTO SESSIONS (token_hash, user_id, expires_at) VALUES (?, ?, ?)
+  `, [hashToken(token), user_id, toSqlTimestamp(expires_at)]);
+
+  return { token, expires_at };
+}
+
+// The signed-in user for a session token, or null when the session is
+// unknown, expired or belongs to a disabled user
+export async function getSessionUser(token: string): Promise<User | null> {
+  const row = await getQuery<UserRow>(`
+    SELECT u.id, u.email, u.name, u.role, u.disabled, u.created_at, u.last_login_at
+    FROM SESSIONS s
+    JOIN USERS u ON u.id = s.user_id
+    WHERE s.token_hash = ? AND s.expires_at > ? AND u.disabled = 0
+  `, [hashToken(token), toSqlTimestamp(new Date())]);
+  return row ? toUser(row) : null;
+}
+
+export async function deleteSession(token: string): Promise<void> {
+  await runQuery('DELETE FROM SESSIONS WHERE token_hash = ?', [hashToken(token)]);
+}
+
+export async function deleteExpiredSessions(): Promise<number> {
+  const result = await runQuery('DELETE FROM SESSIONS WHERE expires_at <= ?', [toSqlTimestamp(new Date())]);
+  return result.changes;
+}
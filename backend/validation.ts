@@ -0,0 +1,146 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { z } from 'zod';
+import type { FieldError } from './loadValidation';
+
+export type RequestPart = 'params' | 'query' | 'body';
+
+export type RequestSchemas = Partial<Record<RequestPart, z.ZodType>>;
+
+export interface ValidatedHandler extends RequestHandler {
+  // Kept on the middleware so the route's contract can be read back later
+  schemas: RequestSchemas;
+}
+
+export type ParseResult<T> = { data: T; errors: [] } | { data: null; errors: FieldError[] };
+
+// Blank strings and null count as missing; other strings are trimmed
+function blankToUndefined(value: unknown): unknown {
+  if (value === null) {
+    return undefined;
+  }
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    return trimmed === '' ? undefined : trimmed;
+  }
+  return value;
+}
+
+/** A string field; wrap the inner schema in .optional() or .default() for optional ones. */
+export function text<T extends z.ZodType>(schema: T) {
+  return z.preprocess(blankToUndefined, schema);
+}
+
+/** A numeric field that may arrive as a string (query strings, CSV rows, voice agents). */
+export function numeric<T extends z.ZodType>(schema: T) {
+  return z.preprocess(value => {
+    const cleaned = blankToUndefined(value);
+    return typeof cleaned === 'string' ? Number(cleaned) : cleaned;
+  }, schema);
+}
+
+/** An identifier that some clients send as a number. */
+export function identifier<T extends z.ZodType>(schema: T) {
+  return z.preprocess(value => typeof value === 'number' ? String(value) : blankToUndefined(value), schema);
+}
+
+/** A list sent as a JSON array or a comma-separated string. */
+export function list<T extends z.ZodType>(schema: T) {
+  return z.preprocess(value => {
+    const cleaned = blankToUndefined(value);
+    const items = typeof cleaned === 'string' ? cleaned.split(',') : cleaned;
+    return Array.isArray(items) ? items.filter(item => blankToUndefined(item) !== undefined) : items;
+  }, schema);
+}
+
+function describeBound(origin: string, bound: unknown, inclusive: boolean | undefined, upper: boolean): string {
+  if (origin === 'string') {
+    return upper ? `must be at most ${bound} characters` : 'must not be empty';
+  }
+  if (origin === 'array') {
+    return upper ? `must have at most ${bound} items` : `must have at least ${bound} items`;
+  }
+  if (upper) {
+    return inclusive ? `must be at most ${bound}` : `must be less than ${bound}`;
+  }
+  return inclusive ? `must be at least ${bound}` : `must be greater than ${bound}`;
+}
+
+// Phrases are completed with the field name in toFieldErrors, so the error
+// body reads the same for every route. Messages set on a schema win over these.
+const errorMap: z.core.$ZodErrorMap = issue => {
+  switch (issue.code) {
+    case 'invalid_type':
+      if (issue.input === undefined) {
+        return 'is required';
+      }
+      if (issue.expected === 'int') {
+        return 'must be an integer';
+      }
+      return issue.expected === 'array' || issue.expected === 'object'
+        ? `must be an ${issue.expected}`
+        : `must be a ${issue.expected}`;
+    case 'too_small':
+      return describeBound(issue.origin, issue.minimum, issue.inclusive, false);
+    case 'too_big':
+      return describeBound(issue.origin, issue.maximum, issue.inclusive, true);
+    case 'invalid_value':
+      return `must be one of: ${issue.values.join(', ')}`;
+    case 'unrecognized_keys':
+      return `has unknown fields: ${issue.keys.join(', ')}`;
+    default:
+      return 'is invalid';
+  }
+};
+
+function toFieldErrors(error: z.ZodError, part: string): FieldError[] {
+  return error.issues.map(issue => {
+    const field = issue.path.length > 0 ? issue.path.map(String).join('.') : part;
+    return { field, message: `${field} ${issue.message}` };
+  });
+}
+
+/**
+ * Parses input against a schema, returning the coerced value or one error
+ * per invalid field. `part` names the input in errors about the whole value.
+ */
+export function parseInput<T extends z.ZodType>(schema: T, input: unknown, part = 'body'): ParseResult<z.output<T>> {
+  const result = schema.safeParse(input, { error: errorMap });
+  return result.success
+    ? { data: result.data, errors: [] }
+    : { data: null, errors: toFieldErrors(result.error, part) };
+}
+
+/** Responds with the validation error body every route shares. */
+export function sendValidationError(res: Response, errors: FieldError[]): void {
+  res.status(400).json({ error: 'Invalid request', details: errors });
+}
+
+/**
+ * Validates the route params, query string and body against their schemas
+ * and stores the coerced values on res.locals.params, res.locals.query and
+ * res.locals.body. Invalid requests get a 400 listing every invalid field.
+ */
+export function validate(schemas: RequestSchemas): ValidatedHandler {
+  const handler = (req: Request, res: Response, next: NextFunction): void => {
+    const errors: FieldError[] = [];
+    for (const part of ['params', 'query', 'body'] as const) {
+      const schema = schemas[part];
+      if (!schema) {
+        continue;
+      }
+      const result = parseInput(schema, req[part] ?? {}, part);
+      if (result.data === null) {
+        errors.push(...result.errors);
+      } else {
+        res.locals[part] = result.data;
+      }
+    }
+
+    if (errors.length > 0) {
+      sendValidationError(res, errors);
+      return;
+    }
+    next();
+  };
+  return Object.assign(handler, { schemas });
+}
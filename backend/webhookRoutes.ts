@@ -0,0 +1,169 @@
+import express, { Request, Response } from 'express';
+import {
+  listWebhooks, getWebhook, createWebhook, updateWebhook, deleteWebhook, listWebhookDeliveries, getWebhookDelivery,
+  redeliverWebhook, deliverDueWebhooks
+} from './webhooks';
+import { validate } from './validation';
+import { describeRoute } from './openapi';
+import {
+  webhookIdParamsSchema, webhookDeliveryParamsSchema, webhookInputSchema, webhookUpdateSchema,
+  webhookDeliveryListQuerySchema, webhookSchema, webhookDeliverySchema, webhookDeliveryListResultSchema,
+  WebhookIdParams, WebhookDeliveryParams, WebhookInput, WebhookUpdate, WebhookDeliveryListQuery
+} from './schemas';
+
+export const webhookRouter = express.Router();
+
+webhookRouter.get('/', describeRoute({
+  operationId: 'listWebhooks',
+  summary: 'List webhooks',
+  tag: 'Webhooks',
+  responses: { 200: 'All webhooks, without their secrets' }
+}), async (req: Request, res: Response) => {
+  try {
+    res.json(await listWebhooks());
+  } catch (error) {
+    console.error('Error fetching webhooks:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+webhookRouter.post('/', describeRoute({
+  operationId: 'createWebhook',
+  summary: 'Register a webhook',
+  description: 'The secret is only returned in this response.',
+  tag: 'Webhooks',
+  responses: { 201: { description: 'The webhook, including its secret', schema: webhookSchema } }
+}), validate({ body: webhookInputSchema }), async (req: Request, res: Response) => {
+  try {
+    res.status(201).json(await createWebhook(res.locals.body as WebhookInput));
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+webhookRouter.get('/:id', describeRoute({
+  operationId: 'getWebhook',
+  summary: 'Fetch a webhook',
+  tag: 'Webhooks',
+  responses: { 200: { description: 'The webhook, without its secret', schema: webhookSchema }, 404: 'Webhook not found' }
+}), validate({ params: webhookIdParamsSchema }), async (req: Request, res: Response) => {
+  try {
+    const webhook = await getWebhook((res.locals.params as WebhookIdParams).id);
+    if (!webhook) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+    res.json(webhook);
+  } catch (error) {
+    console.error('Error fetching webhook:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Partial update, e.g. { "active": false } or a new secret
+webhookRouter.patch('/:id', describeRoute({
+  operationId: 'updateWebhook',
+  summary: 'Update a webhook',
+  description: 'Any webhook fields; the response includes the secret only when it was changed.',
+  tag: 'Webhooks',
+  responses: { 200: { description: 'The updated webhook', schema: webhookSchema }, 404: 'Webhook not found' }
+}), validate({ params: webhookIdParamsSchema, body: webhookUpdateSchema }), async (req: Request, res: Response) => {
+  try {
+    const webhook = await updateWebhook((res.locals.params as WebhookIdParams).id, res.locals.body as WebhookUpdate);
+    if (!webhook) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+    res.json(webhook);
+  } catch (error) {
+    console.error('Error updating webhook:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+webhookRouter.delete('/:id', describeRoute({
+  operationId: 'deleteWebhook',
+  summary: 'Remove a webhook and its delivery log',
+  tag: 'Webhooks',
+  responses: { 200: 'Webhook deleted', 404: 'Webhook not found' }
+}), validate({ params: webhookIdParamsSchema }), async (req: Request, res: Response) => {
+  try {
+    const { id } = res.locals.params as WebhookIdParams;
+    if (!await deleteWebhook(id)) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+    res.json({ message: 'Webhook deleted successfully', id });
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+webhookRouter.get('/:id/deliveries', describeRoute({
+  operationId: 'listWebhookDeliveries',
+  summary: 'Delivery log of a webhook',
+  description: 'Newest first, with the payload sent and the outcome of the last attempt.',
+  tag: 'Webhooks',
+  responses: { 200: { description: 'A page of deliveries and the total count', schema: webhookDeliveryListResultSchema }, 404: 'Webhook not found' }
+}), validate({ params: webhookIdParamsSchema, query: webhookDeliveryListQuerySchema }), async (req: Request, res: Response) => {
+  try {
+    const { id } = res.locals.params as WebhookIdParams;
+    if (!await getWebhook(id)) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+    res.json(await listWebhookDeliveries(id, res.locals.query as WebhookDeliveryListQuery));
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+webhookRouter.get('/:id/deliveries/:delivery_id', describeRoute({
+  operationId: 'getWebhookDelivery',
+  summary: 'Fetch a webhook delivery',
+  tag: 'Webhooks',
+  responses: { 200: { description: 'The delivery', schema: webhookDeliverySchema }, 404: 'Delivery not found' }
+}), validate({ params: webhookDeliveryParamsSchema }), async (req: Request, res: Response) => {
+  try {
+    const { id, delivery_id } = res.locals.params as WebhookDeliveryParams;
+    const delivery = await getWebhookDelivery(id, delivery_id);
+    if (!delivery) {
+      res.status(404).json({ error: 'Delivery not found' });
+      return;
+    }
+    res.json(delivery);
+  } catch (error) {
+    console.error('Error fetching webhook delivery:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+webhookRouter.post('/:id/deliveries/:delivery_id/redeliver', describeRoute({
+  operationId: 'redeliverWebhook',
+  summary: 'Send a delivery again',
+  description: 'Queues a new delivery with the same payload and event_id and sends it right away, '
+    + 'even when the original was delivered or gave up.',
+  tag: 'Webhooks',
+  responses: {
+    202: { description: 'The new delivery, before it is sent', schema: webhookDeliverySchema },
+    404: 'Delivery not found'
+  }
+}), validate({ params: webhookDeliveryParamsSchema }), async (req: Request, res: Response) => {
+  try {
+    const { id, delivery_id } = res.locals.params as WebhookDeliveryParams;
+    const delivery = await getWebhookDelivery(id, delivery_id);
+    if (!delivery) {
+      res.status(404).json({ error: 'Delivery not found' });
+      return;
+    }
+    const redelivery = await redeliverWebhook(delivery);
+    deliverDueWebhooks().catch(error => console.error('Error delivering webhooks:', error));
+    res.status(202).json(redelivery);
+  } catch (error) {
+    console.error('Error redelivering webhook:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
@@ -0,0 +1,304 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { runQuery, getQuery, allQuery, withTransaction, getLoadById } from './database';
+import { toSqlTimestamp } from './timeBuckets';
+import type { LiveEvent } from './events';
+import {
+  Webhook, WebhookInput, WebhookUpdate, WebhookEvent, WebhookDelivery, WebhookDeliveryListQuery,
+  WebhookDeliveryListResult
+} from './schemas';
+
+// Outbound webhooks. Events from the live event bus are written to the
+// WEBHOOK_DELIVERIES outbox in the transaction that publishes them and sent
+// from there once it commits, so a delivery that fails, or is interrupted by
+// a restart, is retried with exponential backoff until it succeeds or runs out
+// of attempts.
+
+const MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 8;
+
+// Wait before the second attempt; doubles after each failure
+const RETRY_BASE_SECONDS = Number(process.env.WEBHOOK_RETRY_BASE_SECONDS) || 30;
+
+const MAX_RETRY_DELAY_SECONDS = 6 * 60 * 60;
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+// Deliveries sent per pass of the dispatcher
+const BATCH_SIZE = 20;
+
+// Response bodies kept in last_error when a receiver rejects a delivery
+const MAX_ERROR_LENGTH = 500;
+
+interface WebhookRow extends Omit<Webhook, 'events' | 'active' | 'secret'> {
+  events: string;
+  active: number;
+  secret: string;
+}
+
+interface DeliveryRow extends Omit<WebhookDelivery, 'payload'> {
+  payload: string;
+}
+
+const WEBHOOK_COLUMNS = 'id, url, events, description, active, created_at, updated_at';
+
+function toWebhook(row: Omit<WebhookRow, 'secret'>): Webhook {
+  return { ...row, events: row.events.split(' ').filter(Boolean) as WebhookEvent[], active: row.active === 1 };
+}
+
+function toDelivery(row: DeliveryRow): WebhookDelivery {
+  return { ...row, payload: JSON.parse(row.payload) };
+}
+
+export async function listWebhooks(): Promise<Webhook[]> {
+  const rows = await allQuery<WebhookRow>(`SELECT ${WEBHOOK_COLUMNS} FROM WEBHOOKS ORDER BY id`);
+  return rows.map(toWebhook);
+}
+
+export async function getWebhook(id: number): Promise<Webhook | null> {
+  const row = await getQuery<WebhookRow>(`SELECT ${WEBHOOK_COLUMNS} FROM WEBHOOKS WHERE id = ?`, [id]);
+  return row ? toWebhook(row) : null;
+}
+
+/** Registers a webhook and returns it with its secret, generating one when not given. */
+export async function createWebhook(input: WebhookInput): Promise<Webhook> {
+  const secret = input.secret ?? `whsec_${randomBytes(24).toString('base64url')}`;
+  const result = await runQuery(`
+    INSERT INTO WEBHOOKS (url, events, secret, description, active) VALUES (?, ?, ?, ?, ?)
+  `, [input.url, [...new Set(input.events)].join(' '), secret, input.description ?? null, input.active ? 1 : 0]);
+  return { ...(await getWebhook(result.lastID)) as Webhook, secret };
+}
+
+// Returns null when the webhook does not exist
+export async function updateWebhook(id: number, update: WebhookUpdate): Promise<Webhook | null> {
+  const columns: string[] = [];
+  const params: any[] = [];
+  if (update.url !== undefined) {
+    columns.push('url = ?');
+    params.push(update.url);
+  }
+  if (update.events !== undefined) {
+    columns.push('events = ?');
+    params.push([...new Set(update.events)].join(' '));
+  }
+  if (update.secret !== undefined) {
+    columns.push('secret = ?');
+    params.push(update.secret);
+  }
+  if (update.description !== undefined) {
+    columns.push('description = ?');
+    params.push(update.description);
+  }
+  if (update.active !== undefined) {
+    columns.push('active = ?');
+    params.push(update.active ? 1 : 0);
+  }
+
+  const result = await runQuery(`
+    UPDATE WEBHOOKS SET ${[...columns, 'updated_at = CURRENT_TIMESTAMP'].join(', ')} WHERE id = ?
+  `, [...params, id]);
+  if (result.changes === 0) {
+    return null;
+  }
+  const webhook = (await getWebhook(id)) as Webhook;
+  return update.secret !== undefined ? { ...webhook, secret: update.secret } : webhook;
+}
+
+// Removes the webhook with its delivery log. Returns false when it does not exist.
+export async function deleteWebhook(id: number): Promise<boolean> {
+  return withTransaction(async () => {
+    await runQuery('DELETE FROM WEBHOOK_DELIVERIES WHERE webhook_id = ?', [id]);
+    const result = await runQuery('DELETE FROM WEBHOOKS WHERE id = ?', [id]);
+    return result.changes > 0;
+  });
+}
+
+export async function listWebhookDeliveries(webhook_id: number, query: WebhookDeliveryListQuery): Promise<WebhookDeliveryListResult> {
+  const conditions = ['webhook_id = ?'];
+  const params: any[] = [webhook_id];
+  if (query.status) {
+    conditions.push('status = ?');
+    params.push(query.status);
+  }
+  if (query.event) {
+    conditions.push('event = ?');
+    params.push(query.event);
+  }
+  const where = conditions.join(' AND ');
+
+  const rows = await allQuery<DeliveryRow>(`
+    SELECT * FROM WEBHOOK_DELIVERIES WHERE ${where} ORDER BY id DESC LIMIT ? OFFSET ?
+  `, [...params, query.limit, query.offset]);
+  const count = await getQuery<{ total: number }>(`SELECT COUNT(*) as total FROM WEBHOOK_DELIVERIES WHERE ${where}`, params);
+  return { deliveries: rows.map(toDelivery), total: count?.total ?? 0 };
+}
+
+export async function getWebhookDelivery(webhook_id: number, id: number): Promise<WebhookDelivery | null> {
+  const row = await getQuery<DeliveryRow>('SELECT * FROM WEBHOOK_DELIVERIES WHERE id = ? AND webhook_id = ?', [id, webhook_id]);
+  return row ? toDelivery(row) : null;
+}
+
+/**
+ * Queues the delivery's payload to be sent again right away, as a new
+ * delivery with the same event_id. The original stays in the log as it was.
+ */
+export async function redeliverWebhook(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const result = await runQuery(`
+    INSERT INTO WEBHOOK_DELIVERIES (webhook_id, event_id, event, payload, redelivery_of) VALUES (?, ?, ?, ?, ?)
+  `, [delivery.webhook_id, delivery.event_id, delivery.event, JSON.stringify(delivery.payload), delivery.id]);
+  return (await getWebhookDelivery(delivery.webhook_id, result.lastID)) as WebhookDelivery;
+}
+
+// The webhook events a live event stands for, with their data
+async function toWebhookEvents(event: LiveEvent): Promise<Array<{ event: WebhookEvent; data: unknown }>> {
+  if (event.type !== 'load.status_changed' || event.data.to_status !== 'booked') {
+    return [{ event: event.type, data: event.data }];
+  }
+  return [
+    { event: 'load.booked', data: { ...event.data, load: await getLoadById(event.data.load_id) } },
+    { event: event.type, data: event.data }
+  ];
+}
+
+/**
+ * Writes a delivery to the outbox for every active webhook subscribed to the
+ * events. Registered as an event outbox, so it runs inside the transaction
+ * that published them.
+ */
+export async function enqueueWebhookDeliveries(events: LiveEvent[]): Promise<void> {
+  const webhooks = (await listWebhooks()).filter(webhook => webhook.active);
+  if (webhooks.length === 0) {
+    return;
+  }
+
+  const created_at = new Date().toISOString();
+  for (const liveEvent of events) {
+    for (const { event: type, data } of await toWebhookEvents(liveEvent)) {
+      const subscribed = webhooks.filter(webhook => webhook.events.includes(type));
+      if (subscribed.length === 0) {
+        continue;
+      }
+      const id = randomUUID();
+      const payload = JSON.stringify({ id, type, created_at, data });
+      for (const webhook of subscribed) {
+        await runQuery(`
+          INSERT INTO WEBHOOK_DELIVERIES (webhook_id, event_id, event, payload) VALUES (?, ?, ?, ?)
+        `, [webhook.id, id, type, payload]);
+      }
+    }
+  }
+}
+
+/**
+ * The X-Webhook-Signature header: the hex HMAC-SHA256 of
+ * `${timestamp}.${body}` under the webhook's secret. Receivers recompute it
+ * and reject old timestamps to stop replays.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+function retryDelaySeconds(attempts: number): number {
+  return Math.min(RETRY_BASE_SECONDS * 2 ** (attempts - 1), MAX_RETRY_DELAY_SECONDS);
+}
+
+async function attemptDelivery(delivery: DeliveryRow & { url: string; secret: string }): Promise<boolean> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  let response_status: number | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await fetch(delivery.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'loads-dashboard-webhooks',
+        'X-Webhook-Id': delivery.event_id,
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': String(delivery.id),
+        'X-Webhook-Signature': signWebhookPayload(delivery.secret, timestamp, delivery.payload)
+      },
+      body: delivery.payload,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+    });
+    response_status = response.status;
+    if (!response.ok) {
+      error = `HTTP ${response.status}: ${(await response.text()).slice(0, MAX_ERROR_LENGTH)}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const attempts = delivery.attempts + 1;
+  if (error === null) {
+    await runQuery(`
+      UPDATE WEBHOOK_DELIVERIES
+      SET status = 'delivered', attempts = ?, last_attempt_at = CURRENT_TIMESTAMP, response_status = ?,
+        last_error = NULL, next_attempt_at = NULL, delivered_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `, [attempts, response_status, delivery.id]);
+    return true;
+  }
+
+  const failed = attempts >= MAX_ATTEMPTS;
+  await runQuery(`
+    UPDATE WEBHOOK_DELIVERIES
+    SET status = ?, attempts = ?, last_attempt_at = CURRENT_TIMESTAMP, response_status = ?, last_error = ?,
+      next_attempt_at = ?
+    WHERE id = ?
+  `, [
+    failed ? 'failed' : 'pending',
+    attempts,
+    response_status,
+    error,
+    failed ? null : toSqlTimestamp(new Date(Date.now() + retryDelaySeconds(attempts) * 1000)),
+    delivery.id
+  ]);
+  return false;
+}
+
+// Sends due deliveries of active webhooks until none are left
+async function deliverDue(): Promise<number> {
+  let delivered = 0;
+  for (;;) {
+    const due = await allQuery<DeliveryRow & { url: string; secret: string }>(`
+      SELECT d.*, w.url, w.secret
+      FROM WEBHOOK_DELIVERIES d
+      JOIN WEBHOOKS w ON w.id = d.webhook_id
+      WHERE d.status = 'pending' AND d.next_attempt_at <= ? AND w.active = 1
+      ORDER BY d.next_attempt_at, d.id
+      LIMIT ?
+    `, [toSqlTimestamp(new Date()), BATCH_SIZE]);
+    if (due.length === 0) {
+      return delivered;
+    }
+    const results = await Promise.all(due.map(attemptDelivery));
+    delivered += results.filter(Boolean).length;
+  }
+}
+
+let running: Promise<number> | null = null;
+let requested = false;
+
+/**
+ * Sends every delivery that is due. Only one pass runs at a time; a call
+ * made during a pass starts another once it is done, so nothing queued in
+ * between waits for the next poll. Resolves to the number delivered.
+ */
+export function deliverDueWebhooks(): Promise<number> {
+  if (running) {
+    requested = true;
+    return running;
+  }
+  running = (async () => {
+    let delivered = 0;
+    do {
+      requested = false;
+      delivered += await deliverDue();
+    } while (requested);
+    return delivered;
+  })().finally(() => {
+    running = null;
+  });
+  return running;
+}
@@ -13,22 +13,39 @@ import {
   Tooltip,
   ResponsiveContainer,
 } from "recharts";
+import Login, { SessionUser } from "./Login";
+import CallTable, { CallFilter } from "./CallTable";
+import DownloadMenu from "./DownloadMenu";
+import RevenuePanel from "./RevenuePanel";
+import RangePicker, {
+  DashboardRange,
+  DEFAULT_RANGE,
+  rangeQuery,
+  rangeLabel,
+} from "./RangePicker";
+import LiveFeed, { LiveActivity } from "./LiveFeed";
+import { formatDuration, formatBucketLabel } from "./format";
+import { DashboardData, MetricChange, applyCall } from "./dashboardData";
+import { useLiveEvents, LiveNegotiation } from "./useLiveEvents";
 
-interface DashboardData {
-  successRate: number;
-  sentimentDistribution: {
-    positive: number;
-    negative: number;
-    neutral: number;
-  };
-  dailyAverages: Array<{
-    date: string;
-    avgDuration: number;
-    avgOfferIterations: number;
-    avgOfferDifference: number;
-  }>;
-  totalCalls: number;
-}
+// Change from the previous period of the same length
+const formatChange = (metric: MetricChange, format: (value: number) => string) => {
+  if (metric.change === 0) {
+    return "No change vs previous period";
+  }
+  const arrow = metric.change > 0 ? "▲" : "▼";
+  const percent =
+    metric.percentChange !== null
+      ? ` (${Math.abs(metric.percentChange).toFixed(0)}%)`
+      : "";
+  return `${arrow} ${format(Math.abs(metric.change))}${percent} vs previous period`;
+};
+
+const changeColor = (metric: MetricChange) =>
+  metric.change > 0 ? "#10b981" : metric.change < 0 ? "#ef4444" : "#6b7280";
+
+// Entries kept in the recent activity feed
+const MAX_ACTIVITY = 10;
 
 const COLORS = {
   success: "#10b981", // green
@@ -41,20 +58,41 @@ const COLORS = {
 };
 
 function App() {
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [authChecked, setAuthChecked] = useState(false);
   const [data, setData] = useState<DashboardData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [callFilter, setCallFilter] = useState<CallFilter | null>(null);
+  const [range, setRange] = useState<DashboardRange>(DEFAULT_RANGE);
+  const [rangeError, setRangeError] = useState<string | null>(null);
+  const [negotiations, setNegotiations] = useState<LiveNegotiation[]>([]);
+  const [activity, setActivity] = useState<LiveActivity[]>([]);
+  // Bumped when bookings come in, so the revenue panel fetches again
+  const [revenueVersion, setRevenueVersion] = useState(0);
 
   const fetchDashboardData = async () => {
     try {
       setLoading(true);
-      const response = await fetch("/api/dashboard");
+      const response = await fetch(`/api/dashboard?${rangeQuery(range)}`);
+      if (response.status === 401) {
+        // Session expired or was revoked
+        setUser(null);
+        return;
+      }
+      if (response.status === 400) {
+        // An impossible custom range; keep showing the last good one
+        const body = await response.json();
+        setRangeError(body.details?.[0]?.message || "Invalid range");
+        return;
+      }
       if (!response.ok) {
         throw new Error("Failed to fetch dashboard data");
       }
       const dashboardData = await response.json();
       setData(dashboardData);
       setError(null);
+      setRangeError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : "An error occurred");
     } finally {
@@ -62,11 +100,85 @@ function App() {
     }
   };
 
+  const addActivity = (item: LiveActivity) =>
+    setActivity((current) => [item, ...current].slice(0, MAX_ACTIVITY));
+
+  // Preset ranges and custom ones without an end keep up with new calls
+  const openEnded = range.preset !== "custom" || !range.to;
+
+  const liveStatus = useLiveEvents(user !== null, {
+    onReady: ({ negotiations, resync }) => {
+      setNegotiations(negotiations);
+      if (resync) {
+        fetchDashboardData();
+        setRevenueVersion((version) => version + 1);
+      }
+    },
+    onCall: (call) => {
+      setData((current) => current && applyCall(current, call, openEnded));
+      setNegotiations((current) =>
+        current.filter((negotiation) => negotiation.id !== call.negotiation_id)
+      );
+      addActivity({ kind: "call", key: `call-${call.id}`, call });
+      if (call.successful && call.load_id !== null) {
+        setRevenueVersion((version) => version + 1);
+      }
+    },
+    // Averages cannot be adjusted for a changed call, so they are refetched
+    onCallUpdated: (call) => {
+      fetchDashboardData();
+      setActivity((current) =>
+        current.map((item) =>
+          item.kind === "call" && item.call.id === call.id
+            ? { ...item, call }
+            : item
+        )
+      );
+    },
+    onNegotiation: (negotiation) =>
+      setNegotiations((current) => [
+        ...(negotiation.status === "open" ? [negotiation] : []),
+        ...current.filter((item) => item.id !== negotiation.id),
+      ]),
+    onLoadStatus: (change) =>
+      addActivity({
+        kind: "load",
+        key: `load-${change.load_id}-${change.to_status}-${change.changed_at}`,
+        change,
+      }),
+  });
+
+  const logout = async () => {
+    await fetch("/api/auth/logout", { method: "POST" });
+    setUser(null);
+    setData(null);
+  };
+
   useEffect(() => {
-    fetchDashboardData();
+    fetch("/api/auth/me")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((sessionUser) => setUser(sessionUser))
+      .catch(() => setUser(null))
+      .finally(() => setAuthChecked(true));
   }, []);
 
-  if (loading) {
+  useEffect(() => {
+    if (user) {
+      fetchDashboardData();
+    }
+  }, [user, range]);
+
+  // Drill-downs are bounded by the range they were picked from
+  useEffect(() => {
+    setCallFilter(null);
+  }, [range]);
+
+  if (authChecked && !user) {
+    return <Login onLogin={setUser} />;
+  }
+
+  // Later fetches, e.g. for a new range, keep the current data on screen
+  if (!authChecked || (loading && !data)) {
     return (
       <div
         style={{
@@ -115,13 +227,10 @@ function App() {
     );
   }
 
-  // Format dates for display
-  const formattedDailyData = data.dailyAverages.map((item) => ({
+  // Format bucket labels for display
+  const formattedDailyData = data.timeline.map((item) => ({
     ...item,
-    dateLabel: new Date(item.date).toLocaleDateString("en-US", {
-      month: "short",
-      day: "numeric",
-    }),
+    dateLabel: formatBucketLabel(item.label, data.range.bucket),
   }));
 
   // Calculate sentiment totals
@@ -133,37 +242,84 @@ function App() {
   const sentimentData = [
     {
       name: "Positive",
+      sentiment: "positive" as const,
       value: data.sentimentDistribution.positive,
       color: COLORS.positive,
     },
     {
       name: "Negative",
+      sentiment: "negative" as const,
       value: data.sentimentDistribution.negative,
       color: COLORS.negative,
     },
     {
       name: "Neutral",
+      sentiment: "neutral" as const,
       value: data.sentimentDistribution.neutral,
       color: COLORS.neutral,
     },
   ].filter((item) => item.value > 0);
 
-  // Calculate weekly averages
-  const weeklyAvgDuration =
-    data.dailyAverages.reduce((sum, day) => sum + day.avgDuration, 0) / 7;
-  const weeklyAvgIterations =
-    data.dailyAverages.reduce((sum, day) => sum + day.avgOfferIterations, 0) /
-    7;
-  const weeklyAvgDifference =
-    data.dailyAverages.reduce((sum, day) => sum + day.avgOfferDifference, 0) /
-    7;
-
-  // Format duration helper
-  const formatDuration = (seconds: number) => {
-    if (seconds === 0) return "0s";
-    const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    return mins > 0 ? `${mins}m ${secs}s` : `${secs}s`;
+  // Revenue analytics and the call table need analyst access, so only
+  // analysts see them and can drill down
+  const canBrowseCalls = user?.role === "analyst" || user?.role === "admin";
+
+  // Call filters take inclusive bounds; the API's ends are exclusive
+  const callRange = (start: string, end: string) => ({
+    from: start,
+    to: new Date(new Date(end).getTime() - 1000).toISOString(),
+  });
+
+  const drillIntoSentiment = (index: number) => {
+    const slice = sentimentData[index];
+    if (canBrowseCalls && slice) {
+      setCallFilter({
+        label: `${slice.name} sentiment, ${periodLabel.toLowerCase()}`,
+        sentiment: slice.sentiment,
+        ...callRange(data.range.start, data.range.end),
+      });
+    }
+  };
+
+  // recharts reports the clicked point's index, or nothing outside the data
+  const drillIntoDay = (index: unknown) => {
+    const bucket =
+      index == null ? undefined : formattedDailyData[Number(index)];
+    if (canBrowseCalls && bucket) {
+      setCallFilter({
+        label: bucket.dateLabel,
+        ...callRange(bucket.start, bucket.end),
+      });
+    }
+  };
+  const dayChartStyle = canBrowseCalls ? { cursor: "pointer" } : undefined;
+
+  const periodLabel = rangeLabel(range);
+
+  const conversionTables = [
+    {
+      title: "Conversion by Lane",
+      rows: data.conversion.byLane.map((row) => ({
+        key: `${row.origin}|${row.destination}`,
+        label: `${row.origin} → ${row.destination}`,
+        ...row,
+      })),
+    },
+    {
+      title: "Conversion by Load",
+      rows: data.conversion.byLoad.map((row) => ({
+        key: String(row.load_id),
+        label: `#${row.load_id} ${row.origin} → ${row.destination}`,
+        ...row,
+      })),
+    },
+  ];
+
+  const cellStyle = {
+    padding: "8px 12px",
+    fontSize: "14px",
+    color: "#374151",
+    borderBottom: "1px solid #e5e7eb",
   };
 
   return (
@@ -228,7 +384,17 @@ function App() {
               <path d="M3 21v-5h5" />
             </svg>
           </button>
-          <div
+          <DownloadMenu
+            range={range}
+            shown={data.range}
+            canExportTables={canBrowseCalls}
+          />
+          <RangePicker range={range} onChange={setRange} />
+          <span style={{ fontSize: "14px", color: "#6b7280" }}>
+            {user?.name}
+          </span>
+          <button
+            onClick={logout}
             style={{
               padding: "6px 12px",
               backgroundColor: "white",
@@ -236,13 +402,33 @@ function App() {
               borderRadius: "6px",
               fontSize: "14px",
               color: "#374151",
+              cursor: "pointer",
             }}
           >
-            7 days
-          </div>
+            Sign out
+          </button>
         </div>
       </div>
 
+      {rangeError && (
+        <p
+          style={{
+            color: "#ef4444",
+            fontSize: "14px",
+            marginTop: "-16px",
+            marginBottom: "16px",
+          }}
+        >
+          {rangeError}
+        </p>
+      )}
+
+      <LiveFeed
+        status={liveStatus}
+        negotiations={negotiations}
+        activity={activity}
+      />
+
       {/* Success Rate Card */}
       <div
         style={{
@@ -288,6 +474,24 @@ function App() {
             ({data.totalCalls} total calls)
           </span>
         </div>
+        <p
+          style={{
+            fontSize: "14px",
+            color: changeColor(data.comparison.successRate),
+            marginTop: "8px",
+          }}
+        >
+          {formatChange(
+            data.comparison.successRate,
+            (value) => `${value.toFixed(1)} pts`
+          )}
+          <span style={{ color: "#6b7280" }}>
+            {" • "}
+            {formatChange(data.comparison.totalCalls, (value) =>
+              value === 1 ? "1 call" : `${value} calls`
+            )}
+          </span>
+        </p>
       </div>
 
       {/* Sentiment Distribution */}
@@ -334,6 +538,8 @@ function App() {
                   outerRadius={80}
                   fill="#8884d8"
                   dataKey="value"
+                  onClick={(_, index) => drillIntoSentiment(index)}
+                  style={canBrowseCalls ? { cursor: "pointer" } : undefined}
                 >
                   {sentimentData.map((entry, index) => (
                     <Cell key={`cell-${index}`} fill={entry.color} />
@@ -375,7 +581,7 @@ function App() {
         )}
       </div>
 
-      {/* Daily Averages Charts */}
+      {/* Timeline Charts */}
       <div
         style={{
           display: "grid",
@@ -410,10 +616,16 @@ function App() {
               marginBottom: "24px",
             }}
           >
-            Last 7 days • Avg: {formatDuration(weeklyAvgDuration)}
+            {periodLabel} • Avg: {formatDuration(data.avgDuration)}
+            <br />
+            {formatChange(data.comparison.avgDuration, formatDuration)}
           </p>
           <ResponsiveContainer width="100%" height={250}>
-            <AreaChart data={formattedDailyData}>
+            <AreaChart
+              data={formattedDailyData}
+              onClick={(state) => drillIntoDay(state.activeIndex)}
+              style={dayChartStyle}
+            >
               <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
               <XAxis
                 dataKey="dateLabel"
@@ -470,10 +682,18 @@ function App() {
               marginBottom: "24px",
             }}
           >
-            Last 7 days • Avg: {weeklyAvgIterations.toFixed(1)}
+            {periodLabel} • Avg: {data.avgOfferIterations.toFixed(1)}
+            <br />
+            {formatChange(data.comparison.avgOfferIterations, (value) =>
+              value.toFixed(1)
+            )}
           </p>
           <ResponsiveContainer width="100%" height={250}>
-            <LineChart data={formattedDailyData}>
+            <LineChart
+              data={formattedDailyData}
+              onClick={(state) => drillIntoDay(state.activeIndex)}
+              style={dayChartStyle}
+            >
               <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
               <XAxis
                 dataKey="dateLabel"
@@ -526,10 +746,19 @@ function App() {
             marginBottom: "24px",
           }}
         >
-          Last 7 days • Avg: ${weeklyAvgDifference.toFixed(2)}
+          {periodLabel} • Avg: ${data.avgOfferDifference.toFixed(2)}
+          <br />
+          {formatChange(
+            data.comparison.avgOfferDifference,
+            (value) => `$${value.toFixed(2)}`
+          )}
         </p>
         <ResponsiveContainer width="100%" height={300}>
-          <AreaChart data={formattedDailyData}>
+          <AreaChart
+            data={formattedDailyData}
+            onClick={(state) => drillIntoDay(state.activeIndex)}
+            style={dayChartStyle}
+          >
             <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
             <XAxis
               dataKey="dateLabel"
@@ -559,6 +788,96 @@ function App() {
           </AreaChart>
         </ResponsiveContainer>
       </div>
+
+      {/* Conversion Tables */}
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(auto-fit, minmax(400px, 1fr))",
+          gap: "24px",
+          marginTop: "24px",
+        }}
+      >
+        {conversionTables.map((table) => (
+          <div
+            key={table.title}
+            style={{
+              backgroundColor: "white",
+              borderRadius: "12px",
+              padding: "24px",
+              boxShadow: "0 1px 3px 0 rgba(0, 0, 0, 0.1)",
+            }}
+          >
+            <h2
+              style={{
+                fontSize: "18px",
+                fontWeight: "600",
+                color: "#111827",
+                marginBottom: "24px",
+              }}
+            >
+              {table.title}
+            </h2>
+            {table.rows.length > 0 ? (
+              <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                <thead>
+                  <tr>
+                    {["", "Calls", "Booked", "Conversion"].map((heading) => (
+                      <th
+                        key={heading}
+                        style={{
+                          ...cellStyle,
+                          color: "#6b7280",
+                          fontWeight: "500",
+                          textAlign: heading ? "right" : "left",
+                        }}
+                      >
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {table.rows.map((row) => (
+                    <tr key={row.key}>
+                      <td style={cellStyle}>{row.label}</td>
+                      <td style={{ ...cellStyle, textAlign: "right" }}>
+                        {row.calls}
+                      </td>
+                      <td style={{ ...cellStyle, textAlign: "right" }}>
+                        {row.booked}
+                      </td>
+                      <td style={{ ...cellStyle, textAlign: "right" }}>
+                        {row.conversionRate.toFixed(1)}%
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p style={{ color: "#6b7280", fontSize: "14px" }}>
+                No calls linked to loads yet
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {canBrowseCalls && (
+        <RevenuePanel
+          range={range}
+          refreshKey={revenueVersion}
+          onUnauthorized={() => setUser(null)}
+        />
+      )}
+
+      {canBrowseCalls && (
+        <CallTable
+          filter={callFilter}
+          onClearFilter={() => setCallFilter(null)}
+          onUnauthorized={() => setUser(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,404 @@
+import { useState, useEffect, useRef } from "react";
+import { formatDuration, formatTimestamp } from "./format";
+
+// What the charts drill into: a sentiment slice or a single bucket
+export interface CallFilter {
+  label: string;
+  sentiment?: "positive" | "negative" | "neutral";
+  // Inclusive ISO 8601 bounds
+  from?: string;
+  to?: string;
+}
+
+interface CallRecord {
+  id: string;
+  duration: number;
+  mc_number: number;
+  final_offer: number;
+  final_counter_offer: number;
+  offer_iterations: number;
+  successful: boolean;
+  sentiment: string;
+  outcome: string | null;
+  load_id: number | null;
+  pitched_load_ids: number[];
+  current_location: string | null;
+  equipment_type: string | null;
+  tags: string[];
+  created_at: string;
+}
+
+interface CallDetail extends CallRecord {
+  transcript: string | null;
+}
+
+type SortKey =
+  | "created_at"
+  | "duration"
+  | "mc_number"
+  | "final_offer"
+  | "offer_iterations"
+  | "sentiment"
+  | "outcome";
+
+interface CallTableProps {
+  filter: CallFilter | null;
+  onClearFilter: () => void;
+  onUnauthorized: () => void;
+}
+
+const PAGE_SIZE = 20;
+
+const COLUMNS: Array<{ key: SortKey; label: string; numeric?: boolean }> = [
+  { key: "created_at", label: "Time" },
+  { key: "mc_number", label: "MC" },
+  { key: "duration", label: "Duration", numeric: true },
+  { key: "offer_iterations", label: "Rounds", numeric: true },
+  { key: "final_offer", label: "Final offer", numeric: true },
+  { key: "sentiment", label: "Sentiment" },
+  { key: "outcome", label: "Outcome" },
+];
+
+const cellStyle = {
+  padding: "8px 12px",
+  fontSize: "14px",
+  color: "#374151",
+  borderBottom: "1px solid #e5e7eb",
+};
+
+const buttonStyle = {
+  padding: "6px 12px",
+  backgroundColor: "white",
+  color: "#374151",
+  border: "1px solid #e5e7eb",
+  borderRadius: "6px",
+  cursor: "pointer",
+  fontSize: "14px",
+};
+
+const formatOutcome = (outcome: string | null) =>
+  outcome ? outcome.replace(/_/g, " ") : "—";
+
+function CallTable({ filter, onClearFilter, onUnauthorized }: CallTableProps) {
+  const [calls, setCalls] = useState<CallRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [sort, setSort] = useState<SortKey>("created_at");
+  const [order, setOrder] = useState<"asc" | "desc">("desc");
+  const [offset, setOffset] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<CallDetail | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // A new drill-down starts from the first page and scrolls into view
+  useEffect(() => {
+    setOffset(0);
+    setSelected(null);
+    if (filter) {
+      containerRef.current?.scrollIntoView({ behavior: "smooth" });
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    let ignore = false;
+    const params = new URLSearchParams({
+      sort,
+      order,
+      limit: String(PAGE_SIZE),
+      offset: String(offset),
+    });
+    if (filter?.sentiment) {
+      params.set("sentiment", filter.sentiment);
+    }
+    if (filter?.from) {
+      params.set("from", filter.from);
+    }
+    if (filter?.to) {
+      params.set("to", filter.to);
+    }
+
+    setLoading(true);
+    fetch(`/api/calls?${params}`)
+      .then(async (response) => {
+        if (response.status === 401) {
+          onUnauthorized();
+          return;
+        }
+        if (!response.ok) {
+          throw new Error("Failed to fetch calls");
+        }
+        const body = await response.json();
+        if (!ignore) {
+          setCalls(body.calls);
+          setTotal(body.total);
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        if (!ignore) {
+          setError(err instanceof Error ? err.message : "An error occurred");
+        }
+      })
+      .finally(() => {
+        if (!ignore) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      ignore = true;
+    };
+  }, [filter, sort, order, offset]);
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sort) {
+      setOrder(order === "asc" ? "desc" : "asc");
+    } else {
+      setSort(key);
+      // Newest, longest and highest first; text columns alphabetically
+      setOrder(
+        key === "sentiment" || key === "outcome" || key === "mc_number"
+          ? "asc"
+          : "desc"
+      );
+    }
+    setOffset(0);
+  };
+
+  const selectCall = async (id: string) => {
+    if (selected?.id === id) {
+      setSelected(null);
+      return;
+    }
+    try {
+      const response = await fetch(`/api/calls/${encodeURIComponent(id)}`);
+      if (response.status === 401) {
+        onUnauthorized();
+        return;
+      }
+      if (!response.ok) {
+        throw new Error("Failed to fetch call");
+      }
+      setSelected(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    }
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      style={{
+        backgroundColor: "white",
+        borderRadius: "12px",
+        padding: "24px",
+        boxShadow: "0 1px 3px 0 rgba(0, 0, 0, 0.1)",
+        marginTop: "24px",
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          marginBottom: "24px",
+        }}
+      >
+        <h2 style={{ fontSize: "18px", fontWeight: "600", color: "#111827" }}>
+          Calls
+        </h2>
+        {filter && (
+          <span
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: "8px",
+              padding: "4px 12px",
+              backgroundColor: "#eff6ff",
+              color: "#1d4ed8",
+              borderRadius: "9999px",
+              fontSize: "14px",
+            }}
+          >
+            {filter.label}
+            <button
+              onClick={onClearFilter}
+              aria-label="Clear filter"
+              style={{
+                border: "none",
+                background: "none",
+                color: "#1d4ed8",
+                cursor: "pointer",
+                fontSize: "16px",
+                padding: 0,
+              }}
+            >
+              ×
+            </button>
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <p style={{ color: "#ef4444", fontSize: "14px", marginBottom: "16px" }}>
+          {error}
+        </p>
+      )}
+
+      <table style={{ width: "100%", borderCollapse: "collapse" }}>
+        <thead>
+          <tr>
+            {COLUMNS.map((column) => (
+              <th
+                key={column.key}
+                onClick={() => toggleSort(column.key)}
+                style={{
+                  ...cellStyle,
+                  color: column.key === sort ? "#111827" : "#6b7280",
+                  fontWeight: "500",
+                  textAlign: column.numeric ? "right" : "left",
+                  cursor: "pointer",
+                  userSelect: "none",
+                }}
+              >
+                {column.label}
+                {column.key === sort && (order === "asc" ? " ▲" : " ▼")}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody style={{ opacity: loading ? 0.5 : 1 }}>
+          {calls.map((call) => (
+            <CallRow
+              key={call.id}
+              call={call}
+              detail={selected?.id === call.id ? selected : null}
+              onSelect={() => selectCall(call.id)}
+            />
+          ))}
+        </tbody>
+      </table>
+      {!loading && calls.length === 0 && (
+        <p style={{ color: "#6b7280", fontSize: "14px", marginTop: "16px" }}>
+          No matching calls
+        </p>
+      )}
+
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          marginTop: "16px",
+          fontSize: "14px",
+          color: "#6b7280",
+        }}
+      >
+        <span>
+          {total > 0
+            ? `${offset + 1}–${Math.min(offset + PAGE_SIZE, total)} of ${total}`
+            : ""}
+        </span>
+        <div style={{ display: "flex", gap: "8px" }}>
+          <button
+            onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+            disabled={offset === 0}
+            style={buttonStyle}
+          >
+            Previous
+          </button>
+          <button
+            onClick={() => setOffset(offset + PAGE_SIZE)}
+            disabled={offset + PAGE_SIZE >= total}
+            style={buttonStyle}
+          >
+            Next
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface CallRowProps {
+  call: CallRecord;
+  detail: CallDetail | null;
+  onSelect: () => void;
+}
+
+function CallRow({ call, detail, onSelect }: CallRowProps) {
+  const numericCell = { ...cellStyle, textAlign: "right" as const };
+  const details = detail && [
+    ["Load", detail.load_id ?? "—"],
+    [
+      "Pitched loads",
+      detail.pitched_load_ids.length > 0
+        ? detail.pitched_load_ids.join(", ")
+        : "—",
+    ],
+    ["Counter offer", `$${detail.final_counter_offer}`],
+    ["Location", detail.current_location ?? "—"],
+    ["Equipment", detail.equipment_type ?? "—"],
+    ["Tags", detail.tags.length > 0 ? detail.tags.join(", ") : "—"],
+  ];
+
+  return (
+    <>
+      <tr
+        onClick={onSelect}
+        style={{
+          cursor: "pointer",
+          backgroundColor: detail ? "#f9fafb" : undefined,
+        }}
+      >
+        <td style={cellStyle}>{formatTimestamp(call.created_at)}</td>
+        <td style={cellStyle}>{call.mc_number}</td>
+        <td style={numericCell}>{formatDuration(call.duration)}</td>
+        <td style={numericCell}>{call.offer_iterations}</td>
+        <td style={numericCell}>${call.final_offer}</td>
+        <td style={{ ...cellStyle, textTransform: "capitalize" }}>
+          {call.sentiment}
+        </td>
+        <td style={{ ...cellStyle, textTransform: "capitalize" }}>
+          {formatOutcome(call.outcome)}
+        </td>
+      </tr>
+      {detail && details && (
+        <tr style={{ backgroundColor: "#f9fafb" }}>
+          <td colSpan={COLUMNS.length} style={cellStyle}>
+            <div
+              style={{
+                display: "grid",
+                gridTemplateColumns: "repeat(auto-fit, minmax(160px, 1fr))",
+                gap: "12px",
+                marginBottom: "12px",
+              }}
+            >
+              {details.map(([label, value]) => (
+                <div key={label}>
+                  <div style={{ color: "#6b7280", fontSize: "12px" }}>
+                    {label}
+                  </div>
+                  <div>{value}</div>
+                </div>
+              ))}
+            </div>
+            <div style={{ color: "#6b7280", fontSize: "12px" }}>Transcript</div>
+            <pre
+              style={{
+                whiteSpace: "pre-wrap",
+                fontFamily: "inherit",
+                margin: "4px 0 0",
+                maxHeight: "320px",
+                overflowY: "auto",
+              }}
+            >
+              {detail.transcript || "No transcript recorded"}
+            </pre>
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
+
+export default CallTable;
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { DashboardRange, rangeQuery } from "./RangePicker";
+
+type ExportFormat = "csv" | "jsonl";
+
+interface DownloadMenuProps {
+  range: DashboardRange;
+  // The range the dashboard shows, in UTC with an exclusive end
+  shown: { start: string; end: string };
+  // Calls and loads need analyst access
+  canExportTables: boolean;
+}
+
+const controlStyle = {
+  padding: "6px 12px",
+  backgroundColor: "white",
+  border: "1px solid #e5e7eb",
+  borderRadius: "6px",
+  fontSize: "14px",
+  color: "#374151",
+};
+
+const linkStyle = {
+  display: "block",
+  padding: "8px 0",
+  fontSize: "14px",
+  color: "#3b82f6",
+  textDecoration: "none",
+};
+
+function DownloadMenu({ range, shown, canExportTables }: DownloadMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>("csv");
+
+  // Call filters take inclusive bounds
+  const callQuery = new URLSearchParams({
+    from: shown.start,
+    to: new Date(new Date(shown.end).getTime() - 1000).toISOString(),
+    format,
+  });
+
+  const downloads = [
+    {
+      label: "Timeline",
+      href: `/api/exports/dashboard?${rangeQuery(range)}&format=${format}`,
+    },
+    ...(canExportTables
+      ? [
+          { label: "Calls in range", href: `/api/exports/calls?${callQuery}` },
+          {
+            label: "Available loads",
+            href: `/api/exports/loads?format=${format}`,
+          },
+        ]
+      : []),
+  ];
+
+  return (
+    <div style={{ position: "relative" }}>
+      <button
+        onClick={() => setOpen((current) => !current)}
+        style={{ ...controlStyle, cursor: "pointer" }}
+        aria-expanded={open}
+      >
+        Download
+      </button>
+      {open && (
+        <div
+          style={{
+            position: "absolute",
+            right: 0,
+            top: "calc(100% + 4px)",
+            zIndex: 10,
+            minWidth: "200px",
+            padding: "12px 16px",
+            backgroundColor: "white",
+            border: "1px solid #e5e7eb",
+            borderRadius: "6px",
+            boxShadow: "0 4px 6px -1px rgba(0, 0, 0, 0.1)",
+          }}
+        >
+          <select
+            value={format}
+            onChange={(event) => setFormat(event.target.value as ExportFormat)}
+            style={{ ...controlStyle, width: "100%", marginBottom: "4px" }}
+            aria-label="Format"
+          >
+            <option value="csv">CSV (Excel)</option>
+            <option value="jsonl">JSON Lines</option>
+          </select>
+          {downloads.map(({ label, href }) => (
+            <a
+              key={label}
+              href={href}
+              download
+              onClick={() => setOpen(false)}
+              style={linkStyle}
+            >
+              {label}
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DownloadMenu;
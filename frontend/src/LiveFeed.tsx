@@ -0,0 +1,156 @@
+import {
+  LiveCall,
+  LiveLoadStatusChange,
+  LiveNegotiation,
+  LiveStatus,
+} from "./useLiveEvents";
+import { formatCurrency, formatDuration, formatTimestamp } from "./format";
+
+export type LiveActivity =
+  | { kind: "call"; key: string; call: LiveCall }
+  | { kind: "load"; key: string; change: LiveLoadStatusChange };
+
+interface LiveFeedProps {
+  status: LiveStatus;
+  negotiations: LiveNegotiation[];
+  activity: LiveActivity[];
+}
+
+const cardStyle = {
+  backgroundColor: "white",
+  borderRadius: "12px",
+  padding: "24px",
+  boxShadow: "0 1px 3px 0 rgba(0, 0, 0, 0.1)",
+};
+
+const headingStyle = {
+  fontSize: "18px",
+  fontWeight: "600",
+  color: "#111827",
+  marginBottom: "16px",
+};
+
+const rowStyle = {
+  display: "flex",
+  justifyContent: "space-between",
+  gap: "12px",
+  padding: "8px 0",
+  fontSize: "14px",
+  color: "#374151",
+  borderBottom: "1px solid #e5e7eb",
+};
+
+const mutedStyle = { color: "#6b7280", fontSize: "14px" };
+
+const STATUS_LABELS: Record<LiveStatus, { label: string; color: string }> = {
+  connecting: { label: "Connecting…", color: "#9ca3af" },
+  live: { label: "Live", color: "#10b981" },
+  reconnecting: { label: "Reconnecting…", color: "#f59e0b" },
+};
+
+const describeActivity = (item: LiveActivity) => {
+  if (item.kind === "call") {
+    const { call } = item;
+    const outcome = call.outcome
+      ? call.outcome.replace(/_/g, " ")
+      : call.successful
+        ? "booked"
+        : "not booked";
+    return {
+      at: call.created_at,
+      text: `MC ${call.mc_number}: ${outcome} after ${formatDuration(call.duration)}`,
+      color: call.successful ? "#10b981" : "#6b7280",
+    };
+  }
+  const { change } = item;
+  return {
+    at: change.changed_at,
+    text: `Load #${change.load_id}: ${change.from_status.replace(/_/g, " ")} → ${change.to_status.replace(/_/g, " ")}`,
+    color: "#374151",
+  };
+};
+
+function LiveFeed({ status, negotiations, activity }: LiveFeedProps) {
+  const indicator = STATUS_LABELS[status];
+
+  return (
+    <div
+      style={{
+        display: "grid",
+        gridTemplateColumns: "repeat(auto-fit, minmax(400px, 1fr))",
+        gap: "24px",
+        marginBottom: "24px",
+      }}
+    >
+      <div style={cardStyle}>
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "baseline",
+          }}
+        >
+          <h2 style={headingStyle}>Calls in Progress</h2>
+          <span
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: "6px",
+              ...mutedStyle,
+            }}
+          >
+            <span
+              style={{
+                width: "8px",
+                height: "8px",
+                borderRadius: "50%",
+                backgroundColor: indicator.color,
+              }}
+            />
+            {indicator.label}
+          </span>
+        </div>
+        {negotiations.length > 0 ? (
+          negotiations.map((negotiation) => (
+            <div key={negotiation.id} style={rowStyle}>
+              <span>
+                Load #{negotiation.load_id}
+                {negotiation.mc_number !== null &&
+                  ` • MC ${negotiation.mc_number}`}
+              </span>
+              <span style={{ color: "#6b7280" }}>
+                Round {negotiation.round_count}/{negotiation.max_rounds} •
+                Offer {formatCurrency(negotiation.current_offer)}
+                {negotiation.last_counter_offer !== null &&
+                  ` • Counter ${formatCurrency(negotiation.last_counter_offer)}`}
+              </span>
+            </div>
+          ))
+        ) : (
+          <p style={mutedStyle}>No negotiations in progress</p>
+        )}
+      </div>
+
+      <div style={cardStyle}>
+        <h2 style={headingStyle}>Recent Activity</h2>
+        {activity.length > 0 ? (
+          activity.map((item) => {
+            const { at, text, color } = describeActivity(item);
+            return (
+              <div key={item.key} style={rowStyle}>
+                <span style={{ color }}>{text}</span>
+                <span style={{ color: "#6b7280", whiteSpace: "nowrap" }}>
+                  {formatTimestamp(at)}
+                </span>
+              </div>
+            );
+          })
+        ) : (
+          <p style={mutedStyle}>Calls and load updates appear here as they happen</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default LiveFeed;
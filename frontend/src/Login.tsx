@@ -0,0 +1,147 @@
+import { useState, FormEvent } from "react";
+
+export interface SessionUser {
+  id: number;
+  email: string;
+  name: string;
+  role: "viewer" | "analyst" | "admin";
+}
+
+interface LoginProps {
+  onLogin: (user: SessionUser) => void;
+}
+
+const inputStyle = {
+  width: "100%",
+  padding: "8px 12px",
+  border: "1px solid #e5e7eb",
+  borderRadius: "6px",
+  fontSize: "14px",
+  color: "#111827",
+  boxSizing: "border-box" as const,
+};
+
+const labelStyle = {
+  display: "block",
+  fontSize: "14px",
+  fontWeight: "500",
+  color: "#374151",
+  marginBottom: "6px",
+};
+
+function Login({ onLogin }: LoginProps) {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    try {
+      setSubmitting(true);
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.details?.[0]?.message || body.error || "Failed to sign in");
+      }
+      setError(null);
+      onLogin(body);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to sign in");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        justifyContent: "center",
+        alignItems: "center",
+        minHeight: "100vh",
+        backgroundColor: "#f9fafb",
+      }}
+    >
+      <form
+        onSubmit={handleSubmit}
+        style={{
+          width: "100%",
+          maxWidth: "360px",
+          backgroundColor: "white",
+          borderRadius: "12px",
+          padding: "32px",
+          boxShadow: "0 1px 3px 0 rgba(0, 0, 0, 0.1)",
+        }}
+      >
+        <h1
+          style={{
+            fontSize: "24px",
+            fontWeight: "600",
+            color: "#111827",
+            marginTop: 0,
+            marginBottom: "24px",
+          }}
+        >
+          Sign in
+        </h1>
+        <div style={{ marginBottom: "16px" }}>
+          <label htmlFor="email" style={labelStyle}>
+            Email
+          </label>
+          <input
+            id="email"
+            type="email"
+            autoComplete="username"
+            required
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+            style={inputStyle}
+          />
+        </div>
+        <div style={{ marginBottom: "24px" }}>
+          <label htmlFor="password" style={labelStyle}>
+            Password
+          </label>
+          <input
+            id="password"
+            type="password"
+            autoComplete="current-password"
+            required
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            style={inputStyle}
+          />
+        </div>
+        {error && (
+          <p style={{ color: "#ef4444", fontSize: "14px", marginBottom: "16px" }}>
+            {error}
+          </p>
+        )}
+        <button
+          type="submit"
+          disabled={submitting}
+          style={{
+            width: "100%",
+            padding: "10px 16px",
+            backgroundColor: "#3b82f6",
+            color: "white",
+            border: "none",
+            borderRadius: "6px",
+            fontSize: "14px",
+            cursor: submitting ? "default" : "pointer",
+            opacity: submitting ? 0.7 : 1,
+          }}
+        >
+          {submitting ? "Signing in..." : "Sign in"}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+export default Login;
@@ -0,0 +1,162 @@
+export type Bucket = "hour" | "day" | "week" | "month";
+
+export type RangePreset = "24h" | "7d" | "30d" | "90d" | "12m" | "custom";
+
+export interface DashboardRange {
+  preset: RangePreset;
+  bucket: Bucket;
+  // YYYY-MM-DD, only used by the custom range
+  from: string;
+  to: string;
+}
+
+const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const formatDay = (date: Date) =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+
+// A local calendar day, days before today
+const localDay = (daysAgo: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - daysAgo);
+  return formatDay(date);
+};
+
+// Each preset runs up to now; its start is worked out when fetching, so the
+// range keeps moving and stays the same when the bucket is changed
+const PRESETS: Record<
+  Exclude<RangePreset, "custom">,
+  { label: string; bucket: Bucket; from: () => string }
+> = {
+  "24h": {
+    label: "24 hours",
+    bucket: "hour",
+    from: () => new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(),
+  },
+  "7d": { label: "7 days", bucket: "day", from: () => localDay(6) },
+  "30d": { label: "30 days", bucket: "day", from: () => localDay(29) },
+  "90d": { label: "90 days", bucket: "week", from: () => localDay(89) },
+  "12m": {
+    label: "12 months",
+    bucket: "month",
+    from: () => {
+      const date = new Date();
+      return formatDay(new Date(date.getFullYear(), date.getMonth() - 11, 1));
+    },
+  },
+};
+
+const BUCKETS: Bucket[] = ["hour", "day", "week", "month"];
+
+export const DEFAULT_RANGE: DashboardRange = {
+  preset: "7d",
+  bucket: "day",
+  from: "",
+  to: "",
+};
+
+/** Query string for /api/dashboard, bucketed in the browser's timezone. */
+export const rangeQuery = (range: DashboardRange) => {
+  const params = new URLSearchParams({ bucket: range.bucket, tz: timeZone });
+  if (range.preset === "custom") {
+    if (range.from) params.set("from", range.from);
+    if (range.to) params.set("to", range.to);
+  } else {
+    params.set("from", PRESETS[range.preset].from());
+  }
+  return params.toString();
+};
+
+export const rangeLabel = (range: DashboardRange) => {
+  if (range.preset !== "custom") {
+    return `Last ${PRESETS[range.preset].label}`;
+  }
+  return `${range.from || "…"} – ${range.to || "now"}`;
+};
+
+const controlStyle = {
+  padding: "6px 12px",
+  backgroundColor: "white",
+  border: "1px solid #e5e7eb",
+  borderRadius: "6px",
+  fontSize: "14px",
+  color: "#374151",
+};
+
+interface RangePickerProps {
+  range: DashboardRange;
+  onChange: (range: DashboardRange) => void;
+}
+
+function RangePicker({ range, onChange }: RangePickerProps) {
+  const selectPreset = (preset: RangePreset) => {
+    if (preset === "custom") {
+      onChange({
+        ...range,
+        preset,
+        from: range.from || localDay(6),
+        to: range.to || localDay(0),
+      });
+    } else {
+      onChange({ ...range, preset, bucket: PRESETS[preset].bucket });
+    }
+  };
+
+  return (
+    <div style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+      <select
+        value={range.preset}
+        onChange={(event) => selectPreset(event.target.value as RangePreset)}
+        style={controlStyle}
+        aria-label="Time range"
+      >
+        {Object.entries(PRESETS).map(([preset, { label }]) => (
+          <option key={preset} value={preset}>
+            {label}
+          </option>
+        ))}
+        <option value="custom">Custom</option>
+      </select>
+      {range.preset === "custom" && (
+        <>
+          <input
+            type="date"
+            value={range.from}
+            max={range.to || undefined}
+            onChange={(event) => onChange({ ...range, from: event.target.value })}
+            style={controlStyle}
+            aria-label="From"
+          />
+          <input
+            type="date"
+            value={range.to}
+            min={range.from || undefined}
+            onChange={(event) => onChange({ ...range, to: event.target.value })}
+            style={controlStyle}
+            aria-label="To"
+          />
+        </>
+      )}
+      <select
+        value={range.bucket}
+        onChange={(event) =>
+          onChange({ ...range, bucket: event.target.value as Bucket })
+        }
+        style={controlStyle}
+        aria-label="Group by"
+      >
+        {BUCKETS.map((bucket) => (
+          <option key={bucket} value={bucket}>
+            By {bucket}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+export default RangePicker;
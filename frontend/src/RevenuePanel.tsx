@@ -0,0 +1,386 @@
+import { useState, useEffect } from "react";
+import {
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { Bucket, DashboardRange, rangeQuery } from "./RangePicker";
+import { formatBucketLabel, formatCurrency } from "./format";
+
+interface RevenueMetrics {
+  bookings: number;
+  revenue: number;
+  avg_rate: number | null;
+  avg_loadboard_rate: number | null;
+  avg_maximum_rate: number | null;
+  rate_per_mile: number | null;
+  loadboard_rate_per_mile: number | null;
+  margin_left_on_table: number;
+}
+
+interface RevenueSummary extends RevenueMetrics {
+  range: { bucket: Bucket };
+  timeline: Array<RevenueMetrics & { label: string }>;
+}
+
+type Dimension = "lane" | "equipment" | "commodity";
+
+interface RevenueBreakdown {
+  dimension: Dimension;
+  rows: Array<RevenueMetrics & { group: string }>;
+}
+
+interface RevenuePanelProps {
+  range: DashboardRange;
+  // Changes when new bookings should be fetched
+  refreshKey: number;
+  onUnauthorized: () => void;
+}
+
+const DIMENSIONS: Array<{ key: Dimension; label: string }> = [
+  { key: "lane", label: "Lane" },
+  { key: "equipment", label: "Equipment" },
+  { key: "commodity", label: "Commodity" },
+];
+
+const cardStyle = {
+  backgroundColor: "white",
+  borderRadius: "12px",
+  padding: "24px",
+  boxShadow: "0 1px 3px 0 rgba(0, 0, 0, 0.1)",
+};
+
+const headingStyle = {
+  fontSize: "18px",
+  fontWeight: "600",
+  color: "#111827",
+  marginBottom: "24px",
+};
+
+const cellStyle = {
+  padding: "8px 12px",
+  fontSize: "14px",
+  color: "#374151",
+  borderBottom: "1px solid #e5e7eb",
+};
+
+const tooltipStyle = {
+  backgroundColor: "white",
+  border: "1px solid #e5e7eb",
+  borderRadius: "6px",
+};
+
+const formatRate = (value: number | null) =>
+  value === null ? "—" : formatCurrency(value);
+
+const formatPerMile = (value: number | null) =>
+  value === null ? "—" : `$${value.toFixed(2)}/mi`;
+
+// Throws on failures other than an expired session, which resolves to null
+const fetchJson = async <T,>(url: string, onUnauthorized: () => void) => {
+  const response = await fetch(url);
+  if (response.status === 401) {
+    onUnauthorized();
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error("Failed to fetch revenue analytics");
+  }
+  return (await response.json()) as T;
+};
+
+function RevenuePanel({ range, refreshKey, onUnauthorized }: RevenuePanelProps) {
+  const [summary, setSummary] = useState<RevenueSummary | null>(null);
+  const [breakdown, setBreakdown] = useState<RevenueBreakdown | null>(null);
+  const [dimension, setDimension] = useState<Dimension>("lane");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let ignore = false;
+    fetchJson<RevenueSummary>(
+      `/api/analytics/revenue?${rangeQuery(range)}`,
+      onUnauthorized
+    )
+      .then((body) => {
+        if (!ignore && body) {
+          setSummary(body);
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        if (!ignore) {
+          setError(err instanceof Error ? err.message : "An error occurred");
+        }
+      });
+    return () => {
+      ignore = true;
+    };
+  }, [range, refreshKey]);
+
+  useEffect(() => {
+    let ignore = false;
+    fetchJson<RevenueBreakdown>(
+      `/api/analytics/revenue/${dimension}?${rangeQuery(range)}`,
+      onUnauthorized
+    )
+      .then((body) => {
+        if (!ignore && body) {
+          setBreakdown(body);
+        }
+      })
+      .catch((err) => {
+        if (!ignore) {
+          setError(err instanceof Error ? err.message : "An error occurred");
+        }
+      });
+    return () => {
+      ignore = true;
+    };
+  }, [range, dimension, refreshKey]);
+
+  if (error) {
+    return (
+      <div style={{ ...cardStyle, marginTop: "24px" }}>
+        <p style={{ color: "#ef4444", fontSize: "14px" }}>{error}</p>
+      </div>
+    );
+  }
+
+  if (!summary) {
+    return null;
+  }
+
+  const timeline = summary.timeline.map((item) => ({
+    ...item,
+    dateLabel: formatBucketLabel(item.label, summary.range.bucket),
+  }));
+
+  const stats = [
+    {
+      title: "Booked Revenue",
+      value: formatCurrency(summary.revenue),
+      detail: `${summary.bookings} ${summary.bookings === 1 ? "booking" : "bookings"}`,
+    },
+    {
+      title: "Average Booked Rate",
+      value: formatRate(summary.avg_rate),
+      detail: `Loadboard ${formatRate(summary.avg_loadboard_rate)} • Max ${formatRate(summary.avg_maximum_rate)}`,
+    },
+    {
+      title: "Rate per Mile",
+      value: formatPerMile(summary.rate_per_mile),
+      detail: `Loadboard ${formatPerMile(summary.loadboard_rate_per_mile)}`,
+    },
+    {
+      title: "Margin Left on Table",
+      value: formatCurrency(summary.margin_left_on_table),
+      detail: "Paid above loadboard rates",
+    },
+  ];
+
+  return (
+    <div style={{ marginTop: "24px" }}>
+      {/* Revenue Stats */}
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(auto-fit, minmax(220px, 1fr))",
+          gap: "24px",
+          marginBottom: "24px",
+        }}
+      >
+        {stats.map((stat) => (
+          <div key={stat.title} style={cardStyle}>
+            <h2 style={{ ...headingStyle, marginBottom: "8px" }}>
+              {stat.title}
+            </h2>
+            <div
+              style={{ fontSize: "32px", fontWeight: "700", color: "#111827" }}
+            >
+              {stat.value}
+            </div>
+            <p style={{ fontSize: "14px", color: "#6b7280", marginTop: "8px" }}>
+              {stat.detail}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {/* Revenue Charts */}
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(auto-fit, minmax(400px, 1fr))",
+          gap: "24px",
+          marginBottom: "24px",
+        }}
+      >
+        <div style={cardStyle}>
+          <h2 style={headingStyle}>Booked Revenue</h2>
+          <ResponsiveContainer width="100%" height={250}>
+            <BarChart data={timeline}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+              <XAxis
+                dataKey="dateLabel"
+                stroke="#6b7280"
+                style={{ fontSize: "12px" }}
+              />
+              <YAxis
+                stroke="#6b7280"
+                style={{ fontSize: "12px" }}
+                tickFormatter={(value) => formatCurrency(value)}
+              />
+              <Tooltip
+                formatter={(value: number) => formatCurrency(value)}
+                contentStyle={tooltipStyle}
+              />
+              <Bar dataKey="revenue" name="Revenue" fill="#10b981" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div style={cardStyle}>
+          <h2 style={headingStyle}>Rate per Mile</h2>
+          <ResponsiveContainer width="100%" height={250}>
+            <LineChart data={timeline}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+              <XAxis
+                dataKey="dateLabel"
+                stroke="#6b7280"
+                style={{ fontSize: "12px" }}
+              />
+              <YAxis
+                stroke="#6b7280"
+                style={{ fontSize: "12px" }}
+                tickFormatter={(value) => `$${value.toFixed(2)}`}
+              />
+              <Tooltip
+                formatter={(value: number) => formatPerMile(value)}
+                contentStyle={tooltipStyle}
+              />
+              <Legend wrapperStyle={{ fontSize: "12px" }} />
+              <Line
+                type="monotone"
+                dataKey="rate_per_mile"
+                name="Booked"
+                stroke="#60a5fa"
+                strokeWidth={2}
+                dot={{ fill: "#60a5fa", r: 4 }}
+              />
+              <Line
+                type="monotone"
+                dataKey="loadboard_rate_per_mile"
+                name="Loadboard"
+                stroke="#9ca3af"
+                strokeWidth={2}
+                strokeDasharray="4 4"
+                dot={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {/* Revenue Breakdown */}
+      <div style={cardStyle}>
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            marginBottom: "24px",
+          }}
+        >
+          <h2 style={{ ...headingStyle, marginBottom: 0 }}>
+            Revenue by {DIMENSIONS.find((item) => item.key === dimension)?.label}
+          </h2>
+          <div style={{ display: "flex", gap: "8px" }}>
+            {DIMENSIONS.map((item) => (
+              <button
+                key={item.key}
+                onClick={() => setDimension(item.key)}
+                style={{
+                  padding: "6px 12px",
+                  backgroundColor: item.key === dimension ? "#111827" : "white",
+                  color: item.key === dimension ? "white" : "#374151",
+                  border: "1px solid #e5e7eb",
+                  borderRadius: "6px",
+                  fontSize: "14px",
+                  cursor: "pointer",
+                }}
+              >
+                {item.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        {breakdown && breakdown.rows.length > 0 ? (
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr>
+                {[
+                  "",
+                  "Bookings",
+                  "Revenue",
+                  "Avg rate",
+                  "Loadboard",
+                  "Maximum",
+                  "Rate/mile",
+                  "Left on table",
+                ].map((heading) => (
+                  <th
+                    key={heading}
+                    style={{
+                      ...cellStyle,
+                      color: "#6b7280",
+                      fontWeight: "500",
+                      textAlign: heading ? "right" : "left",
+                    }}
+                  >
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {breakdown.rows.map((row) => (
+                <tr key={row.group}>
+                  <td style={cellStyle}>{row.group}</td>
+                  {[
+                    String(row.bookings),
+                    formatCurrency(row.revenue),
+                    formatRate(row.avg_rate),
+                    formatRate(row.avg_loadboard_rate),
+                    formatRate(row.avg_maximum_rate),
+                    formatPerMile(row.rate_per_mile),
+                    formatCurrency(row.margin_left_on_table),
+                  ].map((value, index) => (
+                    <td
+                      key={index}
+                      style={{ ...cellStyle, textAlign: "right" }}
+                    >
+                      {value}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p style={{ color: "#6b7280", fontSize: "14px" }}>
+            No bookings in this range
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default RevenuePanel;
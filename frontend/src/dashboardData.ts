@@ -0,0 +1,193 @@
+import { Bucket } from "./RangePicker";
+import { LiveCall } from "./useLiveEvents";
+
+export interface DashboardMetrics {
+  totalCalls: number;
+  successRate: number;
+  avgDuration: number;
+  avgOfferIterations: number;
+  avgOfferDifference: number;
+}
+
+export interface MetricChange {
+  previous: number;
+  change: number;
+  percentChange: number | null;
+}
+
+export interface TimelineBucket {
+  label: string;
+  start: string;
+  end: string;
+  calls: number;
+  avgDuration: number;
+  avgOfferIterations: number;
+  avgOfferDifference: number;
+}
+
+export interface ConversionRow {
+  origin: string;
+  destination: string;
+  calls: number;
+  booked: number;
+  conversionRate: number;
+}
+
+export interface DashboardData extends DashboardMetrics {
+  range: {
+    start: string;
+    end: string;
+    bucket: Bucket;
+    tz: string;
+  };
+  sentimentDistribution: {
+    positive: number;
+    negative: number;
+    neutral: number;
+  };
+  timeline: TimelineBucket[];
+  comparison: Record<keyof DashboardMetrics, MetricChange>;
+  conversion: {
+    byLoad: Array<ConversionRow & { load_id: number }>;
+    byLane: ConversionRow[];
+  };
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Local start of the bucket holding the instant, as the API works it out
+// (weeks start on Monday). The dashboard always asks for the browser's zone.
+const bucketStart = (instant: Date, bucket: Bucket) => {
+  const start = new Date(instant);
+  start.setMinutes(0, 0, 0);
+  if (bucket !== "hour") {
+    start.setHours(0);
+  }
+  if (bucket === "week") {
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  }
+  if (bucket === "month") {
+    start.setDate(1);
+  }
+  return start;
+};
+
+const bucketLabel = (start: Date, bucket: Bucket) => {
+  const date = `${start.getFullYear()}-${pad(start.getMonth() + 1)}-${pad(start.getDate())}`;
+  return bucket === "hour" ? `${date} ${pad(start.getHours())}:00` : date;
+};
+
+// Folds one more value into an average over count values
+const addToAverage = (average: number, count: number, value: number) =>
+  (average * count + value) / (count + 1);
+
+const compare = (current: number, previous: number): MetricChange => ({
+  previous,
+  change: current - previous,
+  percentChange:
+    previous !== 0 ? ((current - previous) / Math.abs(previous)) * 100 : null,
+});
+
+/**
+ * The dashboard with a newly stored call counted in. When openEnded the range
+ * runs up to now, so it grows to take in calls made after it was fetched,
+ * with new buckets as needed; otherwise calls outside it are ignored.
+ * Conversion tables need the load's lane, so they wait for the next fetch.
+ */
+export const applyCall = (
+  data: DashboardData,
+  call: LiveCall,
+  openEnded: boolean
+): DashboardData => {
+  // created_at is UTC without a zone marker
+  const at = new Date(call.created_at.replace(" ", "T") + "Z");
+  const rangeEnd = new Date(data.range.end);
+  if (at < new Date(data.range.start) || (at >= rangeEnd && !openEnded)) {
+    return data;
+  }
+  // Ends are exclusive and created_at has whole seconds
+  const end =
+    at >= rangeEnd ? new Date(at.getTime() + 1000).toISOString() : data.range.end;
+
+  const count = data.totalCalls;
+  const offerDifference = Math.abs(call.final_offer - call.final_counter_offer);
+  const metrics: DashboardMetrics = {
+    totalCalls: count + 1,
+    successRate:
+      (((data.successRate / 100) * count + (call.successful ? 1 : 0)) /
+        (count + 1)) *
+      100,
+    avgDuration: addToAverage(data.avgDuration, count, call.duration),
+    avgOfferIterations: addToAverage(
+      data.avgOfferIterations,
+      count,
+      call.offer_iterations
+    ),
+    avgOfferDifference: addToAverage(
+      data.avgOfferDifference,
+      count,
+      offerDifference
+    ),
+  };
+
+  // Sentiments other than positive and negative count as neutral
+  const sentiment =
+    call.sentiment === "positive" || call.sentiment === "negative"
+      ? call.sentiment
+      : "neutral";
+
+  const start = bucketStart(at, data.range.bucket);
+  const label = bucketLabel(start, data.range.bucket);
+  const timeline = data.timeline.some((item) => item.label === label)
+    ? data.timeline
+    : [
+        ...data.timeline,
+        {
+          label,
+          start: start.toISOString(),
+          end,
+          calls: 0,
+          avgDuration: 0,
+          avgOfferIterations: 0,
+          avgOfferDifference: 0,
+        },
+      ];
+
+  const comparison = Object.fromEntries(
+    (Object.keys(metrics) as Array<keyof DashboardMetrics>).map((key) => [
+      key,
+      compare(metrics[key], data.comparison[key].previous),
+    ])
+  ) as DashboardData["comparison"];
+
+  return {
+    ...data,
+    ...metrics,
+    range: { ...data.range, end },
+    sentimentDistribution: {
+      ...data.sentimentDistribution,
+      [sentiment]: data.sentimentDistribution[sentiment] + 1,
+    },
+    timeline: timeline.map((item) =>
+      item.label !== label
+        ? item
+        : {
+            ...item,
+            end: new Date(item.end) < new Date(end) ? end : item.end,
+            calls: item.calls + 1,
+            avgDuration: addToAverage(item.avgDuration, item.calls, call.duration),
+            avgOfferIterations: addToAverage(
+              item.avgOfferIterations,
+              item.calls,
+              call.offer_iterations
+            ),
+            avgOfferDifference: addToAverage(
+              item.avgOfferDifference,
+              item.calls,
+              offerDifference
+            ),
+          }
+    ),
+    comparison,
+  };
+};
@@ -0,0 +1,37 @@
+import { Bucket } from "./RangePicker";
+
+export const formatDuration = (seconds: number) => {
+  if (seconds === 0) return "0s";
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return mins > 0 ? `${mins}m ${secs}s` : `${secs}s`;
+};
+
+// Bucket labels are local 'YYYY-MM-DD' or 'YYYY-MM-DD HH:00' times
+export const formatBucketLabel = (label: string, bucket: Bucket) => {
+  const [year, month, day, hour = 0] = label.split(/[- :]/).map(Number);
+  const date = new Date(year, month - 1, day, hour);
+  if (bucket === "hour") {
+    return date.toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+    });
+  }
+  if (bucket === "month") {
+    return date.toLocaleDateString("en-US", { month: "short", year: "numeric" });
+  }
+  return date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+};
+
+// created_at columns are UTC without a zone marker
+export const formatTimestamp = (createdAt: string) =>
+  new Date(createdAt.replace(" ", "T") + "Z").toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+export const formatCurrency = (value: number) =>
+  `$${value.toLocaleString("en-US", { maximumFractionDigits: 0 })}`;
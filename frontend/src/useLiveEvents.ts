@@ -0,0 +1,130 @@
+import { useState, useEffect, useRef } from "react";
+
+// Payloads of the events streamed by GET /api/events
+
+export interface LiveCall {
+  id: string;
+  duration: number;
+  mc_number: number;
+  final_offer: number;
+  final_counter_offer: number;
+  offer_iterations: number;
+  successful: boolean;
+  sentiment: string;
+  outcome: string | null;
+  negotiation_id: string | null;
+  load_id: number | null;
+  created_at: string;
+}
+
+export interface LiveNegotiation {
+  id: string;
+  load_id: number;
+  call_id: string | null;
+  mc_number: number | null;
+  status: "open" | "accepted" | "rejected";
+  initial_offer: number;
+  current_offer: number;
+  last_counter_offer: number | null;
+  round_count: number;
+  max_rounds: number;
+  updated_at: string;
+}
+
+export interface LiveLoadStatusChange {
+  load_id: number;
+  from_status: string;
+  to_status: string;
+  reason: string | null;
+  changed_at: string;
+}
+
+export interface LiveEventHandlers {
+  // Sent on every (re)connection; with resync, events were missed and the
+  // dashboard has to be fetched again
+  onReady: (snapshot: { negotiations: LiveNegotiation[]; resync: boolean }) => void;
+  onCall: (call: LiveCall) => void;
+  // A recorded call gained late fields, such as its sentiment
+  onCallUpdated: (call: LiveCall) => void;
+  onNegotiation: (negotiation: LiveNegotiation) => void;
+  onLoadStatus: (change: LiveLoadStatusChange) => void;
+}
+
+export type LiveStatus = "connecting" | "live" | "reconnecting";
+
+// Wait before reopening a stream the browser gave up on, e.g. after a 5xx
+const RETRY_MS = 5000;
+
+/** Subscribes to the dashboard event stream while enabled. */
+export function useLiveEvents(
+  enabled: boolean,
+  handlers: LiveEventHandlers
+): LiveStatus {
+  const [status, setStatus] = useState<LiveStatus>("connecting");
+  // The stream outlives renders, so it calls the latest handlers
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    let source: EventSource | null = null;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+    let opened = false;
+
+    const listen = <T,>(type: string, handle: (payload: T) => void) => {
+      source?.addEventListener(type, (event) =>
+        handle(JSON.parse((event as MessageEvent).data) as T)
+      );
+    };
+
+    const connect = () => {
+      source = new EventSource("/api/events");
+      // A fresh stream cannot replay what was missed while disconnected
+      const reopened = opened;
+      opened = true;
+
+      listen<{ negotiations: LiveNegotiation[]; resync: boolean }>(
+        "ready",
+        (snapshot) => {
+          setStatus("live");
+          handlersRef.current.onReady({
+            ...snapshot,
+            resync: snapshot.resync || reopened,
+          });
+        }
+      );
+      listen<LiveCall>("call.created", (call) =>
+        handlersRef.current.onCall(call)
+      );
+      listen<LiveCall>("call.updated", (call) =>
+        handlersRef.current.onCallUpdated(call)
+      );
+      listen<LiveNegotiation>("negotiation.updated", (negotiation) =>
+        handlersRef.current.onNegotiation(negotiation)
+      );
+      listen<LiveLoadStatusChange>("load.status_changed", (change) =>
+        handlersRef.current.onLoadStatus(change)
+      );
+
+      // The browser reconnects by itself, sending Last-Event-ID, unless the
+      // stream failed outright
+      source.onerror = () => {
+        setStatus("reconnecting");
+        if (source?.readyState === EventSource.CLOSED) {
+          retry = setTimeout(connect, RETRY_MS);
+        }
+      };
+    };
+
+    setStatus("connecting");
+    connect();
+    return () => {
+      clearTimeout(retry);
+      source?.close();
+    };
+  }, [enabled]);
+
+  return status;
+}